@@ -3,5 +3,5 @@ module.exports = {
   providerOptions: {
     privateKey: process.env.PRIVATE_KEY,
   },
-  skipFiles: ['test'],
+  skipFiles: ['test', 'legacy'],
 };
@@ -0,0 +1,257 @@
+import { isLocalNetwork } from "../../utils/helpers";
+import {
+  DAO__factory,
+  DAOFactory__factory,
+  DAORegistry__factory,
+  ENSSubdomainRegistrar__factory,
+  PluginRepoFactory__factory,
+  PluginRepoRegistry__factory,
+  PluginSetupProcessor__factory,
+} from "@aragon/osx-ethers";
+import ENSRegistryArtifact from "@ensdomains/ens-contracts/artifacts/contracts/registry/ENSRegistry.sol/ENSRegistry.json";
+import PublicResolverArtifact from "@ensdomains/ens-contracts/artifacts/contracts/resolvers/PublicResolver.sol/PublicResolver.json";
+import { DeployFunction } from "hardhat-deploy/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+const DAO_DOMAIN = "dao.eth";
+const PLUGIN_DOMAIN = "plugin.dao.eth";
+
+const func: DeployFunction = function (hre: HardhatRuntimeEnvironment) {
+  return deployOSx(hre);
+};
+
+// Deploys the OSx framework from the published artifacts, so that no live network is needed
+async function deployOSx(hre: HardhatRuntimeEnvironment) {
+  console.log(`\nDeploying the OSx framework on "${hre.network.name}"`);
+
+  const { deployments, ethers } = hre;
+  const { deploy, execute } = deployments;
+  const { deployer } = await hre.getNamedAccounts();
+  const { AddressZero } = ethers.constants;
+
+  // ENS
+  const ensRegistry = await deploy("ENSRegistry", {
+    from: deployer,
+    contract: ENSRegistryArtifact,
+    args: [],
+    log: true,
+  });
+  const publicResolver = await deploy("PublicResolver", {
+    from: deployer,
+    contract: PublicResolverArtifact,
+    args: [ensRegistry.address, AddressZero, AddressZero, AddressZero],
+    log: true,
+  });
+  await registerDomain(hre, DAO_DOMAIN, publicResolver.address);
+  await registerDomain(hre, PLUGIN_DOMAIN, publicResolver.address);
+
+  // Managing DAO
+  const managingDao = await deploy("DAO", {
+    from: deployer,
+    contract: { abi: DAO__factory.abi, bytecode: DAO__factory.bytecode },
+    proxy: {
+      proxyContract: "UUPS",
+      execute: {
+        init: {
+          methodName: "initialize",
+          args: ["0x", deployer, AddressZero, "https://example.com"],
+        },
+      },
+    },
+    log: true,
+  });
+
+  // ENS subdomain registrars
+  const daoRegistrar = await deploy("DAO_ENSSubdomainRegistrar", {
+    from: deployer,
+    contract: {
+      abi: ENSSubdomainRegistrar__factory.abi,
+      bytecode: ENSSubdomainRegistrar__factory.bytecode,
+    },
+    proxy: {
+      proxyContract: "UUPS",
+      execute: {
+        init: {
+          methodName: "initialize",
+          args: [
+            managingDao.address,
+            ensRegistry.address,
+            ethers.utils.namehash(DAO_DOMAIN),
+          ],
+        },
+      },
+    },
+    log: true,
+  });
+  const pluginRegistrar = await deploy("Plugin_ENSSubdomainRegistrar", {
+    from: deployer,
+    contract: {
+      abi: ENSSubdomainRegistrar__factory.abi,
+      bytecode: ENSSubdomainRegistrar__factory.bytecode,
+    },
+    proxy: {
+      proxyContract: "UUPS",
+      execute: {
+        init: {
+          methodName: "initialize",
+          args: [
+            managingDao.address,
+            ensRegistry.address,
+            ethers.utils.namehash(PLUGIN_DOMAIN),
+          ],
+        },
+      },
+    },
+    log: true,
+  });
+
+  // The registrars register the subdomains on behalf of the registries
+  await execute(
+    "ENSRegistry",
+    { from: deployer, log: true },
+    "setOwner",
+    ethers.utils.namehash(DAO_DOMAIN),
+    daoRegistrar.address,
+  );
+  await execute(
+    "ENSRegistry",
+    { from: deployer, log: true },
+    "setOwner",
+    ethers.utils.namehash(PLUGIN_DOMAIN),
+    pluginRegistrar.address,
+  );
+
+  // Registries
+  const daoRegistry = await deploy("DAORegistry", {
+    from: deployer,
+    contract: {
+      abi: DAORegistry__factory.abi,
+      bytecode: DAORegistry__factory.bytecode,
+    },
+    proxy: {
+      proxyContract: "UUPS",
+      execute: {
+        init: {
+          methodName: "initialize",
+          args: [managingDao.address, daoRegistrar.address],
+        },
+      },
+    },
+    log: true,
+  });
+  const pluginRepoRegistry = await deploy("PluginRepoRegistry", {
+    from: deployer,
+    contract: {
+      abi: PluginRepoRegistry__factory.abi,
+      bytecode: PluginRepoRegistry__factory.bytecode,
+    },
+    proxy: {
+      proxyContract: "UUPS",
+      execute: {
+        init: {
+          methodName: "initialize",
+          args: [managingDao.address, pluginRegistrar.address],
+        },
+      },
+    },
+    log: true,
+  });
+
+  // Factories and the plugin setup processor
+  const pluginRepoFactory = await deploy("PluginRepoFactory", {
+    from: deployer,
+    contract: {
+      abi: PluginRepoFactory__factory.abi,
+      bytecode: PluginRepoFactory__factory.bytecode,
+    },
+    args: [pluginRepoRegistry.address],
+    log: true,
+  });
+  const pluginSetupProcessor = await deploy("PluginSetupProcessor", {
+    from: deployer,
+    contract: {
+      abi: PluginSetupProcessor__factory.abi,
+      bytecode: PluginSetupProcessor__factory.bytecode,
+    },
+    args: [pluginRepoRegistry.address],
+    log: true,
+  });
+  const daoFactory = await deploy("DAOFactory", {
+    from: deployer,
+    contract: {
+      abi: DAOFactory__factory.abi,
+      bytecode: DAOFactory__factory.bytecode,
+    },
+    args: [daoRegistry.address, pluginSetupProcessor.address],
+    log: true,
+  });
+
+  // Permissions on the managing DAO
+  const permissions: [string, string, string][] = [
+    [
+      daoRegistrar.address,
+      daoRegistry.address,
+      "REGISTER_ENS_SUBDOMAIN_PERMISSION",
+    ],
+    [
+      pluginRegistrar.address,
+      pluginRepoRegistry.address,
+      "REGISTER_ENS_SUBDOMAIN_PERMISSION",
+    ],
+    [daoRegistry.address, daoFactory.address, "REGISTER_DAO_PERMISSION"],
+    [
+      pluginRepoRegistry.address,
+      pluginRepoFactory.address,
+      "REGISTER_PLUGIN_REPO_PERMISSION",
+    ],
+  ];
+  for (const [where, who, permission] of permissions) {
+    await execute(
+      "DAO",
+      { from: deployer, log: true },
+      "grant",
+      where,
+      who,
+      ethers.utils.id(permission),
+    );
+  }
+}
+
+// Registers the missing labels of `domain` to the deployer
+async function registerDomain(
+  hre: HardhatRuntimeEnvironment,
+  domain: string,
+  resolver: string,
+) {
+  const { deployments, ethers } = hre;
+  const { deployer } = await hre.getNamedAccounts();
+
+  const labels = domain.split(".").reverse();
+  let parentNode = ethers.constants.HashZero;
+
+  for (let i = 0; i < labels.length; i++) {
+    const node = ethers.utils.namehash(
+      labels.slice(0, i + 1).reverse().join("."),
+    );
+    const owner = await deployments.read("ENSRegistry", "owner", node);
+
+    if (owner === ethers.constants.AddressZero) {
+      await deployments.execute(
+        "ENSRegistry",
+        { from: deployer, log: true },
+        "setSubnodeRecord",
+        parentNode,
+        ethers.utils.id(labels[i]),
+        deployer,
+        resolver,
+        0,
+      );
+    }
+    parentNode = node;
+  }
+}
+
+export default func;
+func.tags = ["OSx", "Deployment"];
+func.skip = (hre: HardhatRuntimeEnvironment) =>
+  Promise.resolve(!isLocalNetwork(hre.network.name));
@@ -33,7 +33,7 @@ async function deployRepo(
   const [deployer] = await hre.ethers.getSigners();
 
   // Get the PluginRepoFactory address
-  const pluginRepoFactoryAddr: string = getPluginRepoFactoryAddress(
+  const pluginRepoFactoryAddr: string = await getPluginRepoFactoryAddress(
     network.name,
   );
 
@@ -79,3 +79,4 @@ async function deployRepo(
 
 export default func;
 func.tags = ["PluginRepo", "Deployment"];
+func.dependencies = ["OSx"];
@@ -1,6 +1,10 @@
 import {
   OptimisticTokenVotingPluginSetupParams,
 } from "../../plugin-setup-params";
+import {
+  getPreviousBuildSetupName,
+  isLocalNetwork,
+} from "../../utils/helpers";
 import { DeployFunction } from "hardhat-deploy/types";
 import { HardhatRuntimeEnvironment } from "hardhat/types";
 
@@ -8,6 +12,19 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
   const { deployments, getNamedAccounts } = hre;
   const { deploy } = deployments;
   const { deployer } = await getNamedAccounts();
+  const { AddressZero } = hre.ethers.constants;
+
+  // Governance token bases to clone from
+  const governanceERC20Base = await deploy("GovernanceERC20", {
+    from: deployer,
+    args: [AddressZero, "", "", { receivers: [], amounts: [] }],
+    log: true,
+  });
+  const governanceWrappedERC20Base = await deploy("GovernanceWrappedERC20", {
+    from: deployer,
+    args: [AddressZero, "", ""],
+    log: true,
+  });
 
   // Optimistic token voting
   console.log(
@@ -18,10 +35,32 @@ const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
     OptimisticTokenVotingPluginSetupParams.PLUGIN_SETUP_CONTRACT_NAME,
     {
       from: deployer,
-      args: [],
+      args: [governanceERC20Base.address, governanceWrappedERC20Base.address],
       log: true,
     },
   );
+
+  // Local networks start from an empty plugin repo. To test updates there, each previous build is published from the frozen copy of its contracts in `src/legacy` (see `12_publish`).
+  if (isLocalNetwork(hre.network.name)) {
+    const { build } = OptimisticTokenVotingPluginSetupParams.VERSION;
+    for (let previousBuild = 1; previousBuild < build; previousBuild++) {
+      await deploy(
+        getPreviousBuildSetupName(
+          OptimisticTokenVotingPluginSetupParams.PLUGIN_SETUP_CONTRACT_NAME,
+          previousBuild,
+        ),
+        {
+          contract: `${OptimisticTokenVotingPluginSetupParams.PLUGIN_SETUP_CONTRACT_NAME}Build${previousBuild}`,
+          from: deployer,
+          args: [
+            governanceERC20Base.address,
+            governanceWrappedERC20Base.address,
+          ],
+          log: true,
+        },
+      );
+    }
+  }
 };
 
 export default func;
@@ -7,9 +7,14 @@ import {
   getPluginRepoInfo,
   PluginRepoBuild,
 } from "../../utils/plugin-repo-info";
+import {
+  getPreviousBuildSetupName,
+  isLocalNetwork,
+} from "../../utils/helpers";
 import { toHex } from "../../utils/ipfs";
 import { uploadToIPFS } from "../../utils/ipfs";
 import { PluginRepo__factory, PluginSetup__factory } from "@aragon/osx-ethers";
+import { ethers } from "ethers";
 import { DeployFunction } from "hardhat-deploy/types";
 import { HardhatRuntimeEnvironment } from "hardhat/types";
 
@@ -29,14 +34,14 @@ async function publishPlugin(
   const [deployer] = await hre.ethers.getSigners();
 
   // Upload the metadata to IPFS
-  const releaseMetadataURI = `ipfs://${await uploadToIPFS(
+  const releaseMetadataURI = await getMetadataURI(
     JSON.stringify(pluginSetupParams.METADATA.release),
-    false,
-  )}`;
-  const buildMetadataURI = `ipfs://${await uploadToIPFS(
+    network.name,
+  );
+  const buildMetadataURI = await getMetadataURI(
     JSON.stringify(pluginSetupParams.METADATA.build),
-    false,
-  )}`;
+    network.name,
+  );
 
   console.log(`Uploaded release metadata: ${releaseMetadataURI}`);
   console.log(`Uploaded build metadata: ${buildMetadataURI}`);
@@ -69,8 +74,46 @@ async function publishPlugin(
   }
 
   // Check build number
-  const latestBuild =
+  let latestBuild =
     (await pluginRepo.buildCount(pluginSetupParams.VERSION.release)).toNumber();
+
+  // Publish the missing previous builds on local networks, see `10_setup`
+  if (isLocalNetwork(network.name)) {
+    for (
+      let previousBuild = latestBuild + 1;
+      previousBuild < pluginSetupParams.VERSION.build;
+      previousBuild++
+    ) {
+      const previousSetup = await deployments.get(
+        getPreviousBuildSetupName(
+          pluginSetupParams.PLUGIN_SETUP_CONTRACT_NAME,
+          previousBuild,
+        ),
+      );
+      const previousBuildMetadata =
+        pluginSetupParams.METADATA.previousBuilds[previousBuild];
+      if (!previousBuildMetadata) {
+        throw new Error(
+          `The metadata of the frozen build ${previousBuild} cannot be found`,
+        );
+      }
+      const previousBuildMetadataURI = await getMetadataURI(
+        JSON.stringify(previousBuildMetadata),
+        network.name,
+      );
+      await (await pluginRepo.createVersion(
+        pluginSetupParams.VERSION.release,
+        previousSetup.address,
+        toHex(previousBuildMetadataURI),
+        toHex(releaseMetadataURI),
+      )).wait();
+
+      console.log(
+        `Published the frozen build ${previousBuild} setup at ${previousSetup.address}`,
+      );
+      latestBuild = previousBuild;
+    }
+  }
   if (pluginSetupParams.VERSION.build <= latestBuild) {
     throw Error(
       `Publishing with build number ${pluginSetupParams.VERSION.build} is not possible. 
@@ -140,6 +183,14 @@ async function publishPlugin(
   );
 }
 
+// Local networks are offline, so the metadata is only referenced by its hash there
+async function getMetadataURI(content: string, networkName: string) {
+  if (isLocalNetwork(networkName)) {
+    return `ipfs://${ethers.utils.id(content).slice(2)}`;
+  }
+  return `ipfs://${await uploadToIPFS(content, false)}`;
+}
+
 export default func;
 func.tags = [
   OptimisticTokenVotingPluginSetupParams.PLUGIN_SETUP_CONTRACT_NAME,
@@ -16,10 +16,6 @@ import "solidity-coverage";
 const dotenvConfigPath: string = process.env.DOTENV_CONFIG_PATH || "../../.env";
 dotenvConfig({ path: resolve(__dirname, dotenvConfigPath) });
 
-if (!process.env.INFURA_API_KEY) {
-  throw new Error("INFURA_API_KEY in .env not set");
-}
-
 const apiUrls: NetworkNameMapping = {
   mainnet: "https://mainnet.infura.io/v3/",
   goerli: "https://goerli.infura.io/v3/",
@@ -31,11 +27,6 @@ const apiUrls: NetworkNameMapping = {
 export const networks: { [index: string]: NetworkUserConfig } = {
   hardhat: {
     chainId: 31337,
-    forking: {
-      url: `${
-        apiUrls[process.env.NETWORK_NAME ? process.env.NETWORK_NAME : "mainnet"]
-      }${process.env.INFURA_API_KEY}`,
-    },
   },
   mainnet: {
     chainId: 1,
@@ -1,17 +1,21 @@
 import pluginBuildMetadata from "./src/optimistic-token-voting-build-metadata.json";
 import pluginReleaseMetadata from "./src/optimistic-token-voting-release-metadata.json";
+import pluginBuild1Metadata from "./src/legacy/optimistic-token-voting-build-metadata-build1.json";
 
 export const OptimisticTokenVotingPluginSetupParams: PluginSetupParams = {
   PLUGIN_REPO_ENS_NAME: "optimistic-token-voting",
-  PLUGIN_CONTRACT_NAME: "OptimisticTokenVoting",
-  PLUGIN_SETUP_CONTRACT_NAME: "OptimisticTokenVotingSetup",
+  PLUGIN_CONTRACT_NAME: "OptimisticTokenVotingPlugin",
+  PLUGIN_SETUP_CONTRACT_NAME: "OptimisticTokenVotingPluginSetup",
   VERSION: {
     release: 1, // Increment this number ONLY if breaking/incompatible changes were made. Updates between releases are NOT possible.
-    build: 1, // Increment this number if non-breaking/compatible changes were made. Updates to newer builds are possible.
+    build: 2, // Increment this number if non-breaking/compatible changes were made. Updates to newer builds are possible.
   },
   METADATA: {
     build: pluginBuildMetadata,
     release: pluginReleaseMetadata,
+    previousBuilds: {
+      1: pluginBuild1Metadata,
+    },
   },
 };
 
@@ -28,5 +32,7 @@ export type PluginSetupParams = {
   METADATA: {
     build: { [k: string]: any };
     release: { [k: string]: any };
+    // The metadata of the previous builds, published with their frozen copies on local networks
+    previousBuilds: { [build: number]: { [k: string]: any } };
   };
 };
@@ -0,0 +1,16 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+
+pragma solidity ^0.8.8;
+
+/// @title IERC6372
+/// @notice The interface of the [ERC-6372](https://eips.ethereum.org/EIPS/eip-6372) contract clock, which the voting tokens use to describe their checkpoints.
+interface IERC6372 {
+    /// @notice Returns the current timepoint of the clock, either a block number or a timestamp.
+    /// @return The current timepoint.
+    function clock() external view returns (uint48);
+
+    /// @notice Returns a machine-readable description of the clock, like `mode=blocknumber&from=default` or `mode=timestamp`.
+    /// @return The clock mode.
+    // solhint-disable-next-line func-name-mixedcase
+    function CLOCK_MODE() external view returns (string memory);
+}
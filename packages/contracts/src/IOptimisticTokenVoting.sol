@@ -14,10 +14,10 @@ interface IOptimisticTokenVoting {
     /// @return The token used for voting.
     function getVotingToken() external view returns (IVotesUpgradeable);
 
-    /// @notice Returns the total voting power checkpointed for a specific block number.
-    /// @param _blockNumber The block number.
+    /// @notice Returns the total voting power checkpointed for a specific timepoint, being a block number or a timestamp depending on the clock of the voting token.
+    /// @param _timepoint The block number or timestamp.
     /// @return The total voting power.
-    function totalVotingPower(uint256 _blockNumber) external view returns (uint256);
+    function totalVotingPower(uint256 _timepoint) external view returns (uint256);
 
     /// @notice Returns the veto ratio parameter stored in the optimistic governance settings.
     /// @return The veto ratio parameter.
@@ -27,6 +27,21 @@ interface IOptimisticTokenVoting {
     /// @return The minimum duration parameter.
     function minDuration() external view returns (uint64);
 
+    /// @notice Returns the minimum duration of the proposals with an action calling the given function of the given contract.
+    /// @param _target The address of the contract called by the action.
+    /// @param _selector The selector of the function called by the action.
+    /// @return The minimum duration in seconds, or 0 if there is no override for this action.
+    function actionDuration(address _target, bytes4 _selector) external view returns (uint64);
+
+    /// @notice Returns the minimum duration of a proposal with the given actions, which is the longest of `minDuration` and the durations of its actions.
+    /// @param _actions The actions of the proposal.
+    /// @return The minimum duration in seconds.
+    function effectiveMinDuration(IDAO.Action[] calldata _actions) external view returns (uint64);
+
+    /// @notice Returns the time after the end date during which a proposal can be executed, stored in the vetoing settings.
+    /// @return The execution window parameter.
+    function executionWindow() external view returns (uint64);
+
     /// @notice Returns the minimum vetoing power required to create a proposal stored in the vetoing settings.
     /// @return The minimum vetoing power required to create a proposal.
     function minProposerVotingPower() external view returns (uint256);
@@ -49,7 +64,9 @@ interface IOptimisticTokenVoting {
     /// @notice Checks if an account can participate on an optimistic proposal. This can be because the proposal
     /// - has not started,
     /// - has ended,
-    /// - was executed, or
+    /// - was executed,
+    /// - was cancelled,
+    /// - was defeated already, or
     /// - the voter doesn't have voting power.
     /// @param _proposalId The proposal Id.
     /// @param _account The account address to be checked.
@@ -57,10 +74,36 @@ interface IOptimisticTokenVoting {
     /// @dev The function assumes that the queried proposal exists.
     function canVeto(uint256 _proposalId, address _account) external view returns (bool);
 
-    /// @notice Registers the veto for the given proposal.
+    /// @notice Registers the veto for the given proposal. The veto that makes the proposal reach the minimum veto voting power defeats it immediately.
     /// @param _proposalId The ID of the proposal.
     function veto(uint256 _proposalId) external;
 
+    /// @notice Registers the veto for the given proposal along with the reason given by the voter.
+    /// @param _proposalId The ID of the proposal.
+    /// @param _reason The reason of the veto, stored on-chain in the emitted event only.
+    function vetoWithReason(uint256 _proposalId, string calldata _reason) external;
+
+    /// @notice Registers the veto for each of the given proposals. The proposals that the sender cannot veto are skipped instead of reverting.
+    /// @param _proposalIds The IDs of the proposals.
+    function vetoMany(uint256[] calldata _proposalIds) external;
+
+    /// @notice Registers the veto of a voter who signed it off-chain, so that anyone can submit it on their behalf.
+    /// @param _proposalId The ID of the proposal.
+    /// @param _voter The voter casting the veto.
+    /// @param _deadline The timestamp after which the signature can no longer be used.
+    /// @param _signature The [EIP-712](https://eips.ethereum.org/EIPS/eip-712) signature of the veto, including the voter's current nonce.
+    function vetoBySig(
+        uint256 _proposalId,
+        address _voter,
+        uint256 _deadline,
+        bytes calldata _signature
+    ) external;
+
+    /// @notice Returns the nonce that the next signed veto of a voter has to use.
+    /// @param _voter The address of the voter.
+    /// @return The current nonce of the voter.
+    function vetoNonce(address _voter) external view returns (uint256);
+
     /// @notice Returns whether the account has voted for the proposal.  Note, that this does not check if the account has vetoing power.
     /// @param _proposalId The ID of the proposal.
     /// @param _account The account address to be checked.
@@ -80,4 +123,21 @@ interface IOptimisticTokenVoting {
     /// @notice Executes a proposal.
     /// @param _proposalId The ID of the proposal to be executed.
     function execute(uint256 _proposalId) external;
+
+    /// @notice Settles the bond of a proposal. It is returned to its creator once the proposal is executed, expired or cancelled before anyone vetoed it, and sent to the treasury once the proposal is defeated or cancelled after it was vetoed.
+    /// @param _proposalId The ID of the proposal.
+    function settleProposalBond(uint256 _proposalId) external;
+
+    /// @notice Cancels a proposal, so that it can neither be vetoed nor executed anymore. Only the creator of the proposal or an account with the cancellation permission can cancel it, as long as it has not ended and was not defeated. The bond of a proposal cancelled after it was vetoed is slashed.
+    /// @param _proposalId The ID of the proposal to be cancelled.
+    function cancel(uint256 _proposalId) external;
+
+    /// @notice Defeats an open proposal right away, whatever its veto tally. Only the accounts with the emergency veto permission, like a security council, can call it. The bond of the proposal is slashed like the bond of a proposal defeated by vetoes, even if no token holder vetoed it.
+    /// @param _proposalId The ID of the proposal to be defeated.
+    function emergencyVeto(uint256 _proposalId) external;
+
+    /// @notice Updates the metadata of a proposal, for example to fix its description. Only the creator of the proposal can update it, as long as it has not started and was not cancelled.
+    /// @param _proposalId The ID of the proposal.
+    /// @param _metadata The new metadata of the proposal.
+    function updateProposalMetadata(uint256 _proposalId, bytes calldata _metadata) external;
 }
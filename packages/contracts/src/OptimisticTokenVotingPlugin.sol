@@ -4,11 +4,15 @@ pragma solidity ^0.8.8;
 
 import {ERC165Upgradeable} from "@openzeppelin/contracts-upgradeable/utils/introspection/ERC165Upgradeable.sol";
 import {IERC20Upgradeable} from "@openzeppelin/contracts-upgradeable/token/ERC20/IERC20Upgradeable.sol";
+import {SafeERC20Upgradeable} from "@openzeppelin/contracts-upgradeable/token/ERC20/utils/SafeERC20Upgradeable.sol";
 import {Initializable} from "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
 import {SafeCastUpgradeable} from "@openzeppelin/contracts-upgradeable/utils/math/SafeCastUpgradeable.sol";
 import {IVotesUpgradeable} from "@openzeppelin/contracts-upgradeable/governance/utils/IVotesUpgradeable.sol";
+import {ECDSAUpgradeable} from "@openzeppelin/contracts-upgradeable/utils/cryptography/ECDSAUpgradeable.sol";
+import {SignatureCheckerUpgradeable} from "@openzeppelin/contracts-upgradeable/utils/cryptography/SignatureCheckerUpgradeable.sol";
 import {IMembership} from "@aragon/osx/core/plugin/membership/IMembership.sol";
 import {IOptimisticTokenVoting} from "./IOptimisticTokenVoting.sol";
+import {IERC6372} from "./IERC6372.sol";
 
 import {ProposalUpgradeable} from "@aragon/osx/core/plugin/proposal/ProposalUpgradeable.sol";
 import {PluginUUPSUpgradeable} from "@aragon/osx/core/plugin/PluginUUPSUpgradeable.sol";
@@ -24,48 +28,85 @@ import {RATIO_BASE, RatioOutOfBounds} from "@aragon/osx/plugins/utils/Ratio.sol"
 contract OptimisticTokenVotingPlugin is
     IOptimisticTokenVoting,
     IMembership,
+    IERC6372,
     Initializable,
     ERC165Upgradeable,
     PluginUUPSUpgradeable,
     ProposalUpgradeable
 {
     using SafeCastUpgradeable for uint256;
+    using SafeERC20Upgradeable for IERC20Upgradeable;
 
     /// @notice A container for the optimistic majority settings that will be applied as parameters on proposal creation.
     /// @param minVetoRatio The support threshold value. Its value has to be in the interval [0, 10^6] defined by `RATIO_BASE = 10**6`.
     /// @param minDuration The minimum duration of the proposal vote in seconds.
+    /// @param executionWindow The time in seconds after the end date during which a proposal can still be executed.
     /// @param minProposerVotingPower The minimum vetoing power required to create a proposal.
     struct OptimisticGovernanceSettings {
         uint32 minVetoRatio;
         uint64 minDuration;
+        uint64 executionWindow;
         uint256 minProposerVotingPower;
     }
 
     /// @notice A container for proposal-related information.
     /// @param executed Whether the proposal is executed or not.
+    /// @param cancelled Whether the proposal is cancelled or not.
+    /// @param creator The address that created the proposal.
     /// @param parameters The proposal parameters at the time of the proposal creation.
     /// @param vetoTally The amount of voting power used to veto the proposal.
     /// @param vetoVoters The voters who have vetoed.
     /// @param actions The actions to be executed when the proposal passes.
     /// @param allowFailureMap A bitmap allowing the proposal to succeed, even if individual actions might revert. If the bit at index `i` is 1, the proposal succeeds even if the `i`th action reverts. A failure map value of 0 requires every action to not revert.
+    /// @param bond The bond pulled from the creator, following the bond settings at the time of the proposal creation.
+    /// @param bondSettled Whether the bond was refunded or slashed already.
+    /// @param emergencyVetoed Whether the proposal was defeated by an emergency veto.
     struct Proposal {
         bool executed;
+        bool cancelled;
+        address creator;
         ProposalParameters parameters;
         uint256 vetoTally;
         mapping(address => bool) vetoVoters;
         IDAO.Action[] actions;
         uint256 allowFailureMap;
+        ProposalBondSettings bond;
+        bool bondSettled;
+        bool emergencyVetoed;
+    }
+
+    /// @notice A container for the bond that proposal creators have to deposit.
+    /// @param token The [ERC-20](https://eips.ethereum.org/EIPS/eip-20) token of the bond.
+    /// @param amount The amount of tokens pulled from the creator of a proposal. If 0, no bond is required.
+    /// @param treasury The recipient of the bonds of the proposals defeated by veto, usually the DAO.
+    struct ProposalBondSettings {
+        IERC20Upgradeable token;
+        uint256 amount;
+        address treasury;
+    }
+
+    /// @notice The clocks that the voting token can use for its checkpoints, as described by [ERC-6372](https://eips.ethereum.org/EIPS/eip-6372).
+    /// @param BlockNumber The checkpoints are indexed by block number.
+    /// @param Timestamp The checkpoints are indexed by timestamp.
+    enum ClockMode {
+        BlockNumber,
+        Timestamp
     }
 
     /// @notice A container for the proposal parameters at the time of proposal creation.
     /// @param startDate The start date of the proposal vote.
     /// @param endDate The end date of the proposal vote.
-    /// @param snapshotBlock The number of the block prior to the proposal creation.
+    /// @param snapshotTimepoint The timepoint prior to the proposal creation, being a block number or a timestamp depending on `clockMode`.
+    /// @param clockMode The clock of the voting token at the time of the proposal creation.
+    /// @param expirationDate The date after which the proposal can no longer be executed.
     /// @param minVetoVotingPower The minimum voting power needed to defeat the proposal.
+    /// @dev `snapshotTimepoint` and `clockMode` share the 64 bits of the `snapshotBlock` of the previous builds, so that their proposals keep using block numbers.
     struct ProposalParameters {
         uint64 startDate;
         uint64 endDate;
-        uint64 snapshotBlock;
+        uint56 snapshotTimepoint;
+        ClockMode clockMode;
+        uint64 expirationDate;
         uint256 minVetoVotingPower;
     }
 
@@ -76,6 +117,28 @@ contract OptimisticTokenVotingPlugin is
     bytes32 public constant UPDATE_OPTIMISTIC_GOVERNANCE_SETTINGS_PERMISSION_ID =
         keccak256("UPDATE_OPTIMISTIC_GOVERNANCE_SETTINGS_PERMISSION");
 
+    /// @notice The ID of the permission required to cancel a proposal created by another account.
+    bytes32 public constant CANCEL_PROPOSAL_PERMISSION_ID = keccak256("CANCEL_PROPOSAL_PERMISSION");
+
+    /// @notice The ID of the permission required to call the `emergencyVeto` function.
+    bytes32 public constant EMERGENCY_VETO_PERMISSION_ID = keccak256("EMERGENCY_VETO_PERMISSION");
+
+    /// @notice The [EIP-712](https://eips.ethereum.org/EIPS/eip-712) type hash of a veto signed by a voter.
+    bytes32 public constant VETO_TYPEHASH =
+        keccak256("Veto(uint256 proposalId,address voter,uint256 nonce,uint256 deadline)");
+
+    /// @notice The [EIP-712](https://eips.ethereum.org/EIPS/eip-712) type hash of the signing domain.
+    bytes32 private constant DOMAIN_TYPEHASH =
+        keccak256(
+            "EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)"
+        );
+
+    /// @notice The name of the [EIP-712](https://eips.ethereum.org/EIPS/eip-712) signing domain.
+    string public constant EIP712_NAME = "OptimisticTokenVotingPlugin";
+
+    /// @notice The version of the [EIP-712](https://eips.ethereum.org/EIPS/eip-712) signing domain.
+    string public constant EIP712_VERSION = "1";
+
     /// @notice The [ERC-165](https://eips.ethereum.org/EIPS/eip-165) interface ID of the contract.
     bytes4 internal constant OPTIMISTIC_GOVERNANCE_INTERFACE_ID =
         this.initialize.selector ^
@@ -91,22 +154,86 @@ contract OptimisticTokenVotingPlugin is
     /// @notice A mapping between proposal IDs and proposal information.
     mapping(uint256 => Proposal) internal proposals;
 
+    /// @notice A mapping between voters and the nonce their next signed veto has to use.
+    mapping(address => uint256) internal vetoNonces;
+
+    /// @notice A mapping between the target contracts and function selectors of actions and the minimum duration of the proposals including them.
+    mapping(address => mapping(bytes4 => uint64)) internal actionDurations;
+
+    /// @notice The struct storing the proposal bond settings. It is kept apart from the governance settings, so that the storage layout of previous builds is preserved.
+    ProposalBondSettings private bondSettings;
+
     /// @notice Emitted when the vetoing settings are updated.
     /// @param minVetoRatio The support threshold value.
     /// @param minDuration The minimum duration of the proposal vote in seconds.
+    /// @param executionWindow The time in seconds after the end date during which a proposal can still be executed.
     /// @param minProposerVotingPower The minimum vetoing power required to create a proposal.
     event OptimisticGovernanceSettingsUpdated(
         uint32 minVetoRatio,
         uint64 minDuration,
+        uint64 executionWindow,
         uint256 minProposerVotingPower
     );
 
+    /// @notice Emitted when the minimum duration of the proposals including an action is updated.
+    /// @param target The address of the contract called by the action.
+    /// @param selector The selector of the function called by the action.
+    /// @param duration The minimum duration in seconds, or 0 if the override was removed.
+    event ActionDurationUpdated(address indexed target, bytes4 indexed selector, uint64 duration);
+
+    /// @notice Emitted when the proposal bond settings are updated.
+    /// @param token The token of the bond.
+    /// @param amount The amount of tokens pulled from the creator of a proposal.
+    /// @param treasury The recipient of the bonds of the proposals defeated by veto.
+    event ProposalBondSettingsUpdated(IERC20Upgradeable token, uint256 amount, address treasury);
+
+    /// @notice Emitted when the bond of a proposal is returned to its creator.
+    /// @param proposalId The ID of the proposal.
+    /// @param creator The creator of the proposal.
+    /// @param amount The amount of tokens returned.
+    event ProposalBondRefunded(uint256 indexed proposalId, address indexed creator, uint256 amount);
+
+    /// @notice Emitted when the bond of a defeated proposal, or of a proposal cancelled after it was vetoed, is sent to the treasury.
+    /// @param proposalId The ID of the proposal.
+    /// @param treasury The recipient of the bond.
+    /// @param amount The amount of tokens sent.
+    event ProposalBondSlashed(uint256 indexed proposalId, address indexed treasury, uint256 amount);
+
     /// @notice Emitted when a veto is cast by a voter.
     /// @param proposalId The ID of the proposal.
     /// @param voter The voter casting the veto.
     /// @param votingPower The voting power behind this veto.
     event VetoCast(uint256 indexed proposalId, address indexed voter, uint256 votingPower);
 
+    /// @notice Emitted after `VetoCast` when the voter gives a reason for the veto.
+    /// @param proposalId The ID of the proposal.
+    /// @param voter The voter casting the veto.
+    /// @param reason The reason of the veto.
+    event VetoReason(uint256 indexed proposalId, address indexed voter, string reason);
+
+    /// @notice Emitted by `vetoMany` instead of `VetoCast` for a proposal that the voter cannot veto.
+    /// @param proposalId The ID of the proposal.
+    /// @param voter The voter whose veto was skipped.
+    event VetoSkipped(uint256 indexed proposalId, address indexed voter);
+
+    /// @notice Emitted when a proposal is cancelled.
+    /// @param proposalId The ID of the proposal.
+    event ProposalCancelled(uint256 indexed proposalId);
+
+    /// @notice Emitted when the metadata of a proposal is updated.
+    /// @param proposalId The ID of the proposal.
+    /// @param metadata The new metadata of the proposal.
+    event ProposalMetadataUpdated(uint256 indexed proposalId, bytes metadata);
+
+    /// @notice Emitted when the vetoes cast on a proposal reach the minimum veto voting power, which defeats it immediately.
+    /// @param proposalId The ID of the proposal.
+    event ProposalDefeated(uint256 indexed proposalId);
+
+    /// @notice Emitted when a proposal is defeated by an emergency veto, regardless of its veto tally.
+    /// @param proposalId The ID of the proposal.
+    /// @param guardian The account holding the emergency veto permission.
+    event EmergencyVeto(uint256 indexed proposalId, address indexed guardian);
+
     /// @notice Thrown if a date is out of bounds.
     /// @param limit The limit value.
     /// @param actual The actual value.
@@ -117,6 +244,16 @@ contract OptimisticTokenVotingPlugin is
     /// @param actual The actual value.
     error MinDurationOutOfBounds(uint64 limit, uint64 actual);
 
+    /// @notice Thrown if the duration of an action is out of bounds (greater than 1 year).
+    /// @param limit The limit value.
+    /// @param actual The actual value.
+    error ActionDurationOutOfBounds(uint64 limit, uint64 actual);
+
+    /// @notice Thrown if the execution window value is out of bounds (less than one day or greater than 1 year).
+    /// @param limit The limit value.
+    /// @param actual The actual value.
+    error ExecutionWindowOutOfBounds(uint64 limit, uint64 actual);
+
     /// @notice Thrown when a sender is not allowed to create a proposal.
     /// @param sender The sender address.
     error ProposalCreationForbidden(address sender);
@@ -124,7 +261,9 @@ contract OptimisticTokenVotingPlugin is
     /// @notice Thrown if an account is not allowed to cast a veto. This can be because the challenge period
     /// - has not started,
     /// - has ended,
-    /// - was executed, or
+    /// - was executed,
+    /// - was cancelled,
+    /// - was defeated already, or
     /// - the account doesn't have vetoing powers.
     /// @param proposalId The ID of the proposal.
     /// @param account The address of the _account.
@@ -134,27 +273,81 @@ contract OptimisticTokenVotingPlugin is
     /// @param proposalId The ID of the proposal.
     error ProposalExecutionForbidden(uint256 proposalId);
 
+    /// @notice Thrown if an account is not allowed to cancel a proposal. This can be because the proposal
+    /// - has ended,
+    /// - was executed,
+    /// - was cancelled already,
+    /// - was defeated, or
+    /// - the account is neither the creator nor has the `CANCEL_PROPOSAL_PERMISSION_ID` permission.
+    /// @param proposalId The ID of the proposal.
+    /// @param account The address of the account.
+    error ProposalCancellationForbidden(uint256 proposalId, address account);
+
+    /// @notice Thrown if a proposal does not exist.
+    /// @param proposalId The ID of the proposal.
+    error NonexistentProposal(uint256 proposalId);
+
+    /// @notice Thrown if the metadata of a proposal cannot be updated. This can be because
+    /// - the proposal has started already or was cancelled, or
+    /// - the account is not the creator of the proposal.
+    /// @param proposalId The ID of the proposal.
+    /// @param account The address of the account.
+    error ProposalMetadataUpdateForbidden(uint256 proposalId, address account);
+
+    /// @notice Thrown if a signed veto is submitted after its deadline.
+    /// @param deadline The deadline of the signature.
+    error VetoSignatureExpired(uint256 deadline);
+
+    /// @notice Thrown if a signed veto was not signed by the voter or uses another nonce than the voter's current one.
+    /// @param voter The address of the voter.
+    error InvalidVetoSignature(address voter);
+
+    /// @notice Thrown if a bond is required without a token or a treasury to send the slashed bonds to.
+    error InvalidProposalBondSettings();
+
+    /// @notice Thrown if the bond of a proposal cannot be settled. This can be because the proposal
+    /// - has no bond or it was settled already, or
+    /// - was neither executed, defeated, cancelled nor expired.
+    /// @param proposalId The ID of the proposal.
+    error ProposalBondSettlementForbidden(uint256 proposalId);
+
     /// @notice Thrown if the voting power is zero
     error NoVotingPower();
 
     /// @notice Initializes the component to be used by inheriting contracts.
-    /// @dev This method is required to support [ERC-1822](https://eips.ethereum.org/EIPS/eip-1822).
+    /// @dev This method is required to support [ERC-1822](https://eips.ethereum.org/EIPS/eip-1822). It initializes to the version of the current build, so that `initializeFrom` cannot be called afterwards.
     /// @param _dao The IDAO interface of the associated DAO.
     /// @param _governanceSettings The vetoing settings.
     /// @param _token The [ERC-20](https://eips.ethereum.org/EIPS/eip-20) token used for voting.
+    /// @param _bondSettings The bond that proposal creators have to deposit.
     function initialize(
         IDAO _dao,
         OptimisticGovernanceSettings calldata _governanceSettings,
-        IVotesUpgradeable _token
-    ) external initializer {
+        IVotesUpgradeable _token,
+        ProposalBondSettings calldata _bondSettings
+    ) external reinitializer(2) {
         __PluginUUPSUpgradeable_init(_dao);
 
         votingToken = _token;
 
         _updateOptimisticGovernanceSettings(_governanceSettings);
+        _updateProposalBondSettings(_bondSettings);
         emit MembershipContractAnnounced({definingContract: address(_token)});
     }
 
+    /// @notice Reinitializes the plugin after an update from a previous build.
+    /// @dev This method is called by the `PluginSetupProcessor` through `upgradeToAndCall` when the update is applied.
+    /// @param _fromBuild The build number of the plugin to update from.
+    /// @param _initData The ABI-encoded settings introduced since `_fromBuild`. When updating from build 1, this is the `uint64` execution window.
+    function initializeFrom(uint16 _fromBuild, bytes calldata _initData) external reinitializer(2) {
+        if (_fromBuild < 2) {
+            OptimisticGovernanceSettings memory governanceSettings_ = governanceSettings;
+            governanceSettings_.executionWindow = abi.decode(_initData, (uint64));
+
+            _updateOptimisticGovernanceSettings(governanceSettings_);
+        }
+    }
+
     /// @notice Checks if this or the parent contract supports an interface by its ID.
     /// @param _interfaceId The ID of the interface.
     /// @return Returns `true` if the interface is supported.
@@ -180,16 +373,31 @@ contract OptimisticTokenVotingPlugin is
     }
 
     /// @inheritdoc IOptimisticTokenVoting
-    function totalVotingPower(uint256 _blockNumber) public view returns (uint256) {
-        return votingToken.getPastTotalSupply(_blockNumber);
+    function totalVotingPower(uint256 _timepoint) public view returns (uint256) {
+        return votingToken.getPastTotalSupply(_timepoint);
+    }
+
+    /// @inheritdoc IERC6372
+    function clock() public view virtual returns (uint48) {
+        return
+            _clockMode() == ClockMode.Timestamp
+                ? block.timestamp.toUint48()
+                : block.number.toUint48();
+    }
+
+    /// @inheritdoc IERC6372
+    // solhint-disable-next-line func-name-mixedcase
+    function CLOCK_MODE() public view virtual returns (string memory) {
+        return
+            _clockMode() == ClockMode.Timestamp
+                ? "mode=timestamp"
+                : "mode=blocknumber&from=default";
     }
 
     /// @inheritdoc IMembership
     function isMember(address _account) external view returns (bool) {
         // A member must own at least one token or have at least one token delegated to her/him.
-        return
-            votingToken.getVotes(_account) > 0 ||
-            IERC20Upgradeable(address(votingToken)).balanceOf(_account) > 0;
+        return votingToken.getVotes(_account) > 0 || _balanceOf(_account) > 0;
     }
 
     /// @inheritdoc IOptimisticTokenVoting
@@ -212,7 +420,7 @@ contract OptimisticTokenVotingPlugin is
         }
 
         // The voter has no voting power.
-        if (votingToken.getPastVotes(_voter, proposal_.parameters.snapshotBlock) == 0) {
+        if (votingToken.getPastVotes(_voter, proposal_.parameters.snapshotTimepoint) == 0) {
             return false;
         }
 
@@ -227,12 +435,20 @@ contract OptimisticTokenVotingPlugin is
         if (proposal_.executed) {
             return false;
         }
+        // Verify that the proposal has not been cancelled
+        else if (proposal_.cancelled) {
+            return false;
+        }
+        // Check that not enough voters have vetoed the proposal and no guardian has defeated it
+        else if (_isProposalDefeated(proposal_)) {
+            return false;
+        }
         // Check that the proposal vetoing time frame already expired
         else if (!_isProposalEnded(proposal_)) {
             return false;
         }
-        // Check that not enough voters have vetoed the proposal
-        else if (isMinVetoRatioReached(_proposalId)) {
+        // Check that the execution window has not passed yet
+        else if (_isProposalExpired(proposal_)) {
             return false;
         }
 
@@ -256,6 +472,61 @@ contract OptimisticTokenVotingPlugin is
         return governanceSettings.minDuration;
     }
 
+    /// @inheritdoc IOptimisticTokenVoting
+    function actionDuration(
+        address _target,
+        bytes4 _selector
+    ) public view virtual returns (uint64) {
+        return actionDurations[_target][_selector];
+    }
+
+    /// @inheritdoc IOptimisticTokenVoting
+    function effectiveMinDuration(
+        IDAO.Action[] calldata _actions
+    ) public view virtual returns (uint64 duration) {
+        duration = governanceSettings.minDuration;
+
+        for (uint256 i; i < _actions.length; ) {
+            // Actions without a function call, like plain transfers, cannot have an override
+            if (_actions[i].data.length >= 4) {
+                uint64 actionDuration_ = actionDurations[_actions[i].to][
+                    bytes4(_actions[i].data[:4])
+                ];
+                if (actionDuration_ > duration) {
+                    duration = actionDuration_;
+                }
+            }
+
+            unchecked {
+                ++i;
+            }
+        }
+    }
+
+    /// @inheritdoc IOptimisticTokenVoting
+    function executionWindow() public view virtual returns (uint64) {
+        return governanceSettings.executionWindow;
+    }
+
+    /// @notice Returns the bond that proposal creators currently have to deposit.
+    /// @return The proposal bond settings.
+    function proposalBondSettings() public view virtual returns (ProposalBondSettings memory) {
+        return bondSettings;
+    }
+
+    /// @notice Returns the bond deposited by the creator of a proposal.
+    /// @param _proposalId The ID of the proposal.
+    /// @return bond The bond of the proposal. Its amount is 0 if no bond was required.
+    /// @return settled Whether the bond was refunded or slashed already.
+    function getProposalBond(
+        uint256 _proposalId
+    ) public view virtual returns (ProposalBondSettings memory bond, bool settled) {
+        Proposal storage proposal_ = proposals[_proposalId];
+
+        bond = proposal_.bond;
+        settled = proposal_.bondSettled;
+    }
+
     /// @inheritdoc IOptimisticTokenVoting
     function minProposerVotingPower() public view virtual returns (uint256) {
         return governanceSettings.minProposerVotingPower;
@@ -265,6 +536,8 @@ contract OptimisticTokenVotingPlugin is
     /// @param _proposalId The ID of the proposal.
     /// @return open Whether the proposal is open or not.
     /// @return executed Whether the proposal is executed or not.
+    /// @return cancelled Whether the proposal is cancelled or not.
+    /// @return emergencyVetoed Whether the proposal was defeated by an emergency veto or not.
     /// @return parameters The parameters of the proposal vote.
     /// @return vetoTally The current voting power used to veto the proposal.
     /// @return actions The actions to be executed in the associated DAO after the proposal has passed.
@@ -278,6 +551,8 @@ contract OptimisticTokenVotingPlugin is
         returns (
             bool open,
             bool executed,
+            bool cancelled,
+            bool emergencyVetoed,
             ProposalParameters memory parameters,
             uint256 vetoTally,
             IDAO.Action[] memory actions,
@@ -288,7 +563,10 @@ contract OptimisticTokenVotingPlugin is
 
         open = _isProposalOpen(proposal_);
         executed = proposal_.executed;
+        cancelled = proposal_.cancelled;
+        emergencyVetoed = proposal_.emergencyVetoed;
         parameters = proposal_.parameters;
+        parameters.expirationDate = _expirationDate(proposal_);
         vetoTally = proposal_.vetoTally;
         actions = proposal_.actions;
         allowFailureMap = proposal_.allowFailureMap;
@@ -307,29 +585,32 @@ contract OptimisticTokenVotingPlugin is
             uint256 minProposerVotingPower_ = minProposerVotingPower();
 
             if (minProposerVotingPower_ != 0) {
-                // Because of the checks in `OptimisticTokenVotingSetup`, we can assume that `votingToken` is an [ERC-20](https://eips.ethereum.org/EIPS/eip-20) token.
+                // Because of the checks in `OptimisticTokenVotingSetup`, we can assume that `votingToken` is an [ERC-20](https://eips.ethereum.org/EIPS/eip-20) token or an [ERC-721](https://eips.ethereum.org/EIPS/eip-721) NFT.
                 if (
                     votingToken.getVotes(_msgSender()) < minProposerVotingPower_ &&
-                    IERC20Upgradeable(address(votingToken)).balanceOf(_msgSender()) <
-                    minProposerVotingPower_
+                    _balanceOf(_msgSender()) < minProposerVotingPower_
                 ) {
                     revert ProposalCreationForbidden(_msgSender());
                 }
             }
         }
 
-        uint256 snapshotBlock;
+        ClockMode clockMode = _clockMode();
+        uint256 snapshotTimepoint;
         unchecked {
-            snapshotBlock = block.number - 1; // The snapshot block must be mined already to protect the transaction against backrunning transactions causing census changes.
+            // The snapshot timepoint must be in the past already to protect the transaction against backrunning transactions causing census changes.
+            snapshotTimepoint = clockMode == ClockMode.Timestamp
+                ? block.timestamp - 1
+                : block.number - 1;
         }
 
-        uint256 totalVotingPower_ = totalVotingPower(snapshotBlock);
+        uint256 totalVotingPower_ = totalVotingPower(snapshotTimepoint);
 
         if (totalVotingPower_ == 0) {
             revert NoVotingPower();
         }
 
-        (_startDate, _endDate) = _validateProposalDates(_startDate, _endDate);
+        (_startDate, _endDate) = _validateProposalDates(_startDate, _endDate, _actions);
 
         proposalId = _createProposal({
             _creator: _msgSender(),
@@ -343,9 +624,12 @@ contract OptimisticTokenVotingPlugin is
         // Store proposal related information
         Proposal storage proposal_ = proposals[proposalId];
 
+        proposal_.creator = _msgSender();
         proposal_.parameters.startDate = _startDate;
         proposal_.parameters.endDate = _endDate;
-        proposal_.parameters.snapshotBlock = snapshotBlock.toUint64();
+        proposal_.parameters.snapshotTimepoint = snapshotTimepoint.toUint56();
+        proposal_.parameters.clockMode = clockMode;
+        proposal_.parameters.expirationDate = _endDate + governanceSettings.executionWindow; // Since `executionWindow` is limited to 1 year, this can only overflow for end dates close to `type(uint64).max`, in which case the proposal creation reverts.
         proposal_.parameters.minVetoVotingPower = _applyRatioCeiled(
             totalVotingPower_,
             minVetoRatio()
@@ -362,28 +646,88 @@ contract OptimisticTokenVotingPlugin is
                 ++i;
             }
         }
+
+        // Pull the bond, which is settled once the proposal is executed, defeated, cancelled or expired
+        if (bondSettings.amount != 0) {
+            proposal_.bond = bondSettings;
+            bondSettings.token.safeTransferFrom(_msgSender(), address(this), bondSettings.amount);
+        }
     }
 
     /// @inheritdoc IOptimisticTokenVoting
     function veto(uint256 _proposalId) public virtual {
-        address _voter = _msgSender();
+        _veto(_proposalId, _msgSender());
+    }
 
-        if (!canVeto(_proposalId, _voter)) {
-            revert ProposalVetoingForbidden({proposalId: _proposalId, account: _voter});
+    /// @inheritdoc IOptimisticTokenVoting
+    function vetoWithReason(uint256 _proposalId, string calldata _reason) public virtual {
+        _veto(_proposalId, _msgSender());
+
+        emit VetoReason({proposalId: _proposalId, voter: _msgSender(), reason: _reason});
+    }
+
+    /// @inheritdoc IOptimisticTokenVoting
+    function vetoMany(uint256[] calldata _proposalIds) public virtual {
+        address voter = _msgSender();
+
+        for (uint256 i; i < _proposalIds.length; ) {
+            if (canVeto(_proposalIds[i], voter)) {
+                _veto(_proposalIds[i], voter);
+            } else {
+                emit VetoSkipped({proposalId: _proposalIds[i], voter: voter});
+            }
+
+            unchecked {
+                ++i;
+            }
         }
+    }
 
-        Proposal storage proposal_ = proposals[_proposalId];
+    /// @inheritdoc IOptimisticTokenVoting
+    function vetoBySig(
+        uint256 _proposalId,
+        address _voter,
+        uint256 _deadline,
+        bytes calldata _signature
+    ) public virtual {
+        if (block.timestamp > _deadline) {
+            revert VetoSignatureExpired({deadline: _deadline});
+        }
 
-        // This could re-enter, though we can assume the governance token is not malicious
-        uint256 votingPower = votingToken.getPastVotes(_voter, proposal_.parameters.snapshotBlock);
+        bytes32 digest = ECDSAUpgradeable.toTypedDataHash(
+            domainSeparator(),
+            keccak256(
+                abi.encode(VETO_TYPEHASH, _proposalId, _voter, vetoNonces[_voter]++, _deadline)
+            )
+        );
 
-        // Not checking if the voter already voted, since canVeto() above already did
+        // Also accepts the signatures of smart contract wallets implementing ERC-1271
+        if (!SignatureCheckerUpgradeable.isValidSignatureNow(_voter, digest, _signature)) {
+            revert InvalidVetoSignature({voter: _voter});
+        }
 
-        // Write the updated tally.
-        proposal_.vetoTally += votingPower;
-        proposal_.vetoVoters[_voter] = true;
+        _veto(_proposalId, _voter);
+    }
 
-        emit VetoCast({proposalId: _proposalId, voter: _voter, votingPower: votingPower});
+    /// @inheritdoc IOptimisticTokenVoting
+    function vetoNonce(address _voter) public view returns (uint256) {
+        return vetoNonces[_voter];
+    }
+
+    /// @notice Returns the [EIP-712](https://eips.ethereum.org/EIPS/eip-712) domain separator of the signed vetoes.
+    /// @dev It is computed on every call, so that it follows the chain ID and the proxy address.
+    /// @return The domain separator.
+    function domainSeparator() public view returns (bytes32) {
+        return
+            keccak256(
+                abi.encode(
+                    DOMAIN_TYPEHASH,
+                    keccak256(bytes(EIP712_NAME)),
+                    keccak256(bytes(EIP712_VERSION)),
+                    block.chainid,
+                    address(this)
+                )
+            );
     }
 
     /// @inheritdoc IOptimisticTokenVoting
@@ -402,6 +746,88 @@ contract OptimisticTokenVotingPlugin is
         );
     }
 
+    /// @inheritdoc IOptimisticTokenVoting
+    function settleProposalBond(uint256 _proposalId) public virtual {
+        Proposal storage proposal_ = proposals[_proposalId];
+
+        if (proposal_.bond.amount == 0 || proposal_.bondSettled) {
+            revert ProposalBondSettlementForbidden({proposalId: _proposalId});
+        }
+
+        // The bonds are paid out apart from the vetoes and the execution, so that a bond token refusing the transfer
+        // cannot keep a proposal from being defeated or executed. Cancelling a vetoed proposal must not spare its
+        // creator the slashing of a defeat. Vetoes can only be cast from the start date on, so the proposals cancelled
+        // before it keep their bond.
+        if (_isProposalDefeated(proposal_) || (proposal_.cancelled && proposal_.vetoTally > 0)) {
+            _slashProposalBond(_proposalId);
+        } else if (proposal_.executed || proposal_.cancelled || _isProposalExpired(proposal_)) {
+            _refundProposalBond(_proposalId);
+        } else {
+            revert ProposalBondSettlementForbidden({proposalId: _proposalId});
+        }
+    }
+
+    /// @inheritdoc IOptimisticTokenVoting
+    function cancel(uint256 _proposalId) public virtual {
+        address _account = _msgSender();
+        Proposal storage proposal_ = proposals[_proposalId];
+
+        // Proposals always get a start date, which is the creation date at the earliest
+        if (proposal_.parameters.startDate == 0) {
+            revert NonexistentProposal({proposalId: _proposalId});
+        }
+
+        if (
+            _isProposalEnded(proposal_) ||
+            proposal_.executed ||
+            proposal_.cancelled ||
+            _isProposalDefeated(proposal_) ||
+            (_account != proposal_.creator &&
+                !dao().hasPermission(
+                    address(this),
+                    _account,
+                    CANCEL_PROPOSAL_PERMISSION_ID,
+                    _msgData()
+                ))
+        ) {
+            revert ProposalCancellationForbidden({proposalId: _proposalId, account: _account});
+        }
+
+        proposal_.cancelled = true;
+
+        emit ProposalCancelled({proposalId: _proposalId});
+    }
+
+    /// @inheritdoc IOptimisticTokenVoting
+    function emergencyVeto(uint256 _proposalId) public virtual auth(EMERGENCY_VETO_PERMISSION_ID) {
+        Proposal storage proposal_ = proposals[_proposalId];
+
+        if (!_isProposalOpen(proposal_)) {
+            revert ProposalVetoingForbidden({proposalId: _proposalId, account: _msgSender()});
+        }
+
+        proposal_.emergencyVetoed = true;
+
+        emit EmergencyVeto({proposalId: _proposalId, guardian: _msgSender()});
+    }
+
+    /// @inheritdoc IOptimisticTokenVoting
+    function updateProposalMetadata(uint256 _proposalId, bytes calldata _metadata) public virtual {
+        address _account = _msgSender();
+        Proposal storage proposal_ = proposals[_proposalId];
+
+        // Unknown proposals have no creator
+        if (
+            _account != proposal_.creator ||
+            proposal_.cancelled ||
+            block.timestamp >= proposal_.parameters.startDate
+        ) {
+            revert ProposalMetadataUpdateForbidden({proposalId: _proposalId, account: _account});
+        }
+
+        emit ProposalMetadataUpdated({proposalId: _proposalId, metadata: _metadata});
+    }
+
     /// @notice Updates the governance settings.
     /// @param _governanceSettings The new governance settings.
     function updateOptimisticGovernanceSettings(
@@ -410,9 +836,36 @@ contract OptimisticTokenVotingPlugin is
         _updateOptimisticGovernanceSettings(_governanceSettings);
     }
 
+    /// @notice Sets the minimum duration of the proposals including an action that calls the given function of the given contract.
+    /// @dev The longest of `minDuration` and the durations of the actions of a proposal applies to it.
+    /// @param _target The address of the contract called by the action.
+    /// @param _selector The selector of the function called by the action.
+    /// @param _duration The minimum duration in seconds, or 0 to remove the override.
+    function setActionDuration(
+        address _target,
+        bytes4 _selector,
+        uint64 _duration
+    ) public virtual auth(UPDATE_OPTIMISTIC_GOVERNANCE_SETTINGS_PERMISSION_ID) {
+        if (_duration > 365 days) {
+            revert ActionDurationOutOfBounds({limit: 365 days, actual: _duration});
+        }
+
+        actionDurations[_target][_selector] = _duration;
+
+        emit ActionDurationUpdated({target: _target, selector: _selector, duration: _duration});
+    }
+
+    /// @notice Updates the bond that proposal creators have to deposit. It only applies to the proposals created afterwards.
+    /// @param _bondSettings The new proposal bond settings.
+    function updateProposalBondSettings(
+        ProposalBondSettings calldata _bondSettings
+    ) public virtual auth(UPDATE_OPTIMISTIC_GOVERNANCE_SETTINGS_PERMISSION_ID) {
+        _updateProposalBondSettings(_bondSettings);
+    }
+
     /// @notice Internal implementation
     function _updateOptimisticGovernanceSettings(
-        OptimisticGovernanceSettings calldata _governanceSettings
+        OptimisticGovernanceSettings memory _governanceSettings
     ) internal {
         // Require the minimum veto ratio value to be in the interval [0, 10^6], because `>=` comparision is used.
         if (_governanceSettings.minVetoRatio == 0) {
@@ -432,15 +885,114 @@ contract OptimisticTokenVotingPlugin is
             });
         }
 
+        if (_governanceSettings.executionWindow < 1 days) {
+            revert ExecutionWindowOutOfBounds({
+                limit: 1 days,
+                actual: _governanceSettings.executionWindow
+            });
+        }
+
+        if (_governanceSettings.executionWindow > 365 days) {
+            revert ExecutionWindowOutOfBounds({
+                limit: 365 days,
+                actual: _governanceSettings.executionWindow
+            });
+        }
+
         governanceSettings = _governanceSettings;
 
         emit OptimisticGovernanceSettingsUpdated({
             minVetoRatio: _governanceSettings.minVetoRatio,
             minDuration: _governanceSettings.minDuration,
+            executionWindow: _governanceSettings.executionWindow,
             minProposerVotingPower: _governanceSettings.minProposerVotingPower
         });
     }
 
+    /// @notice Internal implementation
+    function _updateProposalBondSettings(ProposalBondSettings memory _bondSettings) internal {
+        if (
+            _bondSettings.amount != 0 &&
+            (address(_bondSettings.token) == address(0) || _bondSettings.treasury == address(0))
+        ) {
+            revert InvalidProposalBondSettings();
+        }
+
+        bondSettings = _bondSettings;
+
+        emit ProposalBondSettingsUpdated({
+            token: _bondSettings.token,
+            amount: _bondSettings.amount,
+            treasury: _bondSettings.treasury
+        });
+    }
+
+    /// @notice Internal implementation of the veto, shared by the direct and the signed vetoes.
+    /// @param _proposalId The ID of the proposal.
+    /// @param _voter The voter casting the veto.
+    function _veto(uint256 _proposalId, address _voter) internal virtual {
+        if (!canVeto(_proposalId, _voter)) {
+            revert ProposalVetoingForbidden({proposalId: _proposalId, account: _voter});
+        }
+
+        Proposal storage proposal_ = proposals[_proposalId];
+
+        // This could re-enter, though we can assume the governance token is not malicious
+        uint256 votingPower = votingToken.getPastVotes(
+            _voter,
+            proposal_.parameters.snapshotTimepoint
+        );
+
+        // Not checking if the voter already voted, since canVeto() above already did
+
+        // Write the updated tally.
+        proposal_.vetoTally += votingPower;
+        proposal_.vetoVoters[_voter] = true;
+
+        emit VetoCast({proposalId: _proposalId, voter: _voter, votingPower: votingPower});
+
+        // The proposal was open, so this is the veto crossing the threshold
+        if (proposal_.vetoTally >= proposal_.parameters.minVetoVotingPower) {
+            emit ProposalDefeated({proposalId: _proposalId});
+        }
+    }
+
+    /// @notice Internal function to return the bond of a proposal to its creator, if it has one that was not settled yet.
+    /// @param _proposalId The ID of the proposal.
+    function _refundProposalBond(uint256 _proposalId) internal virtual {
+        Proposal storage proposal_ = proposals[_proposalId];
+        if (proposal_.bond.amount == 0 || proposal_.bondSettled) {
+            return;
+        }
+
+        proposal_.bondSettled = true;
+        proposal_.bond.token.safeTransfer(proposal_.creator, proposal_.bond.amount);
+
+        emit ProposalBondRefunded({
+            proposalId: _proposalId,
+            creator: proposal_.creator,
+            amount: proposal_.bond.amount
+        });
+    }
+
+    /// @notice Internal function to send the bond of a proposal to the treasury, if it has one that was not settled yet.
+    /// @param _proposalId The ID of the proposal.
+    function _slashProposalBond(uint256 _proposalId) internal virtual {
+        Proposal storage proposal_ = proposals[_proposalId];
+        if (proposal_.bond.amount == 0 || proposal_.bondSettled) {
+            return;
+        }
+
+        proposal_.bondSettled = true;
+        proposal_.bond.token.safeTransfer(proposal_.bond.treasury, proposal_.bond.amount);
+
+        emit ProposalBondSlashed({
+            proposalId: _proposalId,
+            treasury: proposal_.bond.treasury,
+            amount: proposal_.bond.amount
+        });
+    }
+
     /// @notice Internal function to check if a proposal vote is open.
     /// @param proposal_ The proposal struct.
     /// @return True if the proposal vote is open, false otherwise.
@@ -450,7 +1002,18 @@ contract OptimisticTokenVotingPlugin is
         return
             proposal_.parameters.startDate <= currentTime &&
             currentTime < proposal_.parameters.endDate &&
-            !proposal_.executed;
+            !proposal_.executed &&
+            !proposal_.cancelled &&
+            !_isProposalDefeated(proposal_);
+    }
+
+    /// @notice Internal function to check if a proposal was defeated, either by the vetoes reaching the minimum veto voting power or by an emergency veto.
+    /// @param proposal_ The proposal struct.
+    /// @return True if the proposal was defeated, false otherwise.
+    function _isProposalDefeated(Proposal storage proposal_) internal view virtual returns (bool) {
+        return
+            proposal_.emergencyVetoed ||
+            proposal_.vetoTally >= proposal_.parameters.minVetoVotingPower;
     }
 
     /// @notice Internal function to check if a proposal already ended.
@@ -462,14 +1025,56 @@ contract OptimisticTokenVotingPlugin is
         return currentTime >= proposal_.parameters.endDate;
     }
 
+    /// @notice Internal function to get the balance of an account in the voting token, being an amount of [ERC-20](https://eips.ethereum.org/EIPS/eip-20) tokens or a number of [ERC-721](https://eips.ethereum.org/EIPS/eip-721) NFTs.
+    /// @dev Both standards define `balanceOf(address)` with the same selector and return type.
+    /// @param _account The account.
+    /// @return The balance of the account.
+    function _balanceOf(address _account) internal view virtual returns (uint256) {
+        return IERC20Upgradeable(address(votingToken)).balanceOf(_account);
+    }
+
+    /// @notice Internal function to get the clock of the voting token. Tokens not implementing [ERC-6372](https://eips.ethereum.org/EIPS/eip-6372) use block numbers.
+    /// @return The clock mode of the voting token.
+    function _clockMode() internal view virtual returns (ClockMode) {
+        try IERC6372(address(votingToken)).CLOCK_MODE() returns (string memory mode) {
+            if (keccak256(bytes(mode)) == keccak256("mode=timestamp")) {
+                return ClockMode.Timestamp;
+            }
+        } catch {}
+
+        return ClockMode.BlockNumber;
+    }
+
+    /// @notice Internal function to check if the execution window of a proposal has passed.
+    /// @param proposal_ The proposal struct.
+    /// @return True if the proposal can no longer be executed, false otherwise.
+    function _isProposalExpired(Proposal storage proposal_) internal view virtual returns (bool) {
+        uint64 currentTime = block.timestamp.toUint64();
+
+        return currentTime >= _expirationDate(proposal_);
+    }
+
+    /// @notice Internal function to get the expiration date of a proposal.
+    /// @dev Proposals created with build 1 have no expiration date stored, so it is derived from the current execution window.
+    /// @param proposal_ The proposal struct.
+    /// @return The date from which the proposal can no longer be executed.
+    function _expirationDate(Proposal storage proposal_) internal view virtual returns (uint64) {
+        if (proposal_.parameters.expirationDate == 0) {
+            return proposal_.parameters.endDate + governanceSettings.executionWindow;
+        }
+        return proposal_.parameters.expirationDate;
+    }
+
     /// @notice Validates and returns the proposal vote dates.
     /// @param _start The start date of the proposal vote. If 0, the current timestamp is used and the vote starts immediately.
-    /// @param _end The end date of the proposal vote. If 0, `_start + minDuration` is used.
+    /// @param _end The end date of the proposal vote. If 0, `_start` plus the effective minimum duration of the actions is used.
+    /// @param _actions The actions of the proposal, which can require a longer duration than `minDuration`.
     /// @return startDate The validated start date of the proposal vote.
     /// @return endDate The validated end date of the proposal vote.
     function _validateProposalDates(
         uint64 _start,
-        uint64 _end
+        uint64 _end,
+        IDAO.Action[] calldata _actions
     ) internal view virtual returns (uint64 startDate, uint64 endDate) {
         uint64 currentTimestamp = block.timestamp.toUint64();
 
@@ -483,7 +1088,7 @@ contract OptimisticTokenVotingPlugin is
             }
         }
 
-        uint64 earliestEndDate = startDate + governanceSettings.minDuration; // Since `minDuration` is limited to 1 year, `startDate + minDuration` can only overflow if the `startDate` is after `type(uint64).max - minDuration`. In this case, the proposal creation will revert and another date can be picked.
+        uint64 earliestEndDate = startDate + effectiveMinDuration(_actions); // Since `minDuration` and the action durations are limited to 1 year, this can only overflow if the `startDate` is after `type(uint64).max - 365 days`. In this case, the proposal creation will revert and another date can be picked.
 
         if (_end == 0) {
             endDate = earliestEndDate;
@@ -497,5 +1102,5 @@ contract OptimisticTokenVotingPlugin is
     }
 
     /// @notice This empty reserved space is put in place to allow future versions to add new variables without shifting down storage in the inheritance chain (see [OpenZeppelin's guide about storage gaps](https://docs.openzeppelin.com/contracts/4.x/upgradeable#storage_gaps)).
-    uint256[50] private __gap;
+    uint256[45] private __gap;
 }
@@ -6,6 +6,7 @@ import {Clones} from "@openzeppelin/contracts/proxy/Clones.sol";
 import {Address} from "@openzeppelin/contracts/utils/Address.sol";
 import {ERC165Checker} from "@openzeppelin/contracts/utils/introspection/ERC165Checker.sol";
 import {IERC20Upgradeable} from "@openzeppelin/contracts-upgradeable/token/ERC20/IERC20Upgradeable.sol";
+import {IERC721Upgradeable} from "@openzeppelin/contracts-upgradeable/token/ERC721/IERC721Upgradeable.sol";
 import {IVotesUpgradeable} from "@openzeppelin/contracts-upgradeable/governance/utils/IVotesUpgradeable.sol";
 
 import {IDAO} from "@aragon/osx/core/dao/IDAO.sol";
@@ -16,6 +17,7 @@ import {GovernanceERC20} from "@aragon/osx/token/ERC20/governance/GovernanceERC2
 import {GovernanceWrappedERC20} from "@aragon/osx/token/ERC20/governance/GovernanceWrappedERC20.sol";
 import {IGovernanceWrappedERC20} from "@aragon/osx/token/ERC20/governance/IGovernanceWrappedERC20.sol";
 import {OptimisticTokenVotingPlugin} from "./OptimisticTokenVotingPlugin.sol";
+import {IERC6372} from "./IERC6372.sol";
 
 /// @title OptimisticTokenVotingPluginSetup
 /// @author Aragon Association - 2022-2023
@@ -35,8 +37,11 @@ contract OptimisticTokenVotingPluginSetup is PluginSetup {
     /// @notice The address of the `GovernanceWrappedERC20` base contract.
     address public immutable governanceWrappedERC20Base;
 
+    /// @notice The guardians granted the emergency veto permission when preparing the installation of each plugin.
+    mapping(address => address[]) private installedGuardians;
+
     /// @notice The token settings struct.
-    /// @param addr The token address. If this is `address(0)`, a new `GovernanceERC20` token is deployed. If not, the existing token is wrapped as an `GovernanceWrappedERC20`.
+    /// @param addr The token address. If this is `address(0)`, a new `GovernanceERC20` token is deployed. If not, the existing token is wrapped as an `GovernanceWrappedERC20`, unless it provides voting power already. Tokens describing their clock with [ERC-6372](https://eips.ethereum.org/EIPS/eip-6372), like the ones using timestamp checkpoints, are used as they are. [ERC-721](https://eips.ethereum.org/EIPS/eip-721) NFTs must implement `IVotes`, like OpenZeppelin's `ERC721Votes`, and are used as they are.
     /// @param name The token name. This parameter is only relevant if the token address is `address(0)`.
     /// @param symbol The token symbol. This parameter is only relevant if the token address is `address(0)`.
     struct TokenSettings {
@@ -53,10 +58,18 @@ contract OptimisticTokenVotingPluginSetup is PluginSetup {
     /// @param token The token address
     error TokenNotERC20(address token);
 
+    /// @notice Thrown if an NFT is passed which does not implement `IVotes`.
+    /// @param token The token address
+    error NFTNotVotes(address token);
+
     /// @notice Thrown if passed helpers array is of wrong length.
     /// @param length The array length of passed helpers.
     error WrongHelpersArrayLength(uint256 length);
 
+    /// @notice Thrown if the guardians passed to revoke the emergency veto permission from are not the ones it was granted to at installation.
+    /// @param plugin The plugin address.
+    error GuardiansMismatch(address plugin);
+
     /// @notice The contract constructor deploying the plugin implementation contract and receiving the governance token base contracts to clone from.
     /// @param _governanceERC20Base The base `GovernanceERC20` contract to create clones from.
     /// @param _governanceWrappedERC20Base The base `GovernanceWrappedERC20` contract to create clones from.
@@ -81,14 +94,20 @@ contract OptimisticTokenVotingPluginSetup is PluginSetup {
             TokenSettings memory tokenSettings,
             // only used for GovernanceERC20 (when token is not passed)
             GovernanceERC20.MintSettings memory mintSettings,
-            address[] memory proposers
+            address[] memory proposers,
+            // can be empty, if no account should be able to veto in an emergency
+            address[] memory guardians,
+            // an amount of 0 requires no bond
+            OptimisticTokenVotingPlugin.ProposalBondSettings memory bondSettings
         ) = abi.decode(
                 _installParameters,
                 (
                     OptimisticTokenVotingPlugin.OptimisticGovernanceSettings,
                     TokenSettings,
                     GovernanceERC20.MintSettings,
-                    address[]
+                    address[],
+                    address[],
+                    OptimisticTokenVotingPlugin.ProposalBondSettings
                 )
             );
 
@@ -102,31 +121,43 @@ contract OptimisticTokenVotingPluginSetup is PluginSetup {
                 revert TokenNotContract(token);
             }
 
-            if (!_isERC20(token)) {
-                revert TokenNotERC20(token);
-            }
-
-            // [0] = IERC20Upgradeable, [1] = IVotesUpgradeable, [2] = IGovernanceWrappedERC20
-            bool[] memory supportedIds = _getTokenInterfaceIds(token);
-
-            if (
-                // If token supports none of them
-                // it's simply ERC20 which gets checked by _isERC20
-                // Currently, not a satisfiable check.
-                (!supportedIds[0] && !supportedIds[1] && !supportedIds[2]) ||
-                // If token supports IERC20, but neither
-                // IVotes nor IGovernanceWrappedERC20, it needs wrapping.
-                (supportedIds[0] && !supportedIds[1] && !supportedIds[2])
-            ) {
-                token = governanceWrappedERC20Base.clone();
-                // User already has a token. We need to wrap it in
-                // GovernanceWrappedERC20 in order to make the token
-                // include governance functionality.
-                GovernanceWrappedERC20(token).initialize(
-                    IERC20Upgradeable(tokenSettings.addr),
-                    tokenSettings.name,
-                    tokenSettings.symbol
-                );
+            // NFTs cannot be wrapped, so they must provide voting power already
+            if (token.supportsInterface(type(IERC721Upgradeable).interfaceId)) {
+                if (!_isVotes(token)) {
+                    revert NFTNotVotes(token);
+                }
+            } else {
+                if (!_isERC20(token)) {
+                    revert TokenNotERC20(token);
+                }
+
+                // [0] = IERC20Upgradeable, [1] = IVotesUpgradeable, [2] = IGovernanceWrappedERC20
+                bool[] memory supportedIds = _getTokenInterfaceIds(token);
+
+                if (
+                    // Votes tokens with a timestamp clock don't need wrapping,
+                    // wrapping them would replace timestamp checkpoints by block numbers.
+                    // A clock alone provides no voting power though, and the tokens
+                    // with a block number clock are wrapped like before.
+                    !(_isVotes(token) && _hasTimestampClock(token)) &&
+                    // If token supports none of them
+                    // it's simply ERC20 which gets checked by _isERC20
+                    // Currently, not a satisfiable check.
+                    ((!supportedIds[0] && !supportedIds[1] && !supportedIds[2]) ||
+                        // If token supports IERC20, but neither
+                        // IVotes nor IGovernanceWrappedERC20, it needs wrapping.
+                        (supportedIds[0] && !supportedIds[1] && !supportedIds[2]))
+                ) {
+                    token = governanceWrappedERC20Base.clone();
+                    // User already has a token. We need to wrap it in
+                    // GovernanceWrappedERC20 in order to make the token
+                    // include governance functionality.
+                    GovernanceWrappedERC20(token).initialize(
+                        IERC20Upgradeable(tokenSettings.addr),
+                        tokenSettings.name,
+                        tokenSettings.symbol
+                    );
+                }
             }
         } else {
             // Clone a `GovernanceERC20`.
@@ -146,79 +177,51 @@ contract OptimisticTokenVotingPluginSetup is PluginSetup {
             address(optimisticTokenVotingPluginBase),
             abi.encodeCall(
                 OptimisticTokenVotingPlugin.initialize,
-                (IDAO(_dao), votingSettings, IVotesUpgradeable(token))
+                (IDAO(_dao), votingSettings, IVotesUpgradeable(token), bondSettings)
             )
         );
 
-        // Prepare permissions
-        PermissionLib.MultiTargetPermission[]
-            memory permissions = new PermissionLib.MultiTargetPermission[](
-                tokenSettings.addr != address(0) ? 3 + proposers.length : 4 + proposers.length
-            );
-
-        // Request the permissions to be granted
-
-        // The DAO can update the plugin settings
-        permissions[0] = PermissionLib.MultiTargetPermission({
-            operation: PermissionLib.Operation.Grant,
-            where: plugin,
-            who: _dao,
-            condition: PermissionLib.NO_CONDITION,
-            permissionId: optimisticTokenVotingPluginBase
-                .UPDATE_OPTIMISTIC_GOVERNANCE_SETTINGS_PERMISSION_ID()
-        });
-
-        // The DAO can upgrade the plugin implementation
-        permissions[1] = PermissionLib.MultiTargetPermission({
-            operation: PermissionLib.Operation.Grant,
-            where: plugin,
-            who: _dao,
-            condition: PermissionLib.NO_CONDITION,
-            permissionId: optimisticTokenVotingPluginBase.UPGRADE_PLUGIN_PERMISSION_ID()
-        });
+        // Kept so that the uninstallation revokes the emergency veto permission of every guardian
+        installedGuardians[plugin] = guardians;
 
-        // The plugin can make the DAO execute actions
-        permissions[2] = PermissionLib.MultiTargetPermission({
-            operation: PermissionLib.Operation.Grant,
-            where: _dao,
-            who: plugin,
-            condition: PermissionLib.NO_CONDITION,
-            permissionId: DAO(payable(_dao)).EXECUTE_PERMISSION_ID()
+        preparedSetupData.helpers = helpers;
+        preparedSetupData.permissions = _getInstallationPermissions({
+            _dao: _dao,
+            _plugin: plugin,
+            _token: token,
+            _tokenDeployed: tokenSettings.addr == address(0),
+            _proposers: proposers,
+            _guardians: guardians
         });
+    }
 
-        // Proposers can create proposals
-        for (uint256 i = 0; i < proposers.length; ) {
-            permissions[3 + i] = PermissionLib.MultiTargetPermission({
-                operation: PermissionLib.Operation.Grant,
-                where: plugin,
-                who: proposers[i],
-                condition: PermissionLib.NO_CONDITION,
-                permissionId: optimisticTokenVotingPluginBase.PROPOSER_PERMISSION_ID()
-            });
-
-            unchecked {
-                i++;
-            }
-        }
-
-        if (tokenSettings.addr == address(0)) {
-            bytes32 tokenMintPermission = GovernanceERC20(token).MINT_PERMISSION_ID();
-
-            // The DAO can mint ERC20 tokens
-            permissions[3 + proposers.length] = PermissionLib.MultiTargetPermission({
-                operation: PermissionLib.Operation.Grant,
-                where: token,
-                who: _dao,
-                condition: PermissionLib.NO_CONDITION,
-                permissionId: tokenMintPermission
-            });
+    /// @inheritdoc IPluginSetup
+    /// @dev Updating from build 1 reinitializes the plugin with the execution window, which is expected to be ABI-encoded as `uint64` in `_payload.data`.
+    function prepareUpdate(
+        address _dao,
+        uint16 _currentBuild,
+        SetupPayload calldata _payload
+    )
+        external
+        pure
+        override
+        returns (bytes memory initData, PreparedSetupData memory preparedSetupData)
+    {
+        (_dao);
+
+        if (_currentBuild < 2) {
+            initData = abi.encodeCall(
+                OptimisticTokenVotingPlugin.initializeFrom,
+                (_currentBuild, _payload.data)
+            );
         }
 
-        preparedSetupData.helpers = helpers;
-        preparedSetupData.permissions = permissions;
+        // The voting token stays the same
+        preparedSetupData.helpers = _payload.currentHelpers;
     }
 
     /// @inheritdoc IPluginSetup
+    /// @dev The guardians granted the emergency veto permission at installation are expected to be ABI-encoded as `address[]` in `_payload.data`, in the same order, so that their permission is revoked. Empty data is only accepted if the plugin was installed without guardians.
     function prepareUninstallation(
         address _dao,
         SetupPayload calldata _payload
@@ -237,7 +240,20 @@ contract OptimisticTokenVotingPluginSetup is PluginSetup {
 
         bool isGovernanceERC20 = supportedIds[0] && supportedIds[1] && !supportedIds[2];
 
-        permissions = new PermissionLib.MultiTargetPermission[](isGovernanceERC20 ? 4 : 3);
+        address[] memory guardians = _payload.data.length > 0
+            ? abi.decode(_payload.data, (address[]))
+            : new address[](0);
+
+        if (
+            keccak256(abi.encode(guardians)) !=
+            keccak256(abi.encode(installedGuardians[_payload.plugin]))
+        ) {
+            revert GuardiansMismatch({plugin: _payload.plugin});
+        }
+
+        permissions = new PermissionLib.MultiTargetPermission[](
+            (isGovernanceERC20 ? 4 : 3) + guardians.length
+        );
 
         // Set permissions to be Revoked.
         permissions[0] = PermissionLib.MultiTargetPermission({
@@ -267,11 +283,26 @@ contract OptimisticTokenVotingPluginSetup is PluginSetup {
 
         // Note: It no longer matters if proposers can still create proposals
 
+        // Guardians lose the emergency veto permission
+        for (uint256 i = 0; i < guardians.length; ) {
+            permissions[3 + i] = PermissionLib.MultiTargetPermission({
+                operation: PermissionLib.Operation.Revoke,
+                where: _payload.plugin,
+                who: guardians[i],
+                condition: PermissionLib.NO_CONDITION,
+                permissionId: optimisticTokenVotingPluginBase.EMERGENCY_VETO_PERMISSION_ID()
+            });
+
+            unchecked {
+                i++;
+            }
+        }
+
         // Revocation of permission is necessary only if the deployed token is GovernanceERC20,
         // as GovernanceWrapped does not possess this permission. Only return the following
         // if it's type of GovernanceERC20, otherwise revoking this permission wouldn't have any effect.
         if (isGovernanceERC20) {
-            permissions[3] = PermissionLib.MultiTargetPermission({
+            permissions[3 + guardians.length] = PermissionLib.MultiTargetPermission({
                 operation: PermissionLib.Operation.Revoke,
                 where: token,
                 who: _dao,
@@ -286,6 +317,107 @@ contract OptimisticTokenVotingPluginSetup is PluginSetup {
         return address(optimisticTokenVotingPluginBase);
     }
 
+    /// @notice Returns the guardians granted the emergency veto permission when preparing the installation of a plugin.
+    /// @param _plugin The plugin address.
+    /// @return The guardians, which `prepareUninstallation` expects in its payload.
+    function getInstalledGuardians(address _plugin) external view returns (address[] memory) {
+        return installedGuardians[_plugin];
+    }
+
+    /// @notice Returns the permissions to grant when installing the plugin.
+    /// @param _dao The address of the installing DAO.
+    /// @param _plugin The address of the plugin proxy.
+    /// @param _token The address of the voting token.
+    /// @param _tokenDeployed Whether the voting token was deployed for the plugin, which makes the DAO its minter.
+    /// @param _proposers The accounts allowed to create proposals.
+    /// @param _guardians The accounts allowed to veto proposals in an emergency.
+    /// @return permissions The permissions to grant.
+    function _getInstallationPermissions(
+        address _dao,
+        address _plugin,
+        address _token,
+        bool _tokenDeployed,
+        address[] memory _proposers,
+        address[] memory _guardians
+    ) private view returns (PermissionLib.MultiTargetPermission[] memory permissions) {
+        permissions = new PermissionLib.MultiTargetPermission[](
+            (_tokenDeployed ? 4 : 3) + _proposers.length + _guardians.length
+        );
+
+        // Request the permissions to be granted
+
+        // The DAO can update the plugin settings
+        permissions[0] = PermissionLib.MultiTargetPermission({
+            operation: PermissionLib.Operation.Grant,
+            where: _plugin,
+            who: _dao,
+            condition: PermissionLib.NO_CONDITION,
+            permissionId: optimisticTokenVotingPluginBase
+                .UPDATE_OPTIMISTIC_GOVERNANCE_SETTINGS_PERMISSION_ID()
+        });
+
+        // The DAO can upgrade the plugin implementation
+        permissions[1] = PermissionLib.MultiTargetPermission({
+            operation: PermissionLib.Operation.Grant,
+            where: _plugin,
+            who: _dao,
+            condition: PermissionLib.NO_CONDITION,
+            permissionId: optimisticTokenVotingPluginBase.UPGRADE_PLUGIN_PERMISSION_ID()
+        });
+
+        // The plugin can make the DAO execute actions
+        permissions[2] = PermissionLib.MultiTargetPermission({
+            operation: PermissionLib.Operation.Grant,
+            where: _dao,
+            who: _plugin,
+            condition: PermissionLib.NO_CONDITION,
+            permissionId: DAO(payable(_dao)).EXECUTE_PERMISSION_ID()
+        });
+
+        // Proposers can create proposals
+        for (uint256 i = 0; i < _proposers.length; ) {
+            permissions[3 + i] = PermissionLib.MultiTargetPermission({
+                operation: PermissionLib.Operation.Grant,
+                where: _plugin,
+                who: _proposers[i],
+                condition: PermissionLib.NO_CONDITION,
+                permissionId: optimisticTokenVotingPluginBase.PROPOSER_PERMISSION_ID()
+            });
+
+            unchecked {
+                i++;
+            }
+        }
+
+        // Guardians can defeat proposals regardless of their veto tally
+        for (uint256 i = 0; i < _guardians.length; ) {
+            permissions[3 + _proposers.length + i] = PermissionLib.MultiTargetPermission({
+                operation: PermissionLib.Operation.Grant,
+                where: _plugin,
+                who: _guardians[i],
+                condition: PermissionLib.NO_CONDITION,
+                permissionId: optimisticTokenVotingPluginBase.EMERGENCY_VETO_PERMISSION_ID()
+            });
+
+            unchecked {
+                i++;
+            }
+        }
+
+        if (_tokenDeployed) {
+            bytes32 tokenMintPermission = GovernanceERC20(_token).MINT_PERMISSION_ID();
+
+            // The DAO can mint ERC20 tokens
+            permissions[permissions.length - 1] = PermissionLib.MultiTargetPermission({
+                operation: PermissionLib.Operation.Grant,
+                where: _token,
+                who: _dao,
+                condition: PermissionLib.NO_CONDITION,
+                permissionId: tokenMintPermission
+            });
+        }
+    }
+
     /// @notice Retrieves the interface identifiers supported by the token contract.
     /// @dev It is crucial to verify if the provided token address represents a valid contract before using the below.
     /// @param token The token address
@@ -306,4 +438,27 @@ contract OptimisticTokenVotingPluginSetup is PluginSetup {
         );
         return success && data.length == 0x20;
     }
+
+    /// @notice Unsatisfiably determines if the contract provides voting power, as an `IVotes` token.
+    /// @dev It's important to first check whether token is a contract prior to this call.
+    /// @param token The token address
+    function _isVotes(address token) private view returns (bool) {
+        (bool success, bytes memory data) = token.staticcall(
+            abi.encodeCall(IVotesUpgradeable.getVotes, (address(this)))
+        );
+        return success && data.length == 0x20;
+    }
+
+    /// @notice Determines if the contract describes a timestamp clock with [ERC-6372](https://eips.ethereum.org/EIPS/eip-6372).
+    /// @dev It's important to first check whether token is a contract prior to this call.
+    /// @param token The token address
+    function _hasTimestampClock(address token) private view returns (bool) {
+        (bool success, bytes memory data) = token.staticcall(
+            abi.encodeCall(IERC6372.CLOCK_MODE, ())
+        );
+        if (!success || data.length < 0x40) {
+            return false;
+        }
+        return keccak256(bytes(abi.decode(data, (string)))) == keccak256("mode=timestamp");
+    }
 }
@@ -0,0 +1,30 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+
+pragma solidity ^0.8.8;
+
+import {ERC20} from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import {SafeCast} from "@openzeppelin/contracts/utils/math/SafeCast.sol";
+
+/// @title ClockERC20Mock
+/// @notice An [ERC-20](https://eips.ethereum.org/EIPS/eip-20) token mock describing a timestamp clock, as in [ERC-6372](https://eips.ethereum.org/EIPS/eip-6372), without providing any voting power.
+contract ClockERC20Mock is ERC20 {
+    using SafeCast for uint256;
+
+    constructor() ERC20("Clock Token", "CLK") {}
+
+    /// @notice Mints tokens.
+    /// @param _to The receiver of the tokens.
+    /// @param _amount The amount of tokens.
+    function mint(address _to, uint256 _amount) external {
+        _mint(_to, _amount);
+    }
+
+    function clock() public view returns (uint48) {
+        return block.timestamp.toUint48();
+    }
+
+    // solhint-disable-next-line func-name-mixedcase
+    function CLOCK_MODE() external pure returns (string memory) {
+        return "mode=timestamp";
+    }
+}
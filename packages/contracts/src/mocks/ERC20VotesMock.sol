@@ -0,0 +1,20 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+
+pragma solidity ^0.8.8;
+
+import {ERC20} from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import {ERC20Permit} from "@openzeppelin/contracts/token/ERC20/extensions/draft-ERC20Permit.sol";
+import {ERC20Votes} from "@openzeppelin/contracts/token/ERC20/extensions/ERC20Votes.sol";
+
+/// @title ERC20VotesMock
+/// @notice An [ERC-20](https://eips.ethereum.org/EIPS/eip-20) token mock with voting power, describing a block number clock as in [ERC-6372](https://eips.ethereum.org/EIPS/eip-6372) like every `ERC20Votes` token from OpenZeppelin 4.9 on.
+contract ERC20VotesMock is ERC20Votes {
+    constructor() ERC20("Votes Token", "VOT") ERC20Permit("Votes Token") {}
+
+    /// @notice Mints tokens.
+    /// @param _to The receiver of the tokens.
+    /// @param _amount The amount of tokens.
+    function mint(address _to, uint256 _amount) external {
+        _mint(_to, _amount);
+    }
+}
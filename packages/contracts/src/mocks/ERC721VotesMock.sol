@@ -0,0 +1,23 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+
+pragma solidity ^0.8.8;
+
+import {ERC721} from "@openzeppelin/contracts/token/ERC721/ERC721.sol";
+import {ERC721Votes} from "@openzeppelin/contracts/token/ERC721/extensions/ERC721Votes.sol";
+import {EIP712} from "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+
+/// @title ERC721VotesMock
+/// @notice An [ERC-721](https://eips.ethereum.org/EIPS/eip-721) NFT mock with voting power, where every NFT counts as one vote. The receivers of minted NFTs delegate to themselves unless they delegated already.
+contract ERC721VotesMock is ERC721Votes {
+    constructor() ERC721("Test NFT", "TNFT") EIP712("Test NFT", "1") {}
+
+    /// @notice Mints an NFT.
+    /// @param _to The receiver of the NFT.
+    /// @param _tokenId The ID of the NFT.
+    function mint(address _to, uint256 _tokenId) external {
+        if (delegates(_to) == address(0)) {
+            _delegate(_to, _to);
+        }
+        _mint(_to, _tokenId);
+    }
+}
@@ -0,0 +1,36 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+
+pragma solidity ^0.8.8;
+
+import {ERC20} from "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+/// @title PausableERC20Mock
+/// @notice An [ERC-20](https://eips.ethereum.org/EIPS/eip-20) token mock refusing every transfer while it is paused.
+contract PausableERC20Mock is ERC20 {
+    /// @notice Whether the transfers are refused.
+    bool public paused;
+
+    /// @notice Thrown if tokens are transferred while the token is paused.
+    error TokenPaused();
+
+    constructor() ERC20("Pausable Token", "PAU") {}
+
+    /// @notice Mints tokens.
+    /// @param _to The receiver of the tokens.
+    /// @param _amount The amount of tokens.
+    function mint(address _to, uint256 _amount) external {
+        _mint(_to, _amount);
+    }
+
+    /// @notice Pauses or resumes the transfers.
+    /// @param _paused Whether the transfers are refused.
+    function setPaused(bool _paused) external {
+        paused = _paused;
+    }
+
+    function _beforeTokenTransfer(address, address, uint256) internal view override {
+        if (paused) {
+            revert TokenPaused();
+        }
+    }
+}
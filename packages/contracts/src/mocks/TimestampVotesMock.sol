@@ -0,0 +1,68 @@
+// SPDX-License-Identifier: AGPL-3.0-or-later
+
+pragma solidity ^0.8.8;
+
+import {Checkpoints} from "@openzeppelin/contracts/utils/Checkpoints.sol";
+import {SafeCast} from "@openzeppelin/contracts/utils/math/SafeCast.sol";
+
+/// @title TimestampVotesMock
+/// @notice A votes token mock using timestamp checkpoints, as described by [ERC-6372](https://eips.ethereum.org/EIPS/eip-6372). Every holder is self-delegated.
+contract TimestampVotesMock {
+    using Checkpoints for Checkpoints.Trace224;
+    using SafeCast for uint256;
+
+    /// @notice The balances of the holders.
+    mapping(address => uint256) public balanceOf;
+
+    /// @notice The voting power checkpoints of the holders.
+    mapping(address => Checkpoints.Trace224) private votes;
+
+    /// @notice The total supply checkpoints.
+    Checkpoints.Trace224 private totalSupplyCheckpoints;
+
+    /// @notice Thrown if a timepoint is not in the past yet.
+    /// @param timepoint The requested timepoint.
+    error FutureLookup(uint256 timepoint);
+
+    /// @notice Sets the balance and the voting power of an account at the current timestamp.
+    /// @param _account The account.
+    /// @param _amount The new balance.
+    function setBalance(address _account, uint256 _amount) external {
+        uint256 totalSupply_ = totalSupplyCheckpoints.latest() - balanceOf[_account] + _amount;
+
+        balanceOf[_account] = _amount;
+        votes[_account].push(block.timestamp.toUint32(), _amount.toUint224());
+        totalSupplyCheckpoints.push(block.timestamp.toUint32(), totalSupply_.toUint224());
+    }
+
+    function clock() public view returns (uint48) {
+        return block.timestamp.toUint48();
+    }
+
+    // solhint-disable-next-line func-name-mixedcase
+    function CLOCK_MODE() external pure returns (string memory) {
+        return "mode=timestamp";
+    }
+
+    function totalSupply() external view returns (uint256) {
+        return totalSupplyCheckpoints.latest();
+    }
+
+    function getVotes(address _account) external view returns (uint256) {
+        return votes[_account].latest();
+    }
+
+    function getPastVotes(address _account, uint256 _timepoint) external view returns (uint256) {
+        if (_timepoint >= clock()) {
+            revert FutureLookup(_timepoint);
+        }
+        return votes[_account].upperLookup(_timepoint.toUint32());
+    }
+
+    function getPastTotalSupply(uint256 _timepoint) external view returns (uint256) {
+        if (_timepoint >= clock()) {
+            revert FutureLookup(_timepoint);
+        }
+        return totalSupplyCheckpoints.upperLookup(_timepoint.toUint32());
+    }
+}
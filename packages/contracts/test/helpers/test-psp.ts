@@ -3,9 +3,9 @@ import {
   PluginSetupProcessor,
   PluginSetupProcessor__factory,
 } from "../../typechain";
-import { osxContracts } from "../../utils/helpers";
 import { Operation } from "./types";
 import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { deployments } from "hardhat";
 
 export async function createPluginSetupProcessor(
   deployer: SignerWithAddress,
@@ -13,10 +13,8 @@ export async function createPluginSetupProcessor(
 ): Promise<PluginSetupProcessor> {
   // Create the PluginSetupProcessor
 
-  const hardhatForkNetwork = process.env.NETWORK_NAME ?? "mainnet";
-
   const psp = new PluginSetupProcessor__factory(deployer).attach(
-    osxContracts[hardhatForkNetwork].PluginSetupProcessor,
+    (await deployments.get("PluginSetupProcessor")).address,
   );
 
   // grant the owner full permission for plugins
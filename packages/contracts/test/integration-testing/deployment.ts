@@ -1,4 +1,3 @@
-import { osxContracts } from "../../utils/helpers";
 import { getPluginRepoInfo } from "../../utils/plugin-repo-info";
 import { OptimisticTokenVotingPluginSetupParams } from "../../plugin-setup-params";
 import {
@@ -36,12 +35,10 @@ describe("PluginRepo Deployment", function () {
 
   setups.forEach((pluginSetupParams) => {
     context(pluginSetupParams.PLUGIN_CONTRACT_NAME, () => {
-      before(() => {
-        const hardhatForkNetwork = process.env.NETWORK_NAME ?? "mainnet";
-
+      before(async () => {
         // plugin repo registry
         repoRegistry = PluginRepoRegistry__factory.connect(
-          osxContracts[hardhatForkNetwork]["PluginRepoRegistry"],
+          (await deployments.get("PluginRepoRegistry")).address,
           alice,
         );
 
@@ -101,26 +98,34 @@ describe("PluginRepo Deployment", function () {
             "hex",
           ).toString();
 
-          switch (pluginSetupParams.PLUGIN_SETUP_CONTRACT_NAME) {
-            case OptimisticTokenVotingPluginSetupParams
-              .PLUGIN_SETUP_CONTRACT_NAME:
-              expect(receivedStriMetadata).to.equal(
-                "ipfs://QmdEAfaFb6iYW4UKE7cnkY3DD3uXdSe2ZnRExjJRbJSfNN",
-              );
-              break;
-
-            // case XyzPluginSetupParams.PLUGIN_SETUP_CONTRACT_NAME:
-            //   expect(receivedStriMetadata).to.equal(
-            //     "ipfs://QmYKrFvNmsEzZmtGGBfUJXzevR6YLk7a16VEAeuPDhwzCJ",
-            //   );
-            //   break;
-
-            default:
-              throw new Error(
-                "Unexpected contract name: " +
-                  pluginSetupParams.PLUGIN_CONTRACT_NAME,
-              );
-          }
+          // Local networks reference the metadata by its hash, see `12_publish`
+          const expectedBuildMetadataURI = `ipfs://${
+            ethers.utils.id(
+              JSON.stringify(pluginSetupParams.METADATA.build),
+            ).slice(2)
+          }`;
+          expect(receivedStriMetadata).to.equal(expectedBuildMetadataURI);
+        });
+
+        it("registered the frozen build 1 with its own metadata", async () => {
+          const results = await pluginRepo["getVersion((uint8,uint16))"]({
+            release: pluginSetupParams.VERSION.release,
+            build: 1,
+          });
+
+          const receivedStriMetadata = Buffer.from(
+            results.buildMetadata.slice(2),
+            "hex",
+          ).toString();
+
+          const expectedBuildMetadataURI = `ipfs://${
+            ethers.utils.id(
+              JSON.stringify(pluginSetupParams.METADATA.previousBuilds[1]),
+            ).slice(2)
+          }`;
+          expect(receivedStriMetadata).to.equal(expectedBuildMetadataURI);
+          expect(pluginSetupParams.METADATA.previousBuilds[1].pluginSetup)
+            .to.not.have.property("prepareUpdate");
         });
       });
     });
@@ -2,14 +2,17 @@ import { OptimisticTokenVotingPluginSetupParams } from "../../plugin-setup-param
 import {
   OptimisticTokenVotingPlugin,
   OptimisticTokenVotingPlugin__factory,
+  OptimisticTokenVotingPluginBuild1,
+  OptimisticTokenVotingPluginBuild1__factory,
   OptimisticTokenVotingPluginSetup,
   OptimisticTokenVotingPluginSetup__factory,
+  OptimisticTokenVotingPluginSetupBuild1,
+  OptimisticTokenVotingPluginSetupBuild1__factory,
   PluginRepo,
 } from "../../typechain";
 import { PluginSetupRefStruct } from "../../typechain/@aragon/osx/framework/dao/DAOFactory";
-import { osxContracts } from "../../utils/helpers";
 import { getPluginRepoInfo } from "../../utils/plugin-repo-info";
-import { installPlugin, uninstallPlugin } from "../helpers/setup";
+import { installPlugin, uninstallPlugin, updatePlugin } from "../helpers/setup";
 import { deployTestDao } from "../helpers/test-dao";
 import { getNamedTypesFromMetadata } from "../helpers/types";
 import {
@@ -21,9 +24,15 @@ import {
 import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
 import { expect } from "chai";
 import { BigNumber } from "ethers";
-import { ethers } from "hardhat";
-import { ADDRESS_ZERO } from "../unit-testing/common";
-import { toHex } from "../../utils/ipfs";
+import { deployments, ethers } from "hardhat";
+import {
+  ADDRESS_ZERO,
+  NO_PROPOSAL_BOND,
+  ONE_DAY,
+  ONE_WEEK,
+  pctToRatio,
+  UPGRADE_PLUGIN_PERMISSION_ID,
+} from "../unit-testing/common";
 
 describe("OptimisticTokenVotingPluginSetup processing", function () {
   let alice: SignerWithAddress;
@@ -32,10 +41,75 @@ describe("OptimisticTokenVotingPluginSetup processing", function () {
   let dao: DAO;
   let pluginRepo: PluginRepo;
 
+  const release = 1;
+  const { METADATA } = OptimisticTokenVotingPluginSetupParams;
+
+  function getInstallData(executionWindow: number) {
+    return ethers.utils.defaultAbiCoder.encode(
+      getNamedTypesFromMetadata(
+        METADATA.build.pluginSetup.prepareInstallation.inputs,
+      ),
+      [
+        {
+          minVetoRatio: pctToRatio(5),
+          minDuration: ONE_WEEK,
+          executionWindow,
+          minProposerVotingPower: 0,
+        },
+        { token: ADDRESS_ZERO, name: "Test Token", symbol: "TT" },
+        { receivers: [alice.address], amounts: [10] },
+        [alice.address],
+        [],
+        NO_PROPOSAL_BOND,
+      ],
+    );
+  }
+
+  // Build 1 had neither the execution window nor the guardians
+  function getBuild1InstallData() {
+    return ethers.utils.defaultAbiCoder.encode(
+      [
+        "tuple(uint32 minVetoRatio, uint64 minDuration, uint256 minProposerVotingPower)",
+        "tuple(address addr, string name, string symbol)",
+        "tuple(address[] receivers, uint256[] amounts)",
+        "address[]",
+      ],
+      [
+        {
+          minVetoRatio: pctToRatio(5),
+          minDuration: ONE_WEEK,
+          minProposerVotingPower: 0,
+        },
+        { addr: ADDRESS_ZERO, name: "Test Token", symbol: "TT" },
+        { receivers: [alice.address], amounts: [10] },
+        [alice.address],
+      ],
+    );
+  }
+
+  function getUninstallData() {
+    return ethers.utils.defaultAbiCoder.encode(
+      getNamedTypesFromMetadata(
+        METADATA.build.pluginSetup.prepareUninstallation.inputs,
+      ),
+      [[]],
+    );
+  }
+
+  function getPluginSetupRef(build: number): PluginSetupRefStruct {
+    return {
+      versionTag: {
+        release: BigNumber.from(release),
+        build: BigNumber.from(build),
+      },
+      pluginSetupRepo: pluginRepo.address,
+    };
+  }
+
   before(async () => {
     [alice] = await ethers.getSigners();
 
-    const hardhatForkNetwork = process.env.NETWORK_NAME ?? "mainnet";
+    await deployments.fixture();
 
     const pluginRepoInfo = getPluginRepoInfo(
       OptimisticTokenVotingPluginSetupParams.PLUGIN_REPO_ENS_NAME,
@@ -47,7 +121,7 @@ describe("OptimisticTokenVotingPluginSetup processing", function () {
 
     // PSP
     psp = PluginSetupProcessor__factory.connect(
-      osxContracts[hardhatForkNetwork]["PluginSetupProcessor"],
+      (await deployments.get("PluginSetupProcessor")).address,
       alice,
     );
 
@@ -82,45 +156,32 @@ describe("OptimisticTokenVotingPluginSetup processing", function () {
   });
 
   context("Build 1", async () => {
-    let setup: OptimisticTokenVotingPluginSetup;
-    let pluginSetupRef: PluginSetupRefStruct;
-    let plugin: OptimisticTokenVotingPlugin;
-    const pluginUpgrader = ADDRESS_ZERO;
+    let setup: OptimisticTokenVotingPluginSetupBuild1;
+    let plugin: OptimisticTokenVotingPluginBuild1;
+    let helpers: string[];
 
     before(async () => {
-      const release = 1;
-
-      // Deploy setups.
-      setup = OptimisticTokenVotingPluginSetup__factory.connect(
-        (await pluginRepo["getLatestVersion(uint8)"](release)).pluginSetup,
+      setup = OptimisticTokenVotingPluginSetupBuild1__factory.connect(
+        (await pluginRepo["getVersion((uint8,uint16))"]({ release, build: 1 }))
+          .pluginSetup,
         alice,
       );
-
-      pluginSetupRef = {
-        versionTag: {
-          release: BigNumber.from(release),
-          build: BigNumber.from(1),
-        },
-        pluginSetupRepo: pluginRepo.address,
-      };
     });
 
     beforeEach(async () => {
       // Install build 1.
-      const data = ethers.utils.defaultAbiCoder.encode(
-        getNamedTypesFromMetadata(
-          OptimisticTokenVotingPluginSetupParams.METADATA.build.pluginSetup
-            .prepareInstallation
-            .inputs,
-        ),
-        [toHex("ipfs://1234"), pluginUpgrader],
+      const results = await installPlugin(
+        psp,
+        dao,
+        getPluginSetupRef(1),
+        getBuild1InstallData(),
       );
-      const results = await installPlugin(psp, dao, pluginSetupRef, data);
 
-      plugin = OptimisticTokenVotingPlugin__factory.connect(
+      plugin = OptimisticTokenVotingPluginBuild1__factory.connect(
         results.preparedEvent.args.plugin,
         alice,
       );
+      helpers = results.preparedEvent.args.preparedSetupData.helpers;
     });
 
     it("installs & uninstalls", async () => {
@@ -130,15 +191,118 @@ describe("OptimisticTokenVotingPluginSetup processing", function () {
       expect(await plugin.dao()).to.be.eq(dao.address);
 
       // Uninstall build 1.
+      await uninstallPlugin(
+        psp,
+        dao,
+        plugin,
+        getPluginSetupRef(1),
+        "0x",
+        helpers,
+      );
+    });
+
+    it("updates to build 2", async () => {
+      const build2Setup = OptimisticTokenVotingPluginSetup__factory.connect(
+        (await pluginRepo["getVersion((uint8,uint16))"]({ release, build: 2 }))
+          .pluginSetup,
+        alice,
+      );
+
+      // The PSP upgrades the plugin proxy on behalf of the DAO
+      await dao.grant(plugin.address, psp.address, UPGRADE_PLUGIN_PERMISSION_ID);
+
+      // Update build 1 to build 2.
       const data = ethers.utils.defaultAbiCoder.encode(
         getNamedTypesFromMetadata(
-          OptimisticTokenVotingPluginSetupParams.METADATA.build.pluginSetup
-            .prepareUninstallation
-            .inputs,
+          METADATA.build.pluginSetup.prepareUpdate[1].inputs,
         ),
-        [pluginUpgrader],
+        [3 * ONE_DAY],
+      );
+      const results = await updatePlugin(
+        psp,
+        dao,
+        plugin,
+        helpers,
+        getPluginSetupRef(1),
+        getPluginSetupRef(2),
+        data,
+      );
+
+      const updatedPlugin = OptimisticTokenVotingPlugin__factory.connect(
+        plugin.address,
+        alice,
+      );
+      expect(await updatedPlugin.implementation()).to.be.eq(
+        await build2Setup.implementation(),
+      );
+      expect(await updatedPlugin.executionWindow()).to.be.eq(3 * ONE_DAY);
+      // The settings of build 1 are kept
+      expect(await updatedPlugin.minDuration()).to.be.eq(ONE_WEEK);
+      expect(await updatedPlugin.getVotingToken()).to.be.eq(helpers[0]);
+      expect(results.preparedEvent.args.preparedSetupData.helpers).to.deep
+        .equal(helpers);
+
+      // The plugin cannot be reinitialized again
+      await expect(updatedPlugin.initializeFrom(1, data)).to.be.revertedWith(
+        "Initializable: contract is already initialized",
+      );
+
+      // Uninstall build 2.
+      await uninstallPlugin(
+        psp,
+        dao,
+        updatedPlugin,
+        getPluginSetupRef(2),
+        getUninstallData(),
+        helpers,
+      );
+    });
+  });
+
+  context("Build 2", async () => {
+    let setup: OptimisticTokenVotingPluginSetup;
+    let plugin: OptimisticTokenVotingPlugin;
+    let helpers: string[];
+
+    before(async () => {
+      setup = OptimisticTokenVotingPluginSetup__factory.connect(
+        (await pluginRepo["getLatestVersion(uint8)"](release)).pluginSetup,
+        alice,
+      );
+    });
+
+    beforeEach(async () => {
+      // Install build 2.
+      const results = await installPlugin(
+        psp,
+        dao,
+        getPluginSetupRef(2),
+        getInstallData(ONE_WEEK),
+      );
+
+      plugin = OptimisticTokenVotingPlugin__factory.connect(
+        results.preparedEvent.args.plugin,
+        alice,
+      );
+      helpers = results.preparedEvent.args.preparedSetupData.helpers;
+    });
+
+    it("installs & uninstalls", async () => {
+      expect(await plugin.implementation()).to.be.eq(
+        await setup.implementation(),
+      );
+      expect(await plugin.dao()).to.be.eq(dao.address);
+      expect(await plugin.executionWindow()).to.be.eq(ONE_WEEK);
+
+      // Uninstall build 2.
+      await uninstallPlugin(
+        psp,
+        dao,
+        plugin,
+        getPluginSetupRef(2),
+        getUninstallData(),
+        helpers,
       );
-      await uninstallPlugin(psp, dao, plugin, pluginSetupRef, data, []);
     });
   });
 });
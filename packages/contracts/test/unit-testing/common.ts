@@ -11,6 +11,12 @@ export const PROPOSER_PERMISSION_ID = ethers.utils.id("PROPOSER_PERMISSION");
 export const EXECUTE_PERMISSION_ID = ethers.utils.id("EXECUTE_PERMISSION");
 export const UPDATE_OPTIMISTIC_GOVERNANCE_SETTINGS_PERMISSION_ID = ethers.utils
   .id("UPDATE_OPTIMISTIC_GOVERNANCE_SETTINGS_PERMISSION");
+export const CANCEL_PROPOSAL_PERMISSION_ID = ethers.utils.id(
+  "CANCEL_PROPOSAL_PERMISSION",
+);
+export const EMERGENCY_VETO_PERMISSION_ID = ethers.utils.id(
+  "EMERGENCY_VETO_PERMISSION",
+);
 export const UPGRADE_PLUGIN_PERMISSION_ID = ethers.utils.id(
   "UPGRADE_PLUGIN_PERMISSION",
 );
@@ -21,6 +27,7 @@ export const ADDRESS_ZERO = ethers.constants.AddressZero;
 export const ADDRESS_ONE = `0x${"0".repeat(39)}1`;
 export const ADDRESS_TWO = `0x${"0".repeat(39)}2`;
 export const NO_CONDITION = ADDRESS_ZERO;
+export const ONE_DAY = 60 * 60 * 24;
 export const ONE_WEEK = 60 * 60 * 24 * 7;
 
 export async function getTime(): Promise<number> {
@@ -60,12 +67,30 @@ export const pctToRatio = (x: number) => RATIO_BASE.mul(x).div(100);
 export type OptimisticGovernanceSettings = {
   minVetoRatio: BigNumber;
   minDuration: number;
+  executionWindow: number;
   minProposerVotingPower: number;
 };
 
 export const defaultMainOptimisticGovernanceSettings:
   OptimisticGovernanceSettings = {
     minDuration: ONE_WEEK,
+    executionWindow: ONE_WEEK,
     minVetoRatio: pctToRatio(5), // 5%
     minProposerVotingPower: 0,
   };
+
+export type ProposalBondSettings = {
+  token: string;
+  amount: number;
+  treasury: string;
+};
+
+export const NO_PROPOSAL_BOND: ProposalBondSettings = {
+  token: ADDRESS_ZERO,
+  amount: 0,
+  treasury: ADDRESS_ZERO,
+};
+
+// The values of the `ClockMode` enum
+export const CLOCK_MODE_BLOCK_NUMBER = 0;
+export const CLOCK_MODE_TIMESTAMP = 1;
@@ -0,0 +1,540 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+
+import {
+  DAO,
+  OptimisticTokenVotingPlugin,
+  OptimisticTokenVotingPlugin__factory,
+  PausableERC20Mock,
+  PausableERC20Mock__factory,
+} from "../../typechain";
+import {
+  GovernanceERC20Mock,
+  GovernanceERC20Mock__factory,
+} from "@aragon/osx-ethers";
+
+import {
+  ADDRESS_ONE,
+  ADDRESS_ZERO,
+  advanceAfterVoteEnd,
+  advanceTimeTo,
+  CANCEL_PROPOSAL_PERMISSION_ID,
+  EMERGENCY_VETO_PERMISSION_ID,
+  getTime,
+  NO_PROPOSAL_BOND,
+  ONE_WEEK,
+  OptimisticGovernanceSettings,
+  pctToRatio,
+  PROPOSER_PERMISSION_ID,
+  UPDATE_OPTIMISTIC_GOVERNANCE_SETTINGS_PERMISSION_ID,
+} from "./common";
+import { deployWithProxy } from "../../utils/helpers";
+import { deployTestDao } from "../helpers/test-dao";
+
+describe("OptimisticTokenVotingPlugin bonds", function () {
+  let alice: SignerWithAddress;
+  let bob: SignerWithAddress;
+  let charlie: SignerWithAddress;
+  let plugin: OptimisticTokenVotingPlugin;
+  let dao: DAO;
+  let governanceErc20Mock: GovernanceERC20Mock;
+  let bondToken: GovernanceERC20Mock;
+  let dummyActions: any;
+  let dummyMetadata: string;
+  let governanceSettings: OptimisticGovernanceSettings;
+
+  const bondAmount = 50;
+  const id = 0;
+
+  before(async () => {
+    [alice, bob, charlie] = await ethers.getSigners();
+
+    dummyActions = [
+      {
+        to: alice.address,
+        data: "0x00000000",
+        value: 0,
+      },
+    ];
+
+    dummyMetadata = ethers.utils.hexlify(
+      ethers.utils.toUtf8Bytes("0x123456789"),
+    );
+
+    dao = await deployTestDao(alice);
+  });
+
+  beforeEach(async () => {
+    governanceSettings = {
+      minVetoRatio: pctToRatio(15),
+      minDuration: ONE_WEEK,
+      executionWindow: ONE_WEEK,
+      minProposerVotingPower: 0,
+    };
+
+    const GovernanceERC20Mock = new GovernanceERC20Mock__factory(alice);
+    governanceErc20Mock = await GovernanceERC20Mock.deploy(
+      dao.address,
+      "OPT",
+      "OPT",
+      {
+        receivers: [],
+        amounts: [],
+      },
+    );
+    bondToken = await GovernanceERC20Mock.deploy(
+      dao.address,
+      "BOND",
+      "BOND",
+      {
+        receivers: [],
+        amounts: [],
+      },
+    );
+
+    const OptimisticTokenVotingPluginFactory =
+      new OptimisticTokenVotingPlugin__factory(
+        alice,
+      );
+
+    plugin = await deployWithProxy(OptimisticTokenVotingPluginFactory);
+
+    await plugin.initialize(
+      dao.address,
+      governanceSettings,
+      governanceErc20Mock.address,
+      NO_PROPOSAL_BOND,
+    );
+
+    // The plugin can execute on the DAO
+    await dao.grant(
+      dao.address,
+      plugin.address,
+      ethers.utils.id("EXECUTE_PERMISSION"),
+    );
+    // Alice can create proposals
+    await dao.grant(
+      plugin.address,
+      alice.address,
+      PROPOSER_PERMISSION_ID,
+    );
+    // Alice can update the settings
+    await dao.grant(
+      plugin.address,
+      alice.address,
+      UPDATE_OPTIMISTIC_GOVERNANCE_SETTINGS_PERMISSION_ID,
+    );
+
+    await governanceErc20Mock.setBalance(alice.address, 10);
+    await governanceErc20Mock.setBalance(bob.address, 10);
+    await governanceErc20Mock.setBalance(ADDRESS_ONE, 80);
+
+    await bondToken.setBalance(alice.address, bondAmount);
+  });
+
+  // Helpers
+
+  function setBond(amount = bondAmount) {
+    return plugin.updateProposalBondSettings({
+      token: bondToken.address,
+      amount,
+      treasury: dao.address,
+    });
+  }
+
+  async function createProposal(startDate = 0) {
+    await bondToken.connect(alice).approve(plugin.address, bondAmount);
+    await plugin.createProposal(dummyMetadata, dummyActions, 0, startDate, 0);
+
+    return plugin.getProposal(id);
+  }
+
+  // Tests
+
+  describe("Bond settings", async () => {
+    it("requires no bond by default", async () => {
+      const settings = await plugin.proposalBondSettings();
+      expect(settings.token).to.eq(ADDRESS_ZERO);
+      expect(settings.amount).to.eq(0);
+      expect(settings.treasury).to.eq(ADDRESS_ZERO);
+
+      await plugin.createProposal(dummyMetadata, dummyActions, 0, 0, 0);
+      expect((await plugin.getProposalBond(id)).bond.amount).to.eq(0);
+    });
+
+    it("sets the bond settings at initialization", async () => {
+      const bondSettings = {
+        token: bondToken.address,
+        amount: bondAmount,
+        treasury: dao.address,
+      };
+      plugin = await deployWithProxy(
+        new OptimisticTokenVotingPlugin__factory(alice),
+      );
+
+      await expect(
+        plugin.initialize(
+          dao.address,
+          governanceSettings,
+          governanceErc20Mock.address,
+          bondSettings,
+        ),
+      )
+        .to.emit(plugin, "ProposalBondSettingsUpdated")
+        .withArgs(bondToken.address, bondAmount, dao.address);
+
+      const settings = await plugin.proposalBondSettings();
+      expect(settings.token).to.eq(bondToken.address);
+      expect(settings.amount).to.eq(bondAmount);
+      expect(settings.treasury).to.eq(dao.address);
+    });
+
+    it("reverts the initialization if a bond is required without a treasury", async () => {
+      plugin = await deployWithProxy(
+        new OptimisticTokenVotingPlugin__factory(alice),
+      );
+
+      await expect(
+        plugin.initialize(
+          dao.address,
+          governanceSettings,
+          governanceErc20Mock.address,
+          {
+            token: bondToken.address,
+            amount: bondAmount,
+            treasury: ADDRESS_ZERO,
+          },
+        ),
+      ).to.be.revertedWithCustomError(plugin, "InvalidProposalBondSettings");
+    });
+
+    it("updates the bond settings and emits `ProposalBondSettingsUpdated`", async () => {
+      await expect(setBond())
+        .to.emit(plugin, "ProposalBondSettingsUpdated")
+        .withArgs(bondToken.address, bondAmount, dao.address);
+
+      const settings = await plugin.proposalBondSettings();
+      expect(settings.token).to.eq(bondToken.address);
+      expect(settings.amount).to.eq(bondAmount);
+      expect(settings.treasury).to.eq(dao.address);
+    });
+
+    it("reverts if the caller lacks the permission", async () => {
+      await expect(
+        plugin.connect(bob).updateProposalBondSettings({
+          token: bondToken.address,
+          amount: bondAmount,
+          treasury: dao.address,
+        }),
+      )
+        .to.be.revertedWithCustomError(plugin, "DaoUnauthorized")
+        .withArgs(
+          dao.address,
+          plugin.address,
+          bob.address,
+          UPDATE_OPTIMISTIC_GOVERNANCE_SETTINGS_PERMISSION_ID,
+        );
+    });
+
+    it("reverts if a bond is required without a token or a treasury", async () => {
+      await expect(
+        plugin.updateProposalBondSettings({
+          token: ADDRESS_ZERO,
+          amount: bondAmount,
+          treasury: dao.address,
+        }),
+      ).to.be.revertedWithCustomError(plugin, "InvalidProposalBondSettings");
+      await expect(
+        plugin.updateProposalBondSettings({
+          token: bondToken.address,
+          amount: bondAmount,
+          treasury: ADDRESS_ZERO,
+        }),
+      ).to.be.revertedWithCustomError(plugin, "InvalidProposalBondSettings");
+    });
+  });
+
+  describe("Proposal creation", async () => {
+    beforeEach(async () => {
+      await setBond();
+    });
+
+    it("pulls the bond from the creator", async () => {
+      await createProposal();
+
+      expect(await bondToken.balanceOf(alice.address)).to.eq(0);
+      expect(await bondToken.balanceOf(plugin.address)).to.eq(bondAmount);
+
+      const { bond, settled } = await plugin.getProposalBond(id);
+      expect(bond.token).to.eq(bondToken.address);
+      expect(bond.amount).to.eq(bondAmount);
+      expect(bond.treasury).to.eq(dao.address);
+      expect(settled).to.be.false;
+    });
+
+    it("reverts if the creator did not approve the bond", async () => {
+      await expect(
+        plugin.createProposal(dummyMetadata, dummyActions, 0, 0, 0),
+      ).to.be.revertedWith("ERC20: insufficient allowance");
+    });
+
+    it("keeps the bond of the existing proposals when the settings change", async () => {
+      await createProposal();
+      await setBond(bondAmount * 2);
+
+      expect((await plugin.getProposalBond(id)).bond.amount).to.eq(bondAmount);
+    });
+  });
+
+  describe("Settlement", async () => {
+    beforeEach(async () => {
+      await setBond();
+    });
+
+    it("refunds the bond when the proposal is executed", async () => {
+      const proposal = await createProposal();
+      await advanceAfterVoteEnd(proposal.parameters.endDate.toNumber());
+
+      await expect(plugin.execute(id)).not.to.emit(
+        plugin,
+        "ProposalBondRefunded",
+      );
+      expect(await bondToken.balanceOf(alice.address)).to.eq(0);
+
+      await expect(plugin.connect(charlie).settleProposalBond(id))
+        .to.emit(plugin, "ProposalBondRefunded")
+        .withArgs(id, alice.address, bondAmount);
+
+      expect(await bondToken.balanceOf(alice.address)).to.eq(bondAmount);
+      expect((await plugin.getProposalBond(id)).settled).to.be.true;
+    });
+
+    it("executes the proposal even if the bond cannot be transferred", async () => {
+      const proposal = await createProposal();
+      await advanceAfterVoteEnd(proposal.parameters.endDate.toNumber());
+      await bondToken.setBalance(plugin.address, 0);
+
+      await expect(plugin.execute(id)).to.emit(plugin, "ProposalExecuted");
+
+      await expect(plugin.settleProposalBond(id)).to.be.reverted;
+      expect((await plugin.getProposalBond(id)).settled).to.be.false;
+    });
+
+    it("slashes the bond when the proposal is defeated by veto", async () => {
+      await createProposal();
+      await plugin.connect(alice).veto(id);
+
+      await expect(plugin.connect(bob).veto(id)).not.to.emit(
+        plugin,
+        "ProposalBondSlashed",
+      );
+
+      await expect(plugin.connect(charlie).settleProposalBond(id))
+        .to.emit(plugin, "ProposalBondSlashed")
+        .withArgs(id, dao.address, bondAmount);
+
+      expect(await bondToken.balanceOf(dao.address)).to.eq(bondAmount);
+      expect(await bondToken.balanceOf(alice.address)).to.eq(0);
+      expect((await plugin.getProposalBond(id)).settled).to.be.true;
+    });
+
+    it("slashes the bond when the proposal is defeated by an emergency veto", async () => {
+      await dao.grant(
+        plugin.address,
+        charlie.address,
+        EMERGENCY_VETO_PERMISSION_ID,
+      );
+      await createProposal();
+
+      await expect(plugin.connect(charlie).emergencyVeto(id)).not.to.emit(
+        plugin,
+        "ProposalBondSlashed",
+      );
+
+      await expect(plugin.settleProposalBond(id))
+        .to.emit(plugin, "ProposalBondSlashed")
+        .withArgs(id, dao.address, bondAmount);
+
+      expect(await bondToken.balanceOf(dao.address)).to.eq(bondAmount);
+      expect((await plugin.getProposalBond(id)).settled).to.be.true;
+    });
+
+    it("slashes the bond of a proposal defeated by an emergency veto without any veto after its expiration date", async () => {
+      await dao.grant(
+        plugin.address,
+        charlie.address,
+        EMERGENCY_VETO_PERMISSION_ID,
+      );
+      const proposal = await createProposal();
+      await plugin.connect(charlie).emergencyVeto(id);
+      expect((await plugin.getProposal(id)).vetoTally).to.eq(0);
+
+      await advanceTimeTo(proposal.parameters.expirationDate.toNumber());
+
+      await expect(plugin.settleProposalBond(id))
+        .to.emit(plugin, "ProposalBondSlashed")
+        .withArgs(id, dao.address, bondAmount);
+
+      expect(await bondToken.balanceOf(dao.address)).to.eq(bondAmount);
+      expect(await bondToken.balanceOf(alice.address)).to.eq(0);
+    });
+
+    describe("with a bond token refusing transfers", async () => {
+      let pausableToken: PausableERC20Mock;
+
+      beforeEach(async () => {
+        pausableToken = await new PausableERC20Mock__factory(alice).deploy();
+        await pausableToken.mint(alice.address, bondAmount);
+        await plugin.updateProposalBondSettings({
+          token: pausableToken.address,
+          amount: bondAmount,
+          treasury: dao.address,
+        });
+
+        await pausableToken.approve(plugin.address, bondAmount);
+        await plugin.createProposal(dummyMetadata, dummyActions, 0, 0, 0);
+        await pausableToken.setPaused(true);
+      });
+
+      it("defeats the proposal by veto", async () => {
+        await plugin.connect(alice).veto(id);
+
+        await expect(plugin.connect(bob).veto(id))
+          .to.emit(plugin, "ProposalDefeated")
+          .withArgs(id);
+        expect(await plugin.canExecute(id)).to.be.false;
+      });
+
+      it("defeats the proposal by an emergency veto", async () => {
+        await dao.grant(
+          plugin.address,
+          charlie.address,
+          EMERGENCY_VETO_PERMISSION_ID,
+        );
+
+        await expect(plugin.connect(charlie).emergencyVeto(id))
+          .to.emit(plugin, "EmergencyVeto")
+          .withArgs(id, charlie.address);
+        expect(await plugin.canExecute(id)).to.be.false;
+      });
+
+      it("slashes the bond once the token accepts transfers again", async () => {
+        await plugin.connect(alice).veto(id);
+        await plugin.connect(bob).veto(id);
+
+        await expect(
+          plugin.settleProposalBond(id),
+        ).to.be.revertedWithCustomError(pausableToken, "TokenPaused");
+        expect((await plugin.getProposalBond(id)).settled).to.be.false;
+
+        await pausableToken.setPaused(false);
+        await expect(plugin.settleProposalBond(id))
+          .to.emit(plugin, "ProposalBondSlashed")
+          .withArgs(id, dao.address, bondAmount);
+        expect(await pausableToken.balanceOf(dao.address)).to.eq(bondAmount);
+      });
+    });
+
+    it("refunds the bond of an expired proposal to anyone's request", async () => {
+      const proposal = await createProposal();
+      await advanceTimeTo(proposal.parameters.expirationDate.toNumber());
+
+      await expect(plugin.connect(charlie).settleProposalBond(id))
+        .to.emit(plugin, "ProposalBondRefunded")
+        .withArgs(id, alice.address, bondAmount);
+
+      expect(await bondToken.balanceOf(alice.address)).to.eq(bondAmount);
+    });
+
+    it("refunds the bond of a proposal cancelled without vetoes", async () => {
+      await dao.grant(
+        plugin.address,
+        alice.address,
+        CANCEL_PROPOSAL_PERMISSION_ID,
+      );
+      await createProposal();
+      await plugin.cancel(id);
+
+      await expect(plugin.settleProposalBond(id))
+        .to.emit(plugin, "ProposalBondRefunded")
+        .withArgs(id, alice.address, bondAmount);
+    });
+
+    it("refunds the bond of a proposal cancelled before its start date", async () => {
+      await createProposal((await getTime()) + ONE_WEEK);
+      await plugin.cancel(id);
+
+      await expect(plugin.settleProposalBond(id))
+        .to.emit(plugin, "ProposalBondRefunded")
+        .withArgs(id, alice.address, bondAmount);
+    });
+
+    it("slashes the bond of a proposal cancelled after it was vetoed", async () => {
+      await createProposal();
+      await plugin.connect(bob).veto(id);
+      expect(await plugin.isMinVetoRatioReached(id)).to.be.false;
+      await plugin.cancel(id);
+
+      await expect(plugin.settleProposalBond(id))
+        .to.emit(plugin, "ProposalBondSlashed")
+        .withArgs(id, dao.address, bondAmount);
+
+      expect(await bondToken.balanceOf(dao.address)).to.eq(bondAmount);
+      expect(await bondToken.balanceOf(alice.address)).to.eq(0);
+      await expect(plugin.settleProposalBond(id))
+        .to.be.revertedWithCustomError(
+          plugin,
+          "ProposalBondSettlementForbidden",
+        )
+        .withArgs(id);
+    });
+
+    it("does not settle the bond of an open or succeeded proposal", async () => {
+      const proposal = await createProposal();
+
+      await expect(plugin.settleProposalBond(id))
+        .to.be.revertedWithCustomError(
+          plugin,
+          "ProposalBondSettlementForbidden",
+        )
+        .withArgs(id);
+
+      await advanceAfterVoteEnd(proposal.parameters.endDate.toNumber());
+      expect(await getTime()).to.be.lessThan(
+        proposal.parameters.expirationDate.toNumber(),
+      );
+      await expect(plugin.settleProposalBond(id))
+        .to.be.revertedWithCustomError(
+          plugin,
+          "ProposalBondSettlementForbidden",
+        )
+        .withArgs(id);
+    });
+
+    it("slashes the bond of a defeated proposal after its expiration date", async () => {
+      const proposal = await createProposal();
+      await plugin.connect(alice).veto(id);
+      await plugin.connect(bob).veto(id);
+      await advanceTimeTo(proposal.parameters.expirationDate.toNumber());
+
+      await expect(plugin.settleProposalBond(id))
+        .to.emit(plugin, "ProposalBondSlashed")
+        .withArgs(id, dao.address, bondAmount);
+      expect(await bondToken.balanceOf(alice.address)).to.eq(0);
+    });
+
+    it("does not settle a bond twice", async () => {
+      const proposal = await createProposal();
+      await advanceTimeTo(proposal.parameters.expirationDate.toNumber());
+      await plugin.settleProposalBond(id);
+
+      await expect(plugin.settleProposalBond(id))
+        .to.be.revertedWithCustomError(
+          plugin,
+          "ProposalBondSettlementForbidden",
+        )
+        .withArgs(id);
+    });
+  });
+});
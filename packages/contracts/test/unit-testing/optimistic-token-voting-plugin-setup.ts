@@ -1,11 +1,15 @@
 import buildMetadata from "../../src/optimistic-token-voting-build-metadata.json";
 import {
+  ClockERC20Mock__factory,
   DAO,
+  ERC20VotesMock__factory,
+  ERC721VotesMock__factory,
   GovernanceERC20__factory,
   GovernanceWrappedERC20__factory,
   OptimisticTokenVotingPlugin__factory,
   OptimisticTokenVotingPluginSetup,
   OptimisticTokenVotingPluginSetup__factory,
+  TimestampVotesMock__factory,
 } from "../../typechain";
 import { deployTestDao } from "../helpers/test-dao";
 import { getNamedTypesFromMetadata, Operation } from "../helpers/types";
@@ -13,8 +17,11 @@ import {
   abiCoder,
   ADDRESS_ONE,
   ADDRESS_ZERO,
+  EMERGENCY_VETO_PERMISSION_ID,
   EXECUTE_PERMISSION_ID,
   NO_CONDITION,
+  NO_PROPOSAL_BOND,
+  ONE_WEEK,
   pctToRatio,
   PROPOSER_PERMISSION_ID,
   UPDATE_OPTIMISTIC_GOVERNANCE_SETTINGS_PERMISSION_ID,
@@ -65,6 +72,7 @@ describe("Main Voting Plugin Setup", function () {
           {
             minVetoRatio: pctToRatio(5),
             minDuration: 60 * 60 * 24 * 5,
+            executionWindow: 60 * 60 * 24 * 5,
             minProposerVotingPower: 0,
           },
           [alice.address],
@@ -121,6 +129,306 @@ describe("Main Voting Plugin Setup", function () {
       // initialization is correct
       expect(await myPlugin.dao()).to.eq(dao.address);
     });
+
+    it("uses a token describing its clock without wrapping it", async () => {
+      const timestampVotesMock = await new TimestampVotesMock__factory(alice)
+        .deploy();
+      const initData = abiCoder.encode(
+        getNamedTypesFromMetadata(
+          buildMetadata.pluginSetup.prepareInstallation.inputs,
+        ),
+        [
+          {
+            minVetoRatio: pctToRatio(5),
+            minDuration: ONE_WEEK,
+            executionWindow: ONE_WEEK,
+            minProposerVotingPower: 0,
+          },
+          { token: timestampVotesMock.address, name: "", symbol: "" },
+          { receivers: [], amounts: [] },
+          [alice.address],
+          [],
+          NO_PROPOSAL_BOND,
+        ],
+      );
+
+      const {
+        plugin,
+        preparedSetupData: { helpers },
+      } = await mainVotingPluginSetup.callStatic.prepareInstallation(
+        dao.address,
+        initData,
+      );
+      expect(helpers).to.deep.equal([timestampVotesMock.address]);
+
+      await mainVotingPluginSetup.prepareInstallation(dao.address, initData);
+      const myPlugin = new OptimisticTokenVotingPlugin__factory(alice).attach(
+        plugin,
+      );
+      expect(await myPlugin.getVotingToken()).to.eq(
+        timestampVotesMock.address,
+      );
+      expect(await myPlugin.CLOCK_MODE()).to.eq("mode=timestamp");
+    });
+
+    it("wraps a token describing its clock without providing voting power", async () => {
+      const clockErc20Mock = await new ClockERC20Mock__factory(alice).deploy();
+      const initData = abiCoder.encode(
+        getNamedTypesFromMetadata(
+          buildMetadata.pluginSetup.prepareInstallation.inputs,
+        ),
+        [
+          {
+            minVetoRatio: pctToRatio(5),
+            minDuration: ONE_WEEK,
+            executionWindow: ONE_WEEK,
+            minProposerVotingPower: 0,
+          },
+          { token: clockErc20Mock.address, name: "wCLK", symbol: "wCLK" },
+          { receivers: [], amounts: [] },
+          [alice.address],
+          [],
+          NO_PROPOSAL_BOND,
+        ],
+      );
+
+      const {
+        plugin,
+        preparedSetupData: { helpers },
+      } = await mainVotingPluginSetup.callStatic.prepareInstallation(
+        dao.address,
+        initData,
+      );
+      expect(helpers.length).to.be.equal(1);
+      expect(helpers[0]).to.not.eq(clockErc20Mock.address);
+
+      await mainVotingPluginSetup.prepareInstallation(dao.address, initData);
+      const wrappedToken = new GovernanceWrappedERC20__factory(alice).attach(
+        helpers[0],
+      );
+      expect(await wrappedToken.underlying()).to.eq(clockErc20Mock.address);
+      const myPlugin = new OptimisticTokenVotingPlugin__factory(alice).attach(
+        plugin,
+      );
+      expect(await myPlugin.getVotingToken()).to.eq(helpers[0]);
+      expect(await myPlugin.CLOCK_MODE()).to.eq("mode=blocknumber&from=default");
+    });
+
+    it("wraps a votes token describing a block number clock", async () => {
+      const erc20VotesMock = await new ERC20VotesMock__factory(alice).deploy();
+      expect(await erc20VotesMock.CLOCK_MODE()).to.eq(
+        "mode=blocknumber&from=default",
+      );
+      const initData = abiCoder.encode(
+        getNamedTypesFromMetadata(
+          buildMetadata.pluginSetup.prepareInstallation.inputs,
+        ),
+        [
+          {
+            minVetoRatio: pctToRatio(5),
+            minDuration: ONE_WEEK,
+            executionWindow: ONE_WEEK,
+            minProposerVotingPower: 0,
+          },
+          { token: erc20VotesMock.address, name: "wVOT", symbol: "wVOT" },
+          { receivers: [], amounts: [] },
+          [alice.address],
+          [],
+          NO_PROPOSAL_BOND,
+        ],
+      );
+
+      const {
+        preparedSetupData: { helpers },
+      } = await mainVotingPluginSetup.callStatic.prepareInstallation(
+        dao.address,
+        initData,
+      );
+      expect(helpers.length).to.be.equal(1);
+      expect(helpers[0]).to.not.eq(erc20VotesMock.address);
+
+      await mainVotingPluginSetup.prepareInstallation(dao.address, initData);
+      const wrappedToken = new GovernanceWrappedERC20__factory(alice).attach(
+        helpers[0],
+      );
+      expect(await wrappedToken.underlying()).to.eq(erc20VotesMock.address);
+    });
+
+    it("uses an NFT with voting power without wrapping it", async () => {
+      const erc721VotesMock = await new ERC721VotesMock__factory(alice)
+        .deploy();
+      const initData = abiCoder.encode(
+        getNamedTypesFromMetadata(
+          buildMetadata.pluginSetup.prepareInstallation.inputs,
+        ),
+        [
+          {
+            minVetoRatio: pctToRatio(5),
+            minDuration: ONE_WEEK,
+            executionWindow: ONE_WEEK,
+            minProposerVotingPower: 1,
+          },
+          { token: erc721VotesMock.address, name: "", symbol: "" },
+          { receivers: [], amounts: [] },
+          [alice.address],
+          [],
+          NO_PROPOSAL_BOND,
+        ],
+      );
+
+      const {
+        plugin,
+        preparedSetupData: { helpers },
+      } = await mainVotingPluginSetup.callStatic.prepareInstallation(
+        dao.address,
+        initData,
+      );
+      expect(helpers).to.deep.equal([erc721VotesMock.address]);
+
+      await mainVotingPluginSetup.prepareInstallation(dao.address, initData);
+      const myPlugin = new OptimisticTokenVotingPlugin__factory(alice).attach(
+        plugin,
+      );
+      expect(await myPlugin.getVotingToken()).to.eq(erc721VotesMock.address);
+
+      await erc721VotesMock.mint(bob.address, 1);
+      expect(await myPlugin.isMember(bob.address)).to.be.true;
+    });
+
+    it("grants the emergency veto permission to the guardians", async () => {
+      const timestampVotesMock = await new TimestampVotesMock__factory(alice)
+        .deploy();
+      const initData = abiCoder.encode(
+        getNamedTypesFromMetadata(
+          buildMetadata.pluginSetup.prepareInstallation.inputs,
+        ),
+        [
+          {
+            minVetoRatio: pctToRatio(5),
+            minDuration: ONE_WEEK,
+            executionWindow: ONE_WEEK,
+            minProposerVotingPower: 0,
+          },
+          { token: timestampVotesMock.address, name: "", symbol: "" },
+          { receivers: [], amounts: [] },
+          [alice.address],
+          [bob.address],
+          NO_PROPOSAL_BOND,
+        ],
+      );
+
+      const {
+        plugin,
+        preparedSetupData: { permissions },
+      } = await mainVotingPluginSetup.callStatic.prepareInstallation(
+        dao.address,
+        initData,
+      );
+
+      expect(permissions.length).to.be.equal(5);
+      expect(permissions[3]).to.deep.equal([
+        Operation.Grant,
+        plugin,
+        alice.address,
+        NO_CONDITION,
+        PROPOSER_PERMISSION_ID,
+      ]);
+      expect(permissions[4]).to.deep.equal([
+        Operation.Grant,
+        plugin,
+        bob.address,
+        NO_CONDITION,
+        EMERGENCY_VETO_PERMISSION_ID,
+      ]);
+    });
+    it("initializes the plugin with the bond settings", async () => {
+      const timestampVotesMock = await new TimestampVotesMock__factory(alice)
+        .deploy();
+      const initData = abiCoder.encode(
+        getNamedTypesFromMetadata(
+          buildMetadata.pluginSetup.prepareInstallation.inputs,
+        ),
+        [
+          {
+            minVetoRatio: pctToRatio(5),
+            minDuration: ONE_WEEK,
+            executionWindow: ONE_WEEK,
+            minProposerVotingPower: 0,
+          },
+          { token: timestampVotesMock.address, name: "", symbol: "" },
+          { receivers: [], amounts: [] },
+          [alice.address],
+          [],
+          {
+            token: timestampVotesMock.address,
+            amount: 10,
+            treasury: dao.address,
+          },
+        ],
+      );
+
+      const { plugin } = await mainVotingPluginSetup.callStatic
+        .prepareInstallation(dao.address, initData);
+      await mainVotingPluginSetup.prepareInstallation(dao.address, initData);
+      const myPlugin = new OptimisticTokenVotingPlugin__factory(alice).attach(
+        plugin,
+      );
+
+      const bondSettings = await myPlugin.proposalBondSettings();
+      expect(bondSettings.token).to.eq(timestampVotesMock.address);
+      expect(bondSettings.amount).to.eq(10);
+      expect(bondSettings.treasury).to.eq(dao.address);
+    });
+  });
+
+  describe("prepareUpdate", async () => {
+    it("reinitializes the plugin with the execution window when updating from build 1", async () => {
+      const plugin = await new OptimisticTokenVotingPlugin__factory(alice)
+        .deploy();
+
+      const updateData = abiCoder.encode(
+        getNamedTypesFromMetadata(
+          buildMetadata.pluginSetup.prepareUpdate[1].inputs,
+        ),
+        [ONE_WEEK],
+      );
+      const result = await mainVotingPluginSetup.callStatic.prepareUpdate(
+        dao.address,
+        1,
+        {
+          plugin: plugin.address,
+          currentHelpers: [ADDRESS_ONE],
+          data: updateData,
+        },
+      );
+
+      expect(result.initData).to.equal(
+        plugin.interface.encodeFunctionData("initializeFrom", [
+          1,
+          updateData,
+        ]),
+      );
+      expect(result.preparedSetupData.helpers).to.deep.equal([ADDRESS_ONE]);
+      expect(result.preparedSetupData.permissions).to.be.empty;
+    });
+
+    it("does not reinitialize the plugin when updating from build 2", async () => {
+      const plugin = await new OptimisticTokenVotingPlugin__factory(alice)
+        .deploy();
+
+      const result = await mainVotingPluginSetup.callStatic.prepareUpdate(
+        dao.address,
+        2,
+        {
+          plugin: plugin.address,
+          currentHelpers: [ADDRESS_ONE],
+          data: "0x",
+        },
+      );
+
+      expect(result.initData).to.equal("0x");
+      expect(result.preparedSetupData.helpers).to.deep.equal([ADDRESS_ONE]);
+    });
   });
 
   describe("prepareUninstallation", async () => {
@@ -132,7 +440,7 @@ describe("Main Voting Plugin Setup", function () {
         getNamedTypesFromMetadata(
           buildMetadata.pluginSetup.prepareUninstallation.inputs,
         ),
-        [],
+        [[]],
       );
       const permissions = await mainVotingPluginSetup.callStatic
         .prepareUninstallation(
@@ -169,5 +477,112 @@ describe("Main Voting Plugin Setup", function () {
         ],
       ]);
     });
+
+    describe("with guardians", async () => {
+      let plugin: string;
+      let token: string;
+
+      function encodeUninstallData(guardians: string[]) {
+        return abiCoder.encode(
+          getNamedTypesFromMetadata(
+            buildMetadata.pluginSetup.prepareUninstallation.inputs,
+          ),
+          [guardians],
+        );
+      }
+
+      beforeEach(async () => {
+        const timestampVotesMock = await new TimestampVotesMock__factory(alice)
+          .deploy();
+        token = timestampVotesMock.address;
+        const initData = abiCoder.encode(
+          getNamedTypesFromMetadata(
+            buildMetadata.pluginSetup.prepareInstallation.inputs,
+          ),
+          [
+            {
+              minVetoRatio: pctToRatio(5),
+              minDuration: ONE_WEEK,
+              executionWindow: ONE_WEEK,
+              minProposerVotingPower: 0,
+            },
+            { token, name: "", symbol: "" },
+            { receivers: [], amounts: [] },
+            [alice.address],
+            [alice.address, bob.address],
+            NO_PROPOSAL_BOND,
+          ],
+        );
+
+        ({ plugin } = await mainVotingPluginSetup.callStatic
+          .prepareInstallation(dao.address, initData));
+        await mainVotingPluginSetup.prepareInstallation(dao.address, initData);
+      });
+
+      it("keeps the guardians given at the installation", async () => {
+        expect(await mainVotingPluginSetup.getInstalledGuardians(plugin)).to
+          .deep.equal([alice.address, bob.address]);
+      });
+
+      it("revokes the emergency veto permission of the guardians", async () => {
+        const permissions = await mainVotingPluginSetup.callStatic
+          .prepareUninstallation(
+            dao.address,
+            {
+              plugin,
+              currentHelpers: [token],
+              data: encodeUninstallData([alice.address, bob.address]),
+            },
+          );
+
+        expect(permissions.length).to.be.equal(5);
+        expect(permissions[3]).to.deep.equal([
+          Operation.Revoke,
+          plugin,
+          alice.address,
+          NO_CONDITION,
+          EMERGENCY_VETO_PERMISSION_ID,
+        ]);
+        expect(permissions[4]).to.deep.equal([
+          Operation.Revoke,
+          plugin,
+          bob.address,
+          NO_CONDITION,
+          EMERGENCY_VETO_PERMISSION_ID,
+        ]);
+      });
+
+      it("reverts if the guardians are not given", async () => {
+        await expect(
+          mainVotingPluginSetup.callStatic.prepareUninstallation(
+            dao.address,
+            { plugin, currentHelpers: [token], data: "0x" },
+          ),
+        )
+          .to.be.revertedWithCustomError(
+            mainVotingPluginSetup,
+            "GuardiansMismatch",
+          )
+          .withArgs(plugin);
+      });
+
+      it("reverts if a guardian is left out", async () => {
+        await expect(
+          mainVotingPluginSetup.callStatic.prepareUninstallation(
+            dao.address,
+            {
+              plugin,
+              currentHelpers: [token],
+              data: encodeUninstallData([alice.address]),
+            },
+          ),
+        )
+          .to.be.revertedWithCustomError(
+            mainVotingPluginSetup,
+            "GuardiansMismatch",
+          )
+          .withArgs(plugin);
+      });
+    });
   });
 });
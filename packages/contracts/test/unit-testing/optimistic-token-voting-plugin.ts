@@ -6,6 +6,8 @@ import { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
 import {
   DAO,
   DAO__factory,
+  ERC721VotesMock,
+  ERC721VotesMock__factory,
   IERC165Upgradeable__factory,
   IMembership__factory,
   IOptimisticTokenVoting__factory,
@@ -13,6 +15,8 @@ import {
   IProposal__factory,
   OptimisticTokenVotingPlugin,
   OptimisticTokenVotingPlugin__factory,
+  TimestampVotesMock,
+  TimestampVotesMock__factory,
 } from "../../typechain";
 import {
   GovernanceERC20Mock,
@@ -28,13 +32,22 @@ import {
   ADDRESS_ONE,
   advanceAfterVoteEnd,
   advanceIntoVoteTime,
+  advanceTimeTo,
+  CANCEL_PROPOSAL_PERMISSION_ID,
+  CLOCK_MODE_BLOCK_NUMBER,
+  CLOCK_MODE_TIMESTAMP,
+  EMERGENCY_VETO_PERMISSION_ID,
   getTime,
   MAX_UINT64,
+  NO_PROPOSAL_BOND,
+  ONE_DAY,
   ONE_WEEK,
   OptimisticGovernanceSettings,
   pctToRatio,
   PROPOSER_PERMISSION_ID,
   RATIO_BASE,
+  ROOT_PERMISSION_ID,
+  UPDATE_OPTIMISTIC_GOVERNANCE_SETTINGS_PERMISSION_ID,
 } from "./common";
 import { deployWithProxy, findEvent, toBytes32 } from "../../utils/helpers";
 import { deployTestDao } from "../helpers/test-dao";
@@ -43,9 +56,9 @@ import { getInterfaceID } from "../../utils/interfaces";
 import { start } from "repl";
 
 export const optimisticTokenVotingInterface = new ethers.utils.Interface([
-  "function initialize(address,tuple(uint32,uint64,uint256),address)",
+  "function initialize(address,tuple(uint32,uint64,uint64,uint256),address,tuple(address,uint256,address))",
   "function getProposal(uint256)",
-  "function updateOptimisticGovernanceSettings(tuple(uint32,uint64,uint256))",
+  "function updateOptimisticGovernanceSettings(tuple(uint32,uint64,uint64,uint256))",
 ]);
 
 describe("OptimisticTokenVotingPlugin", function () {
@@ -90,6 +103,7 @@ describe("OptimisticTokenVotingPlugin", function () {
     governanceSettings = {
       minVetoRatio: pctToRatio(5),
       minDuration: ONE_WEEK,
+      executionWindow: ONE_WEEK,
       minProposerVotingPower: 0,
     };
 
@@ -166,6 +180,7 @@ describe("OptimisticTokenVotingPlugin", function () {
         dao.address,
         governanceSettings,
         governanceErc20Mock.address,
+        NO_PROPOSAL_BOND,
       );
 
       await expect(
@@ -173,6 +188,23 @@ describe("OptimisticTokenVotingPlugin", function () {
           dao.address,
           governanceSettings,
           governanceErc20Mock.address,
+          NO_PROPOSAL_BOND,
+        ),
+      ).to.be.revertedWith("Initializable: contract is already initialized");
+    });
+
+    it("cannot be reinitialized from a previous build after being initialized", async () => {
+      await plugin.initialize(
+        dao.address,
+        governanceSettings,
+        governanceErc20Mock.address,
+        NO_PROPOSAL_BOND,
+      );
+
+      await expect(
+        plugin.initializeFrom(
+          1,
+          ethers.utils.defaultAbiCoder.encode(["uint64"], [ONE_DAY]),
         ),
       ).to.be.revertedWith("Initializable: contract is already initialized");
     });
@@ -183,6 +215,7 @@ describe("OptimisticTokenVotingPlugin", function () {
           dao.address,
           governanceSettings,
           governanceErc20Mock.address,
+          NO_PROPOSAL_BOND,
         ),
       )
         .to.emit(plugin, "MembershipContractAnnounced")
@@ -222,7 +255,7 @@ describe("OptimisticTokenVotingPlugin", function () {
 
     it("supports the `OptimisticTokenVotingPlugin` interface", async () => {
       const iface = getInterfaceID(optimisticTokenVotingInterface);
-      expect(iface).to.equal("0x2dc714cc"); // checks that it didn't change
+      expect(iface).to.equal("0xa2ba70b7"); // checks that it didn't change
 
       expect(await plugin.supportsInterface(iface)).to.be.true;
     });
@@ -234,6 +267,7 @@ describe("OptimisticTokenVotingPlugin", function () {
         dao.address,
         governanceSettings,
         governanceErc20Mock.address,
+        NO_PROPOSAL_BOND,
       );
 
       await setBalances([{ receiver: alice.address, amount: 1 }]);
@@ -252,6 +286,7 @@ describe("OptimisticTokenVotingPlugin", function () {
         dao.address,
         governanceSettings,
         governanceErc20Mock.address,
+        NO_PROPOSAL_BOND,
       );
 
       await setBalances([{ receiver: alice.address, amount: 1 }]);
@@ -283,6 +318,7 @@ describe("OptimisticTokenVotingPlugin", function () {
           dao.address,
           governanceSettings,
           governanceErc20Mock.address,
+          NO_PROPOSAL_BOND,
         );
       });
 
@@ -321,6 +357,7 @@ describe("OptimisticTokenVotingPlugin", function () {
           dao.address,
           governanceSettings,
           governanceErc20Mock.address,
+          NO_PROPOSAL_BOND,
         );
       });
 
@@ -446,7 +483,7 @@ describe("OptimisticTokenVotingPlugin", function () {
 
         // Check that the snapshot block stored in the proposal struct
         const proposal = await plugin.getProposal(id);
-        expect(proposal.parameters.snapshotBlock).to.equal(
+        expect(proposal.parameters.snapshotTimepoint).to.equal(
           expectedSnapshotBlockNumber,
         );
 
@@ -661,6 +698,7 @@ describe("OptimisticTokenVotingPlugin", function () {
         dao.address,
         governanceSettings,
         governanceErc20Mock.address,
+        NO_PROPOSAL_BOND,
       );
 
       await expect(
@@ -679,6 +717,7 @@ describe("OptimisticTokenVotingPlugin", function () {
         dao.address,
         governanceSettings,
         governanceErc20Mock.address,
+        NO_PROPOSAL_BOND,
       );
 
       const currentDate = await getTime();
@@ -706,6 +745,7 @@ describe("OptimisticTokenVotingPlugin", function () {
         dao.address,
         governanceSettings,
         governanceErc20Mock.address,
+        NO_PROPOSAL_BOND,
       );
 
       const latestStartDate = MAX_UINT64.sub(governanceSettings.minDuration);
@@ -728,6 +768,7 @@ describe("OptimisticTokenVotingPlugin", function () {
         dao.address,
         governanceSettings,
         governanceErc20Mock.address,
+        NO_PROPOSAL_BOND,
       );
 
       const startDate = (await getTime()) + 1;
@@ -752,6 +793,7 @@ describe("OptimisticTokenVotingPlugin", function () {
         dao.address,
         governanceSettings,
         governanceErc20Mock.address,
+        NO_PROPOSAL_BOND,
       );
 
       // Create a proposal with zero as an input for `_startDate` and `_endDate`
@@ -803,6 +845,7 @@ describe("OptimisticTokenVotingPlugin", function () {
         dao.address,
         governanceSettings,
         governanceErc20Mock.address,
+        NO_PROPOSAL_BOND,
       );
 
       const tx = await plugin.createProposal(
@@ -831,6 +874,7 @@ describe("OptimisticTokenVotingPlugin", function () {
         dao.address,
         governanceSettings,
         governanceErc20Mock.address,
+        NO_PROPOSAL_BOND,
       );
 
       const tx = await plugin.createProposal(
@@ -854,12 +898,14 @@ describe("OptimisticTokenVotingPlugin", function () {
       governanceSettings = {
         minVetoRatio: pctToRatio(15), // 15%
         minDuration: ONE_WEEK,
+        executionWindow: ONE_WEEK,
         minProposerVotingPower: 0,
       };
       await plugin.initialize(
         dao.address,
         governanceSettings,
         governanceErc20Mock.address,
+        NO_PROPOSAL_BOND,
       );
 
       const allowFailureMap = 1;
@@ -899,13 +945,17 @@ describe("OptimisticTokenVotingPlugin", function () {
       expect(proposal.allowFailureMap).to.equal(allowFailureMap);
 
       expect(proposal.parameters.minVetoVotingPower).to.equal(2); // 15% of 10 tokens ceiled => 2
-      expect(proposal.parameters.snapshotBlock).to.equal(block.number - 1);
+      expect(proposal.parameters.snapshotTimepoint).to.equal(block.number - 1);
+      expect(proposal.parameters.clockMode).to.equal(CLOCK_MODE_BLOCK_NUMBER);
       expect(
         proposal.parameters.startDate.add(governanceSettings.minDuration),
       ).to.equal(proposal.parameters.endDate);
+      expect(
+        proposal.parameters.endDate.add(governanceSettings.executionWindow),
+      ).to.equal(proposal.parameters.expirationDate);
 
       expect(
-        await plugin.totalVotingPower(proposal.parameters.snapshotBlock),
+        await plugin.totalVotingPower(proposal.parameters.snapshotTimepoint),
       ).to.equal(10);
       expect(proposal.vetoTally).to.equal(0);
 
@@ -1020,6 +1070,925 @@ describe("OptimisticTokenVotingPlugin", function () {
   //   it("should revert if executing before the end date");
   // });
 
+  describe("Execution window", async () => {
+    it("reverts if the execution window is shorter than one day", async () => {
+      governanceSettings.executionWindow = ONE_DAY - 1;
+
+      await expect(
+        plugin.initialize(
+          dao.address,
+          governanceSettings,
+          governanceErc20Mock.address,
+          NO_PROPOSAL_BOND,
+        ),
+      )
+        .to.be.revertedWithCustomError(plugin, "ExecutionWindowOutOfBounds")
+        .withArgs(ONE_DAY, ONE_DAY - 1);
+    });
+
+    it("reverts if the execution window is longer than one year", async () => {
+      governanceSettings.executionWindow = 365 * ONE_DAY + 1;
+
+      await expect(
+        plugin.initialize(
+          dao.address,
+          governanceSettings,
+          governanceErc20Mock.address,
+          NO_PROPOSAL_BOND,
+        ),
+      )
+        .to.be.revertedWithCustomError(plugin, "ExecutionWindowOutOfBounds")
+        .withArgs(365 * ONE_DAY, 365 * ONE_DAY + 1);
+    });
+
+    describe("once the proposal has ended", async () => {
+      beforeEach(async () => {
+        await plugin.initialize(
+          dao.address,
+          governanceSettings,
+          governanceErc20Mock.address,
+          NO_PROPOSAL_BOND,
+        );
+
+        await setBalances([{ receiver: alice.address, amount: 10 }]);
+
+        await plugin.createProposal(
+          dummyMetadata,
+          dummyActions,
+          0,
+          startDate,
+          endDate,
+        );
+      });
+
+      it("can execute until the expiration date", async () => {
+        const expirationDate = endDate + governanceSettings.executionWindow;
+        expect((await plugin.getProposal(id)).parameters.expirationDate).to
+          .equal(expirationDate);
+
+        await advanceTimeTo(expirationDate - 2);
+        expect(await plugin.canExecute(id)).to.be.true;
+        await expect(plugin.execute(id)).to.not.be.reverted;
+      });
+
+      it("cannot execute from the expiration date on", async () => {
+        const expirationDate = endDate + governanceSettings.executionWindow;
+        await advanceTimeTo(expirationDate);
+
+        expect(await plugin.canExecute(id)).to.be.false;
+        await expect(plugin.execute(id))
+          .to.be.revertedWithCustomError(plugin, "ProposalExecutionForbidden")
+          .withArgs(id);
+      });
+    });
+  });
+
+  describe("Action durations", async () => {
+    const TWO_WEEKS = 2 * ONE_WEEK;
+    let upgradeAction: { to: string; value: number; data: string };
+
+    beforeEach(async () => {
+      await plugin.initialize(
+        dao.address,
+        governanceSettings,
+        governanceErc20Mock.address,
+        NO_PROPOSAL_BOND,
+      );
+
+      await setBalances([{ receiver: alice.address, amount: 10 }]);
+
+      await dao.grant(
+        plugin.address,
+        alice.address,
+        UPDATE_OPTIMISTIC_GOVERNANCE_SETTINGS_PERMISSION_ID,
+      );
+
+      upgradeAction = {
+        to: dao.address,
+        value: 0,
+        data: dao.interface.encodeFunctionData("upgradeTo", [ADDRESS_ONE]),
+      };
+    });
+
+    it("reverts if the sender lacks the permission to set an action duration", async () => {
+      await expect(
+        plugin.connect(bob).setActionDuration(
+          dao.address,
+          dao.interface.getSighash("upgradeTo"),
+          TWO_WEEKS,
+        ),
+      ).to.be.revertedWithCustomError(plugin, "DaoUnauthorized");
+    });
+
+    it("reverts if the action duration is longer than one year", async () => {
+      await expect(
+        plugin.setActionDuration(
+          dao.address,
+          dao.interface.getSighash("upgradeTo"),
+          365 * ONE_DAY + 1,
+        ),
+      )
+        .to.be.revertedWithCustomError(plugin, "ActionDurationOutOfBounds")
+        .withArgs(365 * ONE_DAY, 365 * ONE_DAY + 1);
+    });
+
+    it("sets and removes the duration of an action", async () => {
+      const selector = dao.interface.getSighash("upgradeTo");
+
+      await expect(plugin.setActionDuration(dao.address, selector, TWO_WEEKS))
+        .to.emit(plugin, "ActionDurationUpdated")
+        .withArgs(dao.address, selector, TWO_WEEKS);
+      expect(await plugin.actionDuration(dao.address, selector)).to.equal(
+        TWO_WEEKS,
+      );
+
+      await plugin.setActionDuration(dao.address, selector, 0);
+      expect(await plugin.effectiveMinDuration([upgradeAction])).to.equal(
+        governanceSettings.minDuration,
+      );
+    });
+
+    it("uses the longest of `minDuration` and the durations of the actions", async () => {
+      await plugin.setActionDuration(
+        dao.address,
+        dao.interface.getSighash("upgradeTo"),
+        TWO_WEEKS,
+      );
+      // Shorter than `minDuration`, so it has no effect
+      await plugin.setActionDuration(
+        dao.address,
+        dao.interface.getSighash("grant"),
+        ONE_DAY,
+      );
+      const grantAction = {
+        to: dao.address,
+        value: 0,
+        data: dao.interface.encodeFunctionData("grant", [
+          dao.address,
+          alice.address,
+          ROOT_PERMISSION_ID,
+        ]),
+      };
+
+      expect(await plugin.effectiveMinDuration([])).to.equal(
+        governanceSettings.minDuration,
+      );
+      expect(await plugin.effectiveMinDuration([grantAction])).to.equal(
+        governanceSettings.minDuration,
+      );
+      expect(await plugin.effectiveMinDuration(dummyActions)).to.equal(
+        governanceSettings.minDuration,
+      );
+      expect(
+        await plugin.effectiveMinDuration([grantAction, upgradeAction]),
+      ).to.equal(TWO_WEEKS);
+    });
+
+    it("ignores the overrides of the same selector on other contracts", async () => {
+      await plugin.setActionDuration(
+        plugin.address,
+        dao.interface.getSighash("upgradeTo"),
+        TWO_WEEKS,
+      );
+
+      expect(await plugin.effectiveMinDuration([upgradeAction])).to.equal(
+        governanceSettings.minDuration,
+      );
+    });
+
+    it("requires the duration of the actions when creating a proposal", async () => {
+      await plugin.setActionDuration(
+        dao.address,
+        dao.interface.getSighash("upgradeTo"),
+        TWO_WEEKS,
+      );
+
+      const startDate = (await getTime()) + 1;
+      const earliestEndDate = startDate + TWO_WEEKS;
+      await expect(
+        plugin.createProposal(
+          dummyMetadata,
+          [upgradeAction],
+          0,
+          startDate,
+          earliestEndDate - 1,
+        ),
+      )
+        .to.be.revertedWithCustomError(plugin, "DateOutOfBounds")
+        .withArgs(earliestEndDate, earliestEndDate - 1);
+
+      // The end date defaults to the earliest one
+      await plugin.createProposal(
+        dummyMetadata,
+        [upgradeAction],
+        0,
+        startDate,
+        0,
+      );
+      expect((await plugin.getProposal(id)).parameters.endDate).to.equal(
+        earliestEndDate,
+      );
+    });
+  });
+
+  describe("Vetoing with a reason", async () => {
+    beforeEach(async () => {
+      await plugin.initialize(
+        dao.address,
+        governanceSettings,
+        governanceErc20Mock.address,
+        NO_PROPOSAL_BOND,
+      );
+
+      await setBalances([
+        { receiver: alice.address, amount: 10 },
+        { receiver: bob.address, amount: 10 },
+      ]);
+
+      await plugin.createProposal(dummyMetadata, dummyActions, 0, 0, 0);
+    });
+
+    it("emits `VetoReason` after `VetoCast`", async () => {
+      await expect(plugin.connect(bob).vetoWithReason(id, "Too risky"))
+        .to.emit(plugin, "VetoCast")
+        .withArgs(id, bob.address, 10)
+        .and.to.emit(plugin, "VetoReason")
+        .withArgs(id, bob.address, "Too risky");
+
+      expect(await plugin.hasVetoed(id, bob.address)).to.be.true;
+    });
+
+    it("reverts if the voter cannot veto", async () => {
+      await expect(plugin.connect(charlie).vetoWithReason(id, "Too risky"))
+        .to.be.revertedWithCustomError(plugin, "ProposalVetoingForbidden")
+        .withArgs(id, charlie.address);
+    });
+  });
+
+  describe("Vetoing many proposals", async () => {
+    beforeEach(async () => {
+      await plugin.initialize(
+        dao.address,
+        governanceSettings,
+        governanceErc20Mock.address,
+        NO_PROPOSAL_BOND,
+      );
+
+      await setBalances([
+        { receiver: alice.address, amount: 10 },
+        { receiver: bob.address, amount: 10 },
+      ]);
+
+      // Proposals 0 and 1 are open, proposal 2 starts later
+      await plugin.createProposal(dummyMetadata, dummyActions, 0, 0, 0);
+      await plugin.createProposal(dummyMetadata, dummyActions, 0, 0, 0);
+      await plugin.createProposal(
+        dummyMetadata,
+        dummyActions,
+        0,
+        startDate,
+        endDate,
+      );
+    });
+
+    it("vetoes every proposal that can be vetoed and skips the others", async () => {
+      await plugin.connect(bob).veto(1);
+
+      const tx = plugin.connect(bob).vetoMany([0, 1, 2]);
+      await expect(tx)
+        .to.emit(plugin, "VetoCast")
+        .withArgs(0, bob.address, 10);
+      await expect(tx)
+        .to.emit(plugin, "VetoSkipped")
+        .withArgs(1, bob.address);
+      await expect(tx)
+        .to.emit(plugin, "VetoSkipped")
+        .withArgs(2, bob.address);
+
+      expect(await plugin.hasVetoed(0, bob.address)).to.be.true;
+      expect(await plugin.hasVetoed(2, bob.address)).to.be.false;
+    });
+
+    it("does not revert if no proposal can be vetoed", async () => {
+      const tx = plugin.connect(charlie).vetoMany([0, 1]);
+      await expect(tx)
+        .to.emit(plugin, "VetoSkipped")
+        .withArgs(0, charlie.address);
+      await expect(tx).to.not.emit(plugin, "VetoCast");
+    });
+  });
+
+  describe("Vetoing by signature", async () => {
+    let deadline: number;
+
+    async function signVeto(
+      signer: SignerWithAddress,
+      proposalId: number,
+      voter: string,
+      nonce: number,
+      deadline: number,
+    ) {
+      const { chainId } = await ethers.provider.getNetwork();
+      return signer._signTypedData(
+        {
+          name: "OptimisticTokenVotingPlugin",
+          version: "1",
+          chainId,
+          verifyingContract: plugin.address,
+        },
+        {
+          Veto: [
+            { name: "proposalId", type: "uint256" },
+            { name: "voter", type: "address" },
+            { name: "nonce", type: "uint256" },
+            { name: "deadline", type: "uint256" },
+          ],
+        },
+        { proposalId, voter, nonce, deadline },
+      );
+    }
+
+    beforeEach(async () => {
+      await plugin.initialize(
+        dao.address,
+        governanceSettings,
+        governanceErc20Mock.address,
+        NO_PROPOSAL_BOND,
+      );
+
+      await setBalances([
+        { receiver: alice.address, amount: 10 },
+        { receiver: bob.address, amount: 10 },
+      ]);
+
+      await plugin.createProposal(dummyMetadata, dummyActions, 0, 0, 0);
+      deadline = (await getTime()) + 60 * 60;
+    });
+
+    it("credits the voting power of the signer and emits `VetoCast`", async () => {
+      const signature = await signVeto(bob, id, bob.address, 0, deadline);
+
+      // Anyone can relay the signed veto
+      await expect(
+        plugin.connect(charlie).vetoBySig(id, bob.address, deadline, signature),
+      )
+        .to.emit(plugin, "VetoCast")
+        .withArgs(id, bob.address, 10);
+
+      expect(await plugin.hasVetoed(id, bob.address)).to.be.true;
+      expect(await plugin.hasVetoed(id, charlie.address)).to.be.false;
+      expect((await plugin.getProposal(id)).vetoTally).to.equal(10);
+      expect(await plugin.vetoNonce(bob.address)).to.equal(1);
+    });
+
+    it("reverts if the signature is replayed", async () => {
+      const signature = await signVeto(bob, id, bob.address, 0, deadline);
+      await plugin.vetoBySig(id, bob.address, deadline, signature);
+
+      await expect(plugin.vetoBySig(id, bob.address, deadline, signature))
+        .to.be.revertedWithCustomError(plugin, "InvalidVetoSignature")
+        .withArgs(bob.address);
+    });
+
+    it("reverts if the signature was not made by the voter", async () => {
+      const signature = await signVeto(alice, id, bob.address, 0, deadline);
+
+      await expect(plugin.vetoBySig(id, bob.address, deadline, signature))
+        .to.be.revertedWithCustomError(plugin, "InvalidVetoSignature")
+        .withArgs(bob.address);
+    });
+
+    it("reverts if the deadline has passed", async () => {
+      const signature = await signVeto(bob, id, bob.address, 0, deadline);
+      await advanceTimeTo(deadline + 1);
+
+      await expect(plugin.vetoBySig(id, bob.address, deadline, signature))
+        .to.be.revertedWithCustomError(plugin, "VetoSignatureExpired")
+        .withArgs(deadline);
+    });
+
+    it("reverts if the voter cannot veto", async () => {
+      await plugin.connect(bob).veto(id);
+      const signature = await signVeto(bob, id, bob.address, 0, deadline);
+
+      await expect(plugin.vetoBySig(id, bob.address, deadline, signature))
+        .to.be.revertedWithCustomError(plugin, "ProposalVetoingForbidden")
+        .withArgs(id, bob.address);
+    });
+  });
+
+  describe("Cancelling", async () => {
+    beforeEach(async () => {
+      await plugin.initialize(
+        dao.address,
+        governanceSettings,
+        governanceErc20Mock.address,
+        NO_PROPOSAL_BOND,
+      );
+
+      await setBalances([
+        { receiver: alice.address, amount: 10 },
+        { receiver: bob.address, amount: 10 },
+      ]);
+
+      await plugin.createProposal(
+        dummyMetadata,
+        dummyActions,
+        0,
+        startDate,
+        endDate,
+      );
+    });
+
+    it("allows the creator to cancel the proposal", async () => {
+      await expect(plugin.cancel(id))
+        .to.emit(plugin, "ProposalCancelled")
+        .withArgs(id);
+
+      const proposal = await plugin.getProposal(id);
+      expect(proposal.cancelled).to.be.true;
+      expect(proposal.open).to.be.false;
+    });
+
+    it("allows an account with the `CANCEL_PROPOSAL_PERMISSION_ID` permission to cancel the proposal", async () => {
+      await dao.grant(
+        plugin.address,
+        bob.address,
+        CANCEL_PROPOSAL_PERMISSION_ID,
+      );
+
+      await expect(plugin.connect(bob).cancel(id))
+        .to.emit(plugin, "ProposalCancelled")
+        .withArgs(id);
+    });
+
+    it("reverts if the sender is neither the creator nor has the `CANCEL_PROPOSAL_PERMISSION_ID` permission", async () => {
+      await expect(plugin.connect(bob).cancel(id))
+        .to.be.revertedWithCustomError(plugin, "ProposalCancellationForbidden")
+        .withArgs(id, bob.address);
+    });
+
+    it("reverts if the proposal does not exist", async () => {
+      await expect(plugin.cancel(id + 1))
+        .to.be.revertedWithCustomError(plugin, "NonexistentProposal")
+        .withArgs(id + 1);
+    });
+
+    it("reverts if the proposal is already cancelled", async () => {
+      await plugin.cancel(id);
+
+      await expect(plugin.cancel(id))
+        .to.be.revertedWithCustomError(plugin, "ProposalCancellationForbidden")
+        .withArgs(id, alice.address);
+    });
+
+    it("reverts if the proposal is already executed", async () => {
+      await advanceAfterVoteEnd(endDate);
+      await plugin.execute(id);
+
+      await expect(plugin.cancel(id))
+        .to.be.revertedWithCustomError(plugin, "ProposalCancellationForbidden")
+        .withArgs(id, alice.address);
+    });
+
+    it("reverts if the proposal has ended", async () => {
+      await dao.grant(
+        plugin.address,
+        bob.address,
+        CANCEL_PROPOSAL_PERMISSION_ID,
+      );
+      await advanceAfterVoteEnd(endDate);
+      expect(await plugin.canExecute(id)).to.be.true;
+
+      await expect(plugin.cancel(id))
+        .to.be.revertedWithCustomError(plugin, "ProposalCancellationForbidden")
+        .withArgs(id, alice.address);
+      await expect(plugin.connect(bob).cancel(id))
+        .to.be.revertedWithCustomError(plugin, "ProposalCancellationForbidden")
+        .withArgs(id, bob.address);
+    });
+
+    it("reverts if the proposal has expired", async () => {
+      const proposal = await plugin.getProposal(id);
+      await advanceTimeTo(proposal.parameters.expirationDate.toNumber());
+      expect(await plugin.canExecute(id)).to.be.false;
+
+      await expect(plugin.cancel(id))
+        .to.be.revertedWithCustomError(plugin, "ProposalCancellationForbidden")
+        .withArgs(id, alice.address);
+    });
+
+    it("does not allow vetoing a cancelled proposal", async () => {
+      await advanceIntoVoteTime(startDate, endDate);
+      expect(await plugin.canVeto(id, bob.address)).to.be.true;
+
+      await plugin.cancel(id);
+
+      expect(await plugin.canVeto(id, bob.address)).to.be.false;
+      await expect(plugin.connect(bob).veto(id))
+        .to.be.revertedWithCustomError(plugin, "ProposalVetoingForbidden")
+        .withArgs(id, bob.address);
+    });
+
+    it("does not allow executing a cancelled proposal", async () => {
+      await plugin.cancel(id);
+      await advanceAfterVoteEnd(endDate);
+
+      expect(await plugin.canExecute(id)).to.be.false;
+      await expect(plugin.execute(id))
+        .to.be.revertedWithCustomError(plugin, "ProposalExecutionForbidden")
+        .withArgs(id);
+    });
+  });
+
+  describe("NFT census", async () => {
+    let erc721VotesMock: ERC721VotesMock;
+
+    beforeEach(async () => {
+      governanceSettings.minVetoRatio = pctToRatio(15);
+      governanceSettings.minProposerVotingPower = 3;
+
+      erc721VotesMock = await new ERC721VotesMock__factory(alice).deploy();
+
+      await plugin.initialize(
+        dao.address,
+        governanceSettings,
+        erc721VotesMock.address,
+        NO_PROPOSAL_BOND,
+      );
+
+      // 10 NFTs
+      await erc721VotesMock.mint(alice.address, 0);
+      await erc721VotesMock.mint(alice.address, 1);
+      await erc721VotesMock.mint(bob.address, 2);
+      for (let tokenId = 3; tokenId < 10; tokenId++) {
+        await erc721VotesMock.mint(debbie.address, tokenId);
+      }
+    });
+
+    it("considers the NFT holders as members", async () => {
+      expect(await plugin.isMember(alice.address)).to.be.true;
+      expect(await plugin.isMember(bob.address)).to.be.true;
+      expect(await plugin.isMember(charlie.address)).to.be.false;
+    });
+
+    it("counts the NFTs held for the min proposer voting power", async () => {
+      await expect(
+        plugin.createProposal(dummyMetadata, dummyActions, 0, 0, 0),
+      )
+        .to.be.revertedWithCustomError(plugin, "ProposalCreationForbidden")
+        .withArgs(alice.address);
+
+      await erc721VotesMock.mint(alice.address, 10);
+      await expect(
+        plugin.createProposal(dummyMetadata, dummyActions, 0, 0, 0),
+      ).to.emit(plugin, "ProposalCreated");
+    });
+
+    it("counts one veto per NFT", async () => {
+      await erc721VotesMock.mint(alice.address, 10);
+      await plugin.createProposal(dummyMetadata, dummyActions, 0, 0, 0);
+
+      const proposal = await plugin.getProposal(id);
+      expect(
+        await plugin.totalVotingPower(proposal.parameters.snapshotTimepoint),
+      ).to.eq(11);
+      expect(proposal.parameters.minVetoVotingPower).to.eq(2); // 15% of 11 NFTs ceiled
+
+      await expect(plugin.connect(bob).veto(id))
+        .to.emit(plugin, "VetoCast")
+        .withArgs(id, bob.address, 1);
+      expect(await plugin.isMinVetoRatioReached(id)).to.be.false;
+
+      await expect(plugin.connect(alice).veto(id))
+        .to.emit(plugin, "VetoCast")
+        .withArgs(id, alice.address, 3);
+      expect(await plugin.isMinVetoRatioReached(id)).to.be.true;
+    });
+  });
+
+  describe("Clock", async () => {
+    it("uses block numbers for tokens without an ERC-6372 clock", async () => {
+      await plugin.initialize(
+        dao.address,
+        governanceSettings,
+        governanceErc20Mock.address,
+        NO_PROPOSAL_BOND,
+      );
+
+      expect(await plugin.CLOCK_MODE()).to.eq("mode=blocknumber&from=default");
+      // Calls may run in the context of the next block
+      expect(await plugin.clock()).to.be.closeTo(
+        await ethers.provider.getBlockNumber(),
+        1,
+      );
+    });
+
+    describe("with a token using timestamp checkpoints", async () => {
+      let timestampVotesMock: TimestampVotesMock;
+
+      beforeEach(async () => {
+        timestampVotesMock = await new TimestampVotesMock__factory(alice)
+          .deploy();
+
+        await plugin.initialize(
+          dao.address,
+          governanceSettings,
+          timestampVotesMock.address,
+          NO_PROPOSAL_BOND,
+        );
+
+        await timestampVotesMock.setBalance(alice.address, 10);
+        await timestampVotesMock.setBalance(bob.address, 10);
+        await timestampVotesMock.setBalance(ADDRESS_ONE, 80);
+      });
+
+      it("reports the clock of the token", async () => {
+        expect(await plugin.CLOCK_MODE()).to.eq("mode=timestamp");
+
+        await ethers.provider.send("evm_mine", []);
+        expect(await plugin.clock()).to.be.closeTo(await getTime(), 1);
+      });
+
+      it("snapshots the timestamp prior to the proposal creation", async () => {
+        const tx = await plugin.createProposal(
+          dummyMetadata,
+          dummyActions,
+          0,
+          0,
+          0,
+        );
+        const block = await ethers.provider.getBlock(tx.blockNumber!);
+
+        const proposal = await plugin.getProposal(id);
+        expect(proposal.parameters.snapshotTimepoint).to.equal(
+          block.timestamp - 1,
+        );
+        expect(proposal.parameters.clockMode).to.equal(CLOCK_MODE_TIMESTAMP);
+        expect(proposal.parameters.minVetoVotingPower).to.equal(5); // 5% of 100 tokens
+      });
+
+      it("counts the vetoes with the voting power at the snapshot timestamp", async () => {
+        await plugin.createProposal(dummyMetadata, dummyActions, 0, 0, 0);
+
+        // Charlie gets tokens after the snapshot
+        await timestampVotesMock.setBalance(charlie.address, 10);
+        expect(await plugin.canVeto(id, charlie.address)).to.be.false;
+
+        await expect(plugin.connect(alice).veto(id))
+          .to.emit(plugin, "VetoCast")
+          .withArgs(id, alice.address, 10);
+        expect(await plugin.isMinVetoRatioReached(id)).to.be.true;
+      });
+    });
+  });
+
+  describe("Metadata updates", async () => {
+    const newMetadata = ethers.utils.hexlify(
+      ethers.utils.toUtf8Bytes("ipfs://new-metadata"),
+    );
+
+    beforeEach(async () => {
+      await plugin.initialize(
+        dao.address,
+        governanceSettings,
+        governanceErc20Mock.address,
+        NO_PROPOSAL_BOND,
+      );
+
+      await setBalances([
+        { receiver: alice.address, amount: 10 },
+        { receiver: bob.address, amount: 10 },
+      ]);
+
+      await plugin.createProposal(
+        dummyMetadata,
+        dummyActions,
+        0,
+        startDate,
+        endDate,
+      );
+    });
+
+    it("allows the creator to update the metadata before the start date", async () => {
+      await expect(plugin.updateProposalMetadata(id, newMetadata))
+        .to.emit(plugin, "ProposalMetadataUpdated")
+        .withArgs(id, newMetadata);
+    });
+
+    it("reverts from the start date on", async () => {
+      await advanceTimeTo(startDate);
+
+      await expect(plugin.updateProposalMetadata(id, newMetadata))
+        .to.be.revertedWithCustomError(
+          plugin,
+          "ProposalMetadataUpdateForbidden",
+        )
+        .withArgs(id, alice.address);
+    });
+
+    it("reverts if the sender is not the creator", async () => {
+      await expect(plugin.connect(bob).updateProposalMetadata(id, newMetadata))
+        .to.be.revertedWithCustomError(
+          plugin,
+          "ProposalMetadataUpdateForbidden",
+        )
+        .withArgs(id, bob.address);
+    });
+
+    it("reverts if the proposal was cancelled", async () => {
+      await plugin.cancel(id);
+
+      await expect(plugin.updateProposalMetadata(id, newMetadata))
+        .to.be.revertedWithCustomError(
+          plugin,
+          "ProposalMetadataUpdateForbidden",
+        )
+        .withArgs(id, alice.address);
+    });
+
+    it("reverts if the proposal does not exist", async () => {
+      await expect(plugin.updateProposalMetadata(id + 1, newMetadata))
+        .to.be.revertedWithCustomError(
+          plugin,
+          "ProposalMetadataUpdateForbidden",
+        )
+        .withArgs(id + 1, alice.address);
+    });
+  });
+
+  describe("Early defeat", async () => {
+    beforeEach(async () => {
+      governanceSettings.minVetoRatio = pctToRatio(15);
+
+      await plugin.initialize(
+        dao.address,
+        governanceSettings,
+        governanceErc20Mock.address,
+        NO_PROPOSAL_BOND,
+      );
+
+      await setBalances([
+        { receiver: alice.address, amount: 10 },
+        { receiver: bob.address, amount: 10 },
+        { receiver: charlie.address, amount: 10 },
+      ]);
+      await setTotalSupply(100);
+
+      await plugin.createProposal(dummyMetadata, dummyActions, 0, 0, 0);
+    });
+
+    it("emits `ProposalDefeated` only with the veto reaching the min veto voting power", async () => {
+      await expect(plugin.connect(alice).veto(id))
+        .to.not.emit(plugin, "ProposalDefeated");
+      expect((await plugin.getProposal(id)).open).to.be.true;
+
+      await expect(plugin.connect(bob).veto(id))
+        .to.emit(plugin, "ProposalDefeated")
+        .withArgs(id);
+    });
+
+    it("closes the proposal before its end date", async () => {
+      await plugin.connect(alice).veto(id);
+      await plugin.connect(bob).veto(id);
+
+      const proposal = await plugin.getProposal(id);
+      expect(proposal.open).to.be.false;
+      expect(await getTime()).to.be.lessThan(
+        proposal.parameters.endDate.toNumber(),
+      );
+    });
+
+    it("does not allow vetoing a defeated proposal", async () => {
+      await plugin.connect(alice).veto(id);
+      await plugin.connect(bob).veto(id);
+
+      expect(await plugin.canVeto(id, charlie.address)).to.be.false;
+      await expect(plugin.connect(charlie).veto(id))
+        .to.be.revertedWithCustomError(plugin, "ProposalVetoingForbidden")
+        .withArgs(id, charlie.address);
+    });
+
+    it("does not allow cancelling a defeated proposal", async () => {
+      await plugin.connect(alice).veto(id);
+      await plugin.connect(bob).veto(id);
+
+      await expect(plugin.cancel(id))
+        .to.be.revertedWithCustomError(plugin, "ProposalCancellationForbidden")
+        .withArgs(id, alice.address);
+    });
+
+    it("does not allow executing a defeated proposal", async () => {
+      await plugin.connect(alice).veto(id);
+      await plugin.connect(bob).veto(id);
+      await advanceAfterVoteEnd(endDate);
+
+      expect(await plugin.canExecute(id)).to.be.false;
+      await expect(plugin.execute(id))
+        .to.be.revertedWithCustomError(plugin, "ProposalExecutionForbidden")
+        .withArgs(id);
+    });
+  });
+
+  describe("Emergency veto", async () => {
+    beforeEach(async () => {
+      governanceSettings.minVetoRatio = pctToRatio(15);
+
+      await plugin.initialize(
+        dao.address,
+        governanceSettings,
+        governanceErc20Mock.address,
+        NO_PROPOSAL_BOND,
+      );
+
+      await setBalances([
+        { receiver: alice.address, amount: 10 },
+        { receiver: bob.address, amount: 10 },
+      ]);
+      await setTotalSupply(100);
+
+      // Debbie acts as the security council
+      await dao.grant(
+        plugin.address,
+        debbie.address,
+        EMERGENCY_VETO_PERMISSION_ID,
+      );
+
+      await plugin.createProposal(
+        dummyMetadata,
+        dummyActions,
+        0,
+        startDate,
+        endDate,
+      );
+    });
+
+    it("defeats an open proposal regardless of its veto tally", async () => {
+      await advanceIntoVoteTime(startDate, endDate);
+
+      await expect(plugin.connect(debbie).emergencyVeto(id))
+        .to.emit(plugin, "EmergencyVeto")
+        .withArgs(id, debbie.address);
+
+      const proposal = await plugin.getProposal(id);
+      expect(proposal.open).to.be.false;
+      expect(proposal.emergencyVetoed).to.be.true;
+      expect(proposal.vetoTally).to.eq(0);
+      expect(await plugin.isMinVetoRatioReached(id)).to.be.false;
+      expect(await plugin.canVeto(id, alice.address)).to.be.false;
+
+      await advanceAfterVoteEnd(endDate);
+      expect(await plugin.canExecute(id)).to.be.false;
+      await expect(plugin.execute(id))
+        .to.be.revertedWithCustomError(plugin, "ProposalExecutionForbidden")
+        .withArgs(id);
+    });
+
+    it("does not allow cancelling a proposal defeated by an emergency veto", async () => {
+      await advanceIntoVoteTime(startDate, endDate);
+      await plugin.connect(debbie).emergencyVeto(id);
+
+      await expect(plugin.cancel(id))
+        .to.be.revertedWithCustomError(plugin, "ProposalCancellationForbidden")
+        .withArgs(id, alice.address);
+    });
+
+    it("reverts if the caller lacks the permission", async () => {
+      await advanceIntoVoteTime(startDate, endDate);
+
+      await expect(plugin.connect(bob).emergencyVeto(id))
+        .to.be.revertedWithCustomError(plugin, "DaoUnauthorized")
+        .withArgs(
+          dao.address,
+          plugin.address,
+          bob.address,
+          EMERGENCY_VETO_PERMISSION_ID,
+        );
+    });
+
+    it("reverts if the proposal is not open", async () => {
+      // Not started yet
+      await expect(plugin.connect(debbie).emergencyVeto(id))
+        .to.be.revertedWithCustomError(plugin, "ProposalVetoingForbidden")
+        .withArgs(id, debbie.address);
+
+      // Defeated already
+      await advanceIntoVoteTime(startDate, endDate);
+      await plugin.connect(debbie).emergencyVeto(id);
+      await expect(plugin.connect(debbie).emergencyVeto(id))
+        .to.be.revertedWithCustomError(plugin, "ProposalVetoingForbidden")
+        .withArgs(id, debbie.address);
+
+      // Ended
+      await plugin.createProposal(dummyMetadata, dummyActions, 0, 0, 0);
+      const proposal = await plugin.getProposal(id + 1);
+      await advanceAfterVoteEnd(proposal.parameters.endDate.toNumber());
+      await expect(plugin.connect(debbie).emergencyVeto(id + 1))
+        .to.be.revertedWithCustomError(plugin, "ProposalVetoingForbidden")
+        .withArgs(id + 1, debbie.address);
+    });
+  });
+
   describe("Different scenarios:", async () => {
     describe("minVetoRatio is 0%", () => {
       it("Should revert", async () => {
@@ -1029,6 +1998,7 @@ describe("OptimisticTokenVotingPlugin", function () {
           dao.address,
           governanceSettings,
           governanceErc20Mock.address,
+          NO_PROPOSAL_BOND,
         )).to.revertedWithCustomError(plugin, "RatioOutOfBounds");
       });
     });
@@ -1041,6 +2011,7 @@ describe("OptimisticTokenVotingPlugin", function () {
           dao.address,
           governanceSettings,
           governanceErc20Mock.address,
+          NO_PROPOSAL_BOND,
         );
 
         const receivers = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9].map(
@@ -1115,6 +2086,7 @@ describe("OptimisticTokenVotingPlugin", function () {
           dao.address,
           governanceSettings,
           governanceErc20Mock.address,
+          NO_PROPOSAL_BOND,
         );
 
         const receivers = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9].map(
@@ -1191,6 +2163,7 @@ describe("OptimisticTokenVotingPlugin", function () {
           dao.address,
           governanceSettings,
           governanceErc20Mock.address,
+          NO_PROPOSAL_BOND,
         );
 
         const receivers = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9].map(
@@ -1271,6 +2244,7 @@ describe("OptimisticTokenVotingPlugin", function () {
           dao.address,
           governanceSettings,
           governanceErc20Mock.address,
+          NO_PROPOSAL_BOND,
         );
       });
 
@@ -1307,7 +2281,7 @@ describe("OptimisticTokenVotingPlugin", function () {
           // 1 vote is still missing to meet >99.9999% worst case support
           const proposal = await plugin.getProposal(id);
           const totalVotingPower = await plugin.totalVotingPower(
-            proposal.parameters.snapshotBlock,
+            proposal.parameters.snapshotTimepoint,
           );
           expect(
             totalVotingPower.sub(proposal.vetoTally),
@@ -1352,7 +2326,7 @@ describe("OptimisticTokenVotingPlugin", function () {
           // 1 vote is still missing to meet >99.9999%
           const proposal = await plugin.getProposal(id);
           const totalVotingPower = await plugin.totalVotingPower(
-            proposal.parameters.snapshotBlock,
+            proposal.parameters.snapshotTimepoint,
           );
           expect(
             totalVotingPower.sub(proposal.vetoTally),
@@ -1373,6 +2347,7 @@ describe("OptimisticTokenVotingPlugin", function () {
           dao.address,
           governanceSettings,
           governanceErc20Mock.address,
+          NO_PROPOSAL_BOND,
         )).to.revertedWithCustomError(plugin, "RatioOutOfBounds");
       });
     });
@@ -1391,6 +2366,7 @@ describe("OptimisticTokenVotingPlugin", function () {
           dao.address,
           governanceSettings,
           governanceErc20Mock.address,
+          NO_PROPOSAL_BOND,
         );
 
         let magnitude = BigNumber.from(10).pow(power);
@@ -1421,9 +2397,11 @@ describe("OptimisticTokenVotingPlugin", function () {
           0,
         );
 
-        const snapshotBlock = (await plugin.getProposal(id)).parameters
-          .snapshotBlock;
-        const totalVotingPower = await plugin.totalVotingPower(snapshotBlock);
+        const snapshotTimepoint = (await plugin.getProposal(id)).parameters
+          .snapshotTimepoint;
+        const totalVotingPower = await plugin.totalVotingPower(
+          snapshotTimepoint,
+        );
         expect(totalVotingPower).to.eq(
           balances[0].amount.add(balances[1].amount),
         );
@@ -1431,12 +2409,12 @@ describe("OptimisticTokenVotingPlugin", function () {
         expect(await plugin.isMinVetoRatioReached(id)).to.be.false;
         expect(await plugin.canExecute(id)).to.be.false;
 
-        // vote with both signers
+        // alice's veto alone defeats the proposal
         await plugin.connect(alice).veto(id);
-        await plugin.connect(bob).veto(id);
 
         expect(await plugin.isMinVetoRatioReached(id)).to.be.true;
         expect(await plugin.canExecute(id)).to.be.false;
+        expect(await plugin.canVeto(id, bob.address)).to.be.false;
       });
     });
   });
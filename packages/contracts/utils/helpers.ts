@@ -6,7 +6,7 @@ import {
   keccak256,
   LogDescription,
 } from "ethers/lib/utils";
-import { ethers } from "hardhat";
+import { deployments, ethers } from "hardhat";
 import { upgrades } from "hardhat";
 
 export type NetworkNameMapping = { [index: string]: string };
@@ -34,19 +34,23 @@ export const ERRORS = {
   ALREADY_INITIALIZED: "Initializable: contract is already initialized",
 };
 
-export function getPluginRepoFactoryAddress(networkName: string) {
-  let pluginRepoFactoryAddr: string;
+export function isLocalNetwork(networkName: string) {
+  return ["localhost", "hardhat", "coverage"].includes(networkName);
+}
+
+// Name of the deployment of a previous build's setup on local networks
+export function getPreviousBuildSetupName(setupName: string, build: number) {
+  return `${setupName}_Build${build}`;
+}
 
-  if (
-    networkName === "localhost" ||
-    networkName === "hardhat" ||
-    networkName === "coverage"
-  ) {
-    const hardhatForkNetwork = process.env.NETWORK_NAME ?? "mainnet";
+export async function getPluginRepoFactoryAddress(networkName: string) {
+  let pluginRepoFactoryAddr: string;
 
-    pluginRepoFactoryAddr = osxContracts[hardhatForkNetwork].PluginRepoFactory;
+  if (isLocalNetwork(networkName)) {
+    pluginRepoFactoryAddr =
+      (await deployments.get("PluginRepoFactory")).address;
     console.log(
-      `Using the "${hardhatForkNetwork}" PluginRepoFactory address (${pluginRepoFactoryAddr}) for deployment testing on network "${networkName}"`,
+      `Using the local PluginRepoFactory address (${pluginRepoFactoryAddr}) for deployment testing on network "${networkName}"`,
     );
   } else {
     pluginRepoFactoryAddr =
@@ -1,31 +1,31 @@
-import { MyPluginContext } from './context';
+import { OptimisticTokenVotingContext } from './context';
 import {
-  IMyPluginClient,
-  IMyPluginClientDecoding,
-  IMyPluginClientEncoding,
-  IMyPluginClientEstimation,
-  IMyPluginClientMethods,
-  SimpleStoragClientEstimation,
-  MyPluginClientDecoding,
-  MyPluginClientEncoding,
-  MyPluginClientMethods,
+  IOptimisticTokenVotingClient,
+  IOptimisticTokenVotingClientDecoding,
+  IOptimisticTokenVotingClientEncoding,
+  IOptimisticTokenVotingClientEstimation,
+  IOptimisticTokenVotingClientMethods,
+  OptimisticTokenVotingClientDecoding,
+  OptimisticTokenVotingClientEncoding,
+  OptimisticTokenVotingClientEstimation,
+  OptimisticTokenVotingClientMethods,
 } from './internal';
-import { MyPluginClientCore } from './internal/core';
+import { OptimisticTokenVotingClientCore } from './internal/core';
 
-export class MyPluginClient
-  extends MyPluginClientCore
-  implements IMyPluginClient
+export class OptimisticTokenVotingClient
+  extends OptimisticTokenVotingClientCore
+  implements IOptimisticTokenVotingClient
 {
-  public methods: IMyPluginClientMethods;
-  public estimation: IMyPluginClientEstimation;
-  public encoding: IMyPluginClientEncoding;
-  public decoding: IMyPluginClientDecoding;
+  public methods: IOptimisticTokenVotingClientMethods;
+  public estimation: IOptimisticTokenVotingClientEstimation;
+  public encoding: IOptimisticTokenVotingClientEncoding;
+  public decoding: IOptimisticTokenVotingClientDecoding;
 
-  constructor(pluginContext: MyPluginContext) {
+  constructor(pluginContext: OptimisticTokenVotingContext) {
     super(pluginContext);
-    this.methods = new MyPluginClientMethods(pluginContext);
-    this.estimation = new SimpleStoragClientEstimation(pluginContext);
-    this.encoding = new MyPluginClientEncoding(pluginContext);
-    this.decoding = new MyPluginClientDecoding(pluginContext);
+    this.methods = new OptimisticTokenVotingClientMethods(pluginContext);
+    this.estimation = new OptimisticTokenVotingClientEstimation(pluginContext);
+    this.encoding = new OptimisticTokenVotingClientEncoding(pluginContext);
+    this.decoding = new OptimisticTokenVotingClientDecoding(pluginContext);
   }
 }
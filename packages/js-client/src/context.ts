@@ -1,25 +1,26 @@
 import {
-  MyPluginContextState,
-  MyPluginOverriddenState,
-} from "./internal/types";
-import { MyPluginContextParams } from "./types";
-import { Context, ContextCore } from "@aragon/sdk-client-common";
-
-const DEFAULT_SPACE_PLUGIN_REPO_ADDRESS = "...";
-const DEFAULT_MEMBER_ACCESS_PLUGIN_REPO_ADDRESS = "...";
-const DEFAULT_MAIN_VOTING_PLUGIN_REPO_ADDRESS = "...";
-
-export class MyPluginContext extends ContextCore {
+  OptimisticTokenVotingContextState,
+  OptimisticTokenVotingOverriddenState,
+} from './internal/types';
+import { OptimisticTokenVotingContextParams } from './types';
+import { Context, ContextCore } from '@aragon/sdk-client-common';
+
+const DEFAULT_OPTIMISTIC_TOKEN_VOTING_PLUGIN_ADDRESS =
+  '0x2345678901234567890123456789012345678901';
+const DEFAULT_OPTIMISTIC_TOKEN_VOTING_REPO_ADDRESS =
+  '0x1234567890123456789012345678901234567890';
+
+export class OptimisticTokenVotingContext extends ContextCore {
   // super is called before the properties are initialized
   // so we initialize them to the value of the parent class
-  protected state: MyPluginContextState = this.state;
+  protected state: OptimisticTokenVotingContextState = this.state;
 
   // Keeps track of what values are not the default
-  protected overriden: MyPluginOverriddenState = this.overriden;
+  protected overriden: OptimisticTokenVotingOverriddenState = this.overriden;
 
   constructor(
-    contextParams?: Partial<MyPluginContextParams>,
-    aragonContext?: Context,
+    contextParams?: Partial<OptimisticTokenVotingContextParams>,
+    aragonContext?: Context
   ) {
     // call the parent constructor
     // so it does not complain and we
@@ -39,7 +40,7 @@ export class MyPluginContext extends ContextCore {
     }
   }
 
-  public set(contextParams: MyPluginContextParams) {
+  public set(contextParams: OptimisticTokenVotingContextParams) {
     // the super function will call this set
     // so we need to call the parent set first
     super.set(contextParams);
@@ -48,61 +49,36 @@ export class MyPluginContext extends ContextCore {
     this.setDefaults();
 
     // override default params if specified in the context
-    if (contextParams.spacePluginAddress) {
-      // override the spacePluginAddress value
-      this.state.spacePluginAddress = contextParams.spacePluginAddress;
+    if (contextParams.optimisticTokenVotingPluginAddress) {
+      // override the optimisticTokenVotingPluginAddress value
+      this.state.optimisticTokenVotingPluginAddress =
+        contextParams.optimisticTokenVotingPluginAddress;
       // set the overriden flag to true in case set is called again
-      this.overriden.spacePluginAddress = true;
+      this.overriden.optimisticTokenVotingPluginAddress = true;
     }
-    if (contextParams.memberAccessPluginAddress) {
-      this.state.memberAccessPluginAddress =
-        contextParams.memberAccessPluginAddress;
-      this.overriden.memberAccessPluginAddress = true;
-    }
-    if (contextParams.mainVotingPluginAddress) {
-      this.state.mainVotingPluginAddress =
-        contextParams.mainVotingPluginAddress;
-      this.overriden.mainVotingPluginAddress = true;
+    if (contextParams.optimisticTokenVotingRepoAddress) {
+      this.state.optimisticTokenVotingRepoAddress =
+        contextParams.optimisticTokenVotingRepoAddress;
+      this.overriden.optimisticTokenVotingRepoAddress = true;
     }
   }
 
   private setDefaults() {
-    // Optional: Set any settings that may have a default value here
-
-    if (!this.overriden.spacePluginRepoAddress) {
-      this.state.spacePluginRepoAddress = DEFAULT_SPACE_PLUGIN_REPO_ADDRESS;
+    if (!this.overriden.optimisticTokenVotingPluginAddress) {
+      this.state.optimisticTokenVotingPluginAddress =
+        DEFAULT_OPTIMISTIC_TOKEN_VOTING_PLUGIN_ADDRESS;
     }
-    if (!this.overriden.memberAccessPluginRepoAddress) {
-      this.state.memberAccessPluginRepoAddress =
-        DEFAULT_MEMBER_ACCESS_PLUGIN_REPO_ADDRESS;
+    if (!this.overriden.optimisticTokenVotingRepoAddress) {
+      this.state.optimisticTokenVotingRepoAddress =
+        DEFAULT_OPTIMISTIC_TOKEN_VOTING_REPO_ADDRESS;
     }
-    if (!this.overriden.mainVotingPluginRepoAddress) {
-      this.state.mainVotingPluginRepoAddress =
-        DEFAULT_MAIN_VOTING_PLUGIN_REPO_ADDRESS;
-    }
-  }
-
-  get spacePluginAddress(): string {
-    return this.state.spacePluginAddress;
-  }
-
-  get memberAccessPluginAddress(): string {
-    return this.state.memberAccessPluginAddress;
-  }
-
-  get mainVotingPluginAddress(): string {
-    return this.state.mainVotingPluginAddress;
-  }
-
-  get spacePluginRepoAddress(): string {
-    return this.state.spacePluginRepoAddress;
   }
 
-  get memberAccessPluginRepoAddress(): string {
-    return this.state.memberAccessPluginRepoAddress;
+  get optimisticTokenVotingPluginAddress(): string {
+    return this.state.optimisticTokenVotingPluginAddress;
   }
 
-  get mainVotingPluginRepoAddress(): string {
-    return this.state.mainVotingPluginRepoAddress;
+  get optimisticTokenVotingRepoAddress(): string {
+    return this.state.optimisticTokenVotingRepoAddress;
   }
 }
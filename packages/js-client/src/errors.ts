@@ -0,0 +1,116 @@
+export enum VetoForbiddenReason {
+  NOT_STARTED = 'notStarted',
+  ENDED = 'ended',
+  CANCELLED = 'cancelled',
+  DEFEATED = 'defeated',
+  ALREADY_VETOED = 'alreadyVetoed',
+  NO_VOTING_POWER = 'noVotingPower',
+}
+
+export enum ExecutionForbiddenReason {
+  ALREADY_EXECUTED = 'alreadyExecuted',
+  CANCELLED = 'cancelled',
+  NOT_ENDED = 'notEnded',
+  MIN_VETO_RATIO_REACHED = 'minVetoRatioReached',
+  EMERGENCY_VETOED = 'emergencyVetoed',
+  EXPIRED = 'expired',
+}
+
+export enum CancellationForbiddenReason {
+  ENDED = 'ended',
+  ALREADY_EXECUTED = 'alreadyExecuted',
+  ALREADY_CANCELLED = 'alreadyCancelled',
+  DEFEATED = 'defeated',
+}
+
+export enum MetadataUpdateForbiddenReason {
+  STARTED = 'started',
+  CANCELLED = 'cancelled',
+}
+
+export enum InvalidGovernanceSettingsReason {
+  MIN_VETO_RATIO_OUT_OF_BOUNDS = 'minVetoRatioOutOfBounds',
+  MIN_DURATION_OUT_OF_BOUNDS = 'minDurationOutOfBounds',
+  EXECUTION_WINDOW_OUT_OF_BOUNDS = 'executionWindowOutOfBounds',
+}
+
+export class VetoForbiddenError extends Error {
+  public reason: VetoForbiddenReason;
+
+  constructor(reason: VetoForbiddenReason) {
+    super(`The proposal cannot be vetoed: ${reason}`);
+    this.reason = reason;
+  }
+}
+
+export class ExecutionForbiddenError extends Error {
+  public reason: ExecutionForbiddenReason;
+
+  constructor(reason: ExecutionForbiddenReason) {
+    super(`The proposal cannot be executed: ${reason}`);
+    this.reason = reason;
+  }
+}
+
+export class CancellationForbiddenError extends Error {
+  public reason: CancellationForbiddenReason;
+
+  constructor(reason: CancellationForbiddenReason) {
+    super(`The proposal cannot be cancelled: ${reason}`);
+    this.reason = reason;
+  }
+}
+
+export class MetadataUpdateForbiddenError extends Error {
+  public reason: MetadataUpdateForbiddenReason;
+
+  constructor(reason: MetadataUpdateForbiddenReason) {
+    super(`The proposal metadata cannot be updated: ${reason}`);
+    this.reason = reason;
+  }
+}
+
+export class InvalidGovernanceSettingsError extends Error {
+  public reason: InvalidGovernanceSettingsReason;
+
+  constructor(reason: InvalidGovernanceSettingsReason) {
+    super(`Invalid governance settings: ${reason}`);
+    this.reason = reason;
+  }
+}
+
+export class InvalidProposalBondSettingsError extends Error {
+  constructor() {
+    super('A proposal bond requires a token and a treasury');
+  }
+}
+
+export class MissingExecutionWindowError extends Error {
+  constructor() {
+    super('An execution window is required to update from build 1');
+  }
+}
+
+export class PluginUpdatePreparationError extends Error {
+  constructor() {
+    super('Failed to prepare the plugin update');
+  }
+}
+
+export class PluginHelpersNotFoundError extends Error {
+  constructor() {
+    super('The helpers of the installed plugin could not be found');
+  }
+}
+
+export class PluginUninstallationPreparationError extends Error {
+  constructor() {
+    super('Failed to prepare the plugin uninstallation');
+  }
+}
+
+export class TypedDataSigningUnsupportedError extends Error {
+  constructor() {
+    super('The connected signer cannot sign typed data');
+  }
+}
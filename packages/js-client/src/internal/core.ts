@@ -1,28 +1,145 @@
-import { MyPluginContext } from "../context";
+import { OptimisticTokenVotingContext } from '../context';
+import { PluginHelpersNotFoundError } from '../errors';
+import { QueryPluginGuardians, QueryPluginHelpers } from './graphql-queries';
+import { SubgraphPluginGuardians, SubgraphPluginHelpers } from './types';
+import { PluginRepo__factory } from '@aragon/osx-ethers';
 import {
-  IMyPluginClient,
-  IMyPluginClientDecoding,
-  IMyPluginClientEncoding,
-  IMyPluginClientEstimation,
-  IMyPluginClientMethods,
-} from "./interfaces";
+  ClientCore,
+  LIVE_CONTRACTS,
+  VersionTag,
+} from '@aragon/sdk-client-common';
 import {
-  MyPluginClientDecoding,
-  MyPluginClientEncoding,
-  MyPluginClientEstimation,
-  MyPluginClientMethods,
-} from "./modules";
-
-export class StandardSpaceClientCore implements IMyPluginClient {
-  public methods: IMyPluginClientMethods;
-  public encoding: IMyPluginClientEncoding;
-  public decoding: IMyPluginClientDecoding;
-  public estimation: IMyPluginClientEstimation;
-
-  constructor(pluginContext: MyPluginContext) {
-    this.methods = new MyPluginClientMethods(pluginContext);
-    this.encoding = new MyPluginClientEncoding(pluginContext);
-    this.decoding = new MyPluginClientDecoding(pluginContext);
-    this.estimation = new MyPluginClientEstimation(pluginContext);
+  InvalidAddressOrEnsError,
+  UnsupportedNetworkError,
+} from '@aragon/sdk-common';
+import {
+  IOptimisticTokenVoting__factory,
+  OptimisticTokenVotingPluginSetup__factory,
+} from '@aragon/thunderhead-plugin-ethers';
+import { isAddress } from '@ethersproject/address';
+
+export class OptimisticTokenVotingClientCore extends ClientCore {
+  protected optimisticTokenVotingPluginAddress: string;
+  protected optimisticTokenVotingRepoAddress: string;
+
+  constructor(pluginContext: OptimisticTokenVotingContext) {
+    super(pluginContext);
+    this.optimisticTokenVotingPluginAddress =
+      pluginContext.optimisticTokenVotingPluginAddress;
+    this.optimisticTokenVotingRepoAddress =
+      pluginContext.optimisticTokenVotingRepoAddress;
+  }
+
+  protected async resolveDaoAddress(daoAddressOrEns: string): Promise<string> {
+    if (isAddress(daoAddressOrEns)) {
+      return daoAddressOrEns;
+    }
+    await this.web3.ensureOnline();
+    const provider = this.web3.getProvider();
+    const resolvedAddress = await provider.resolveName(daoAddressOrEns);
+    if (!resolvedAddress) {
+      throw new InvalidAddressOrEnsError();
+    }
+    return resolvedAddress;
+  }
+
+  // the plugin setup processor of the network the client is connected to
+  protected getPluginSetupProcessorAddress(): string {
+    const networkName = this.web3.getNetworkName();
+    const pluginSetupProcessor =
+      LIVE_CONTRACTS[networkName]?.pluginSetupProcessor;
+    if (!pluginSetupProcessor) {
+      throw new UnsupportedNetworkError(networkName);
+    }
+    return pluginSetupProcessor;
+  }
+
+  // the helpers of an installed plugin as the plugin setup processor hashed
+  // them, read from the subgraph or, if it fails or has not indexed them, from
+  // the plugin, since the voting token is its only helper
+  protected async getPluginHelpers(
+    daoAddress: string,
+    pluginAddress: string
+  ): Promise<string[]> {
+    try {
+      const query = QueryPluginHelpers;
+      const params = {
+        where: {
+          dao: daoAddress.toLowerCase(),
+          pluginAddress: pluginAddress.toLowerCase(),
+        },
+      };
+      const name = 'PluginHelpers';
+      type T = { plugins: SubgraphPluginHelpers[] };
+      const { plugins } = await this.graphql.request<T>({
+        query,
+        params,
+        name,
+      });
+      if (plugins[0]?.helpers) {
+        return plugins[0].helpers;
+      }
+    } catch {
+      // the plugin is read below whatever the subgraph failed with
+    }
+
+    const plugin = IOptimisticTokenVoting__factory.connect(
+      pluginAddress,
+      this.web3.getProvider()
+    );
+    try {
+      return [await plugin.getVotingToken()];
+    } catch {
+      throw new PluginHelpersNotFoundError();
+    }
+  }
+
+  // the guardians granted the emergency veto permission at installation, in
+  // the order the plugin setup expects them, read from the subgraph or, if it
+  // fails or has not indexed them, from the plugin setup of the current version
+  protected async getPluginGuardians(
+    daoAddress: string,
+    pluginAddress: string,
+    currentVersion: VersionTag
+  ): Promise<string[]> {
+    try {
+      const query = QueryPluginGuardians;
+      const params = {
+        where: {
+          dao: daoAddress.toLowerCase(),
+          pluginAddress: pluginAddress.toLowerCase(),
+        },
+      };
+      const name = 'PluginGuardians';
+      type T = { plugins: SubgraphPluginGuardians[] };
+      const { plugins } = await this.graphql.request<T>({
+        query,
+        params,
+        name,
+      });
+      if (plugins[0]?.guardians) {
+        return plugins[0].guardians;
+      }
+    } catch {
+      // the plugin setup is read below whatever the subgraph failed with
+    }
+
+    // build 1 had no guardians
+    if (currentVersion.build < 2) {
+      return [];
+    }
+    const provider = this.web3.getProvider();
+    const pluginRepo = PluginRepo__factory.connect(
+      this.optimisticTokenVotingRepoAddress,
+      provider
+    );
+    const { pluginSetup } = await pluginRepo['getVersion((uint8,uint16))'](
+      currentVersion
+    );
+    const setup = OptimisticTokenVotingPluginSetup__factory.connect(
+      pluginSetup,
+      provider
+    );
+    return setup.getInstalledGuardians(pluginAddress);
   }
 }
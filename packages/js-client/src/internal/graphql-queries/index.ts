@@ -1 +1,3 @@
-export * from './numbers';
+export * from './plugins';
+export * from './proposals';
+export * from './vetoes';
@@ -0,0 +1,17 @@
+import { gql } from 'graphql-request';
+
+export const QueryPluginHelpers = gql`
+  query PluginHelpers($where: Plugin_filter!) {
+    plugins(where: $where, first: 1) {
+      helpers
+    }
+  }
+`;
+
+export const QueryPluginGuardians = gql`
+  query PluginGuardians($where: Plugin_filter!) {
+    plugins(where: $where, first: 1) {
+      guardians
+    }
+  }
+`;
@@ -0,0 +1,38 @@
+import { gql } from 'graphql-request';
+
+export const QueryProposals = gql`
+  query OptimisticProposals(
+    $where: OptimisticProposal_filter!
+    $limit: Int!
+    $skip: Int!
+    $direction: OrderDirection!
+    $sortBy: OptimisticProposal_orderBy!
+  ) {
+    optimisticProposals(
+      where: $where
+      first: $limit
+      skip: $skip
+      orderDirection: $direction
+      orderBy: $sortBy
+    ) {
+      id
+      dao {
+        id
+      }
+      creator
+      metadata
+      pluginProposalId
+      createdAt
+      startDate
+      endDate
+      expirationDate
+      executed
+      cancelled
+      vetoTally
+      minVetoVotingPower
+      minVetoRatioReached
+      emergencyVetoed
+      clockMode
+    }
+  }
+`;
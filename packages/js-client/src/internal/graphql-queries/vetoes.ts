@@ -0,0 +1,27 @@
+import { gql } from 'graphql-request';
+
+export const QueryVetoes = gql`
+  query Vetoes(
+    $where: Veto_filter!
+    $limit: Int!
+    $skip: Int!
+    $direction: OrderDirection!
+    $sortBy: Veto_orderBy!
+  ) {
+    vetoes(
+      where: $where
+      first: $limit
+      skip: $skip
+      orderDirection: $direction
+      orderBy: $sortBy
+    ) {
+      id
+      voter {
+        address
+      }
+      votingPower
+      reason
+      createdAt
+    }
+  }
+`;
@@ -1,48 +1,137 @@
 import {
-  NumberListItem,
-  NumbersQueryParams,
+  CancelProposalStepValue,
+  CreateProposalParams,
+  CreateProposalStepValue,
+  DelegateTokensStepValue,
+  DelegationTypedData,
+  EmergencyVetoStepValue,
+  ExecuteProposalStepValue,
+  OptimisticGovernanceSettings,
+  OptimisticProposal,
+  OptimisticTokenVotingPluginInstall,
   PrepareInstallationParams,
-} from "../types";
-import { Networkish } from "@ethersproject/providers";
+  PrepareUninstallationParams,
+  PrepareUninstallationStepValue,
+  PrepareUpdateParams,
+  PrepareUpdateStepValue,
+  ProposalListItem,
+  ProposalQueryParams,
+  SignedDelegation,
+  SignedVeto,
+  UpdateProposalMetadataParams,
+  UpdateProposalMetadataStepValue,
+  VetoListItem,
+  VetoManyStepValue,
+  VetoProposalStepValue,
+  VetoQueryParams,
+  VetoTypedData,
+  VetoWithReason,
+  VotingPower,
+} from '../types';
 import {
   DaoAction,
   GasFeeEstimation,
+  InterfaceParams,
   PluginInstallItem,
   PrepareInstallationStepValue,
-} from "@aragon/sdk-client-common";
-import { ProposeMemberStepValue } from "./types";
+} from '@aragon/sdk-client-common';
 
-export interface IMyPluginClient {
-  methods: IMyPluginClientMethods;
-  estimation: IMyPluginClientEstimation;
-  encoding: IMyPluginClientEncoding;
-  decoding: IMyPluginClientDecoding;
+export interface IOptimisticTokenVotingClient {
+  methods: IOptimisticTokenVotingClientMethods;
+  estimation: IOptimisticTokenVotingClientEstimation;
+  encoding: IOptimisticTokenVotingClientEncoding;
+  decoding: IOptimisticTokenVotingClientDecoding;
 }
 
-export interface IMyPluginClientMethods {
-  // fill with methods
+export interface IOptimisticTokenVotingClientMethods {
   prepareInstallation(
-    params: PrepareInstallationParams,
+    params: PrepareInstallationParams
   ): AsyncGenerator<PrepareInstallationStepValue>;
-  doSomething(): Promise<void>;
-  getNumber(daoAddressOrEns: string): Promise<bigint>;
-  getNumbers(params: NumbersQueryParams): Promise<NumberListItem[]>;
-  proposeMember(
-    memberAddress: string,
-  ): AsyncGenerator<ProposeMemberStepValue>;
+  prepareUpdate(
+    params: PrepareUpdateParams
+  ): AsyncGenerator<PrepareUpdateStepValue>;
+  prepareUninstallation(
+    params: PrepareUninstallationParams
+  ): AsyncGenerator<PrepareUninstallationStepValue>;
+  createProposal(
+    params: CreateProposalParams
+  ): AsyncGenerator<CreateProposalStepValue>;
+  veto(
+    proposalId: bigint,
+    reason?: string
+  ): AsyncGenerator<VetoProposalStepValue>;
+  vetoMany(proposalIds: bigint[]): AsyncGenerator<VetoManyStepValue>;
+  execute(proposalId: bigint): AsyncGenerator<ExecuteProposalStepValue>;
+  cancel(proposalId: bigint): AsyncGenerator<CancelProposalStepValue>;
+  emergencyVeto(proposalId: bigint): AsyncGenerator<EmergencyVetoStepValue>;
+  delegate(delegatee: string): AsyncGenerator<DelegateTokensStepValue>;
+  delegateBySig(
+    signedDelegation: SignedDelegation
+  ): AsyncGenerator<DelegateTokensStepValue>;
+  updateProposalMetadata(
+    params: UpdateProposalMetadataParams
+  ): AsyncGenerator<UpdateProposalMetadataStepValue>;
+  getVetoTypedData(
+    proposalId: bigint,
+    voterAddress: string,
+    deadline: Date
+  ): Promise<VetoTypedData>;
+  signVeto(proposalId: bigint, deadline: Date): Promise<SignedVeto>;
+  getDelegationTypedData(
+    delegatorAddress: string,
+    delegatee: string,
+    expiry: Date
+  ): Promise<DelegationTypedData>;
+  signDelegation(delegatee: string, expiry: Date): Promise<SignedDelegation>;
+  getProposal(proposalId: bigint): Promise<OptimisticProposal>;
+  canVeto(proposalId: bigint, voterAddress: string): Promise<boolean>;
+  hasVetoed(proposalId: bigint, voterAddress: string): Promise<boolean>;
+  canExecute(proposalId: bigint): Promise<boolean>;
+  isMinVetoRatioReached(proposalId: bigint): Promise<boolean>;
+  getVotingToken(): Promise<string>;
+  getVotingPower(account: string, proposalId?: bigint): Promise<VotingPower>;
+  getDelegatee(account: string): Promise<string>;
+  getUndelegatedHolders(holders: string[]): Promise<string[]>;
+  getGovernanceSettings(): Promise<OptimisticGovernanceSettings>;
+  getEffectiveMinDuration(actions: DaoAction[]): Promise<number>;
+  getProposals(params: ProposalQueryParams): Promise<ProposalListItem[]>;
+  getVetoes(params: VetoQueryParams): Promise<VetoListItem[]>;
 }
-export interface IMyPluginClientEstimation {
+export interface IOptimisticTokenVotingClientEstimation {
   prepareInstallation(
-    params: PrepareInstallationParams,
+    params: PrepareInstallationParams
   ): Promise<GasFeeEstimation>;
+  prepareUninstallation(
+    params: PrepareUninstallationParams
+  ): Promise<GasFeeEstimation>;
+  veto(proposalId: bigint, reason?: string): Promise<GasFeeEstimation>;
+  vetoMany(proposalIds: bigint[]): Promise<GasFeeEstimation>;
+  execute(proposalId: bigint): Promise<GasFeeEstimation>;
+  cancel(proposalId: bigint): Promise<GasFeeEstimation>;
+  emergencyVeto(proposalId: bigint): Promise<GasFeeEstimation>;
 }
-export interface IMyPluginClientEncoding {
+export interface IOptimisticTokenVotingClientEncoding {
   getPluginInstallItem(
-    params: PrepareInstallationParams,
-    network: Networkish,
+    params: OptimisticTokenVotingPluginInstall
   ): PluginInstallItem;
-  storeNumberAction(number: bigint): DaoAction;
+  vetoAction(proposalId: bigint): DaoAction;
+  vetoWithReasonAction(params: VetoWithReason): DaoAction;
+  executeAction(proposalId: bigint): DaoAction;
+  cancelAction(proposalId: bigint): DaoAction;
+  vetoBySigAction(signedVeto: SignedVeto): DaoAction;
+  updateGovernanceSettingsAction(
+    pluginAddress: string,
+    settings: OptimisticGovernanceSettings
+  ): DaoAction;
 }
-export interface IMyPluginClientDecoding {
-  storeNumberAction(data: Uint8Array): bigint;
+export interface IOptimisticTokenVotingClientDecoding {
+  vetoAction(data: Uint8Array): bigint;
+  vetoWithReasonAction(data: Uint8Array): VetoWithReason;
+  executeAction(data: Uint8Array): bigint;
+  cancelAction(data: Uint8Array): bigint;
+  vetoBySigAction(data: Uint8Array): SignedVeto;
+  updateGovernanceSettingsAction(
+    data: Uint8Array
+  ): OptimisticGovernanceSettings;
+  findInterface(data: Uint8Array): InterfaceParams | null;
 }
@@ -1,13 +1,96 @@
-import { ClientCore } from "@aragon/sdk-client-common";
-// import { MyPluginContext } from "../../context";
-import { IMyPluginClientDecoding } from "../interfaces";
-import { MyPlugin__factory } from "@aragon/simple-storage-ethers";
-
-export class MyPluginClientDecoding extends ClientCore
-  implements IMyPluginClientDecoding {
-  public storeNumberAction(data: Uint8Array): bigint {
-    const iface = MyPlugin__factory.createInterface();
-    const res = iface.decodeFunctionData("storeNumber", data);
+import {
+  OptimisticGovernanceSettings,
+  SignedVeto,
+  VetoWithReason,
+} from '../../types';
+import { OptimisticTokenVotingClientCore } from '../core';
+import { IOptimisticTokenVotingClientDecoding } from '../interfaces';
+import {
+  getFunctionFragment,
+  InterfaceParams,
+} from '@aragon/sdk-client-common';
+import { bytesToHex } from '@aragon/sdk-common';
+import {
+  IOptimisticTokenVoting__factory,
+  OptimisticTokenVotingPlugin__factory,
+} from '@aragon/thunderhead-plugin-ethers';
+
+// the functions of the plugin that a DAO action can call
+const AVAILABLE_FUNCTION_SIGNATURES = Object.values(
+  OptimisticTokenVotingPlugin__factory.createInterface().functions
+).map((fragment) => fragment.format('full'));
+
+export class OptimisticTokenVotingClientDecoding
+  extends OptimisticTokenVotingClientCore
+  implements IOptimisticTokenVotingClientDecoding
+{
+  public vetoAction(data: Uint8Array): bigint {
+    const iface = IOptimisticTokenVoting__factory.createInterface();
+    const res = iface.decodeFunctionData('veto', data);
+    return BigInt(res[0]);
+  }
+
+  public vetoWithReasonAction(data: Uint8Array): VetoWithReason {
+    const iface = IOptimisticTokenVoting__factory.createInterface();
+    const res = iface.decodeFunctionData('vetoWithReason', data);
+    return {
+      proposalId: BigInt(res[0]),
+      reason: res[1],
+    };
+  }
+
+  public executeAction(data: Uint8Array): bigint {
+    const iface = IOptimisticTokenVoting__factory.createInterface();
+    const res = iface.decodeFunctionData('execute', data);
+    return BigInt(res[0]);
+  }
+
+  public cancelAction(data: Uint8Array): bigint {
+    const iface = IOptimisticTokenVoting__factory.createInterface();
+    const res = iface.decodeFunctionData('cancel', data);
     return BigInt(res[0]);
   }
+
+  public vetoBySigAction(data: Uint8Array): SignedVeto {
+    const iface = IOptimisticTokenVoting__factory.createInterface();
+    const res = iface.decodeFunctionData('vetoBySig', data);
+    return {
+      proposalId: BigInt(res[0]),
+      voter: res[1],
+      deadline: new Date(res[2].toNumber() * 1000),
+      signature: res[3],
+    };
+  }
+
+  public updateGovernanceSettingsAction(
+    data: Uint8Array
+  ): OptimisticGovernanceSettings {
+    const iface = OptimisticTokenVotingPlugin__factory.createInterface();
+    const res = iface.decodeFunctionData(
+      'updateOptimisticGovernanceSettings',
+      data
+    );
+    const settings = res[0];
+    return {
+      minVetoRatio: settings.minVetoRatio,
+      minDuration: settings.minDuration.toNumber(),
+      executionWindow: settings.executionWindow.toNumber(),
+      minProposerVotingPower: settings.minProposerVotingPower.toBigInt(),
+    };
+  }
+
+  // identifies the function of the plugin called by the given calldata,
+  // or `null` if it calls none of them
+  public findInterface(data: Uint8Array): InterfaceParams | null {
+    try {
+      const func = getFunctionFragment(data, AVAILABLE_FUNCTION_SIGNATURES);
+      return {
+        id: func.format('minimal'),
+        functionName: func.name,
+        hash: bytesToHex(data).substring(0, 10),
+      };
+    } catch {
+      return null;
+    }
+  }
 }
@@ -1,30 +1,140 @@
-import { IMyPluginClientEncoding } from "../interfaces";
-import { ClientCore, DaoAction } from "@aragon/sdk-client-common";
-import { hexToBytes } from "@aragon/sdk-common";
-import { SpacePlugin__factory } from "../../../../contracts/typechain";
-import { MyPluginContext } from "../../context";
-
-export class MyPluginClientEncoding extends ClientCore
-  implements IMyPluginClientEncoding {
-  private spacePluginAddress: string;
-  private memberAccessPluginAddress: string;
-  private mainVotingPluginAddress: string;
-
-  constructor(pluginContext: MyPluginContext) {
-    super(pluginContext);
-
-    this.spacePluginAddress = pluginContext.spacePluginAddress;
-    this.memberAccessPluginAddress = pluginContext.memberAccessPluginAddress;
-    this.mainVotingPluginAddress = pluginContext.mainVotingPluginAddress;
+import * as BUILD_METADATA from '../../../../contracts/src/optimistic-token-voting-build-metadata.json';
+import {
+  OptimisticGovernanceSettings,
+  OptimisticTokenVotingPluginInstall,
+  SignedVeto,
+  VetoWithReason,
+} from '../../types';
+import { OptimisticTokenVotingClientCore } from '../core';
+import { IOptimisticTokenVotingClientEncoding } from '../interfaces';
+import { toInstallationParams, validateGovernanceSettings } from '../utils';
+import {
+  DaoAction,
+  getNamedTypesFromMetadata,
+  PluginInstallItem,
+} from '@aragon/sdk-client-common';
+import { hexToBytes, InvalidAddressError } from '@aragon/sdk-common';
+import {
+  IOptimisticTokenVoting__factory,
+  OptimisticTokenVotingPlugin__factory,
+} from '@aragon/thunderhead-plugin-ethers';
+import { defaultAbiCoder } from '@ethersproject/abi';
+import { isAddress } from '@ethersproject/address';
+
+export class OptimisticTokenVotingClientEncoding
+  extends OptimisticTokenVotingClientCore
+  implements IOptimisticTokenVotingClientEncoding
+{
+  // the plugin to install when creating a DAO, see `Client.methods.createDao`
+  // of `@aragon/sdk-client`
+  public getPluginInstallItem(
+    params: OptimisticTokenVotingPluginInstall
+  ): PluginInstallItem {
+    const data = defaultAbiCoder.encode(
+      getNamedTypesFromMetadata(
+        BUILD_METADATA.pluginSetup.prepareInstallation.inputs
+      ),
+      toInstallationParams(params)
+    );
+
+    return {
+      id: this.optimisticTokenVotingRepoAddress,
+      data: hexToBytes(data),
+    };
+  }
+
+  public vetoAction(proposalId: bigint): DaoAction {
+    const iface = IOptimisticTokenVoting__factory.createInterface();
+    const data = iface.encodeFunctionData('veto', [proposalId]);
+
+    return {
+      to: this.optimisticTokenVotingPluginAddress,
+      value: BigInt(0),
+      data: hexToBytes(data),
+    };
+  }
+
+  public vetoWithReasonAction({
+    proposalId,
+    reason,
+  }: VetoWithReason): DaoAction {
+    const iface = IOptimisticTokenVoting__factory.createInterface();
+    const data = iface.encodeFunctionData('vetoWithReason', [
+      proposalId,
+      reason,
+    ]);
+
+    return {
+      to: this.optimisticTokenVotingPluginAddress,
+      value: BigInt(0),
+      data: hexToBytes(data),
+    };
+  }
+
+  public executeAction(proposalId: bigint): DaoAction {
+    const iface = IOptimisticTokenVoting__factory.createInterface();
+    const data = iface.encodeFunctionData('execute', [proposalId]);
+
+    return {
+      to: this.optimisticTokenVotingPluginAddress,
+      value: BigInt(0),
+      data: hexToBytes(data),
+    };
+  }
+
+  public cancelAction(proposalId: bigint): DaoAction {
+    const iface = IOptimisticTokenVoting__factory.createInterface();
+    const data = iface.encodeFunctionData('cancel', [proposalId]);
+
+    return {
+      to: this.optimisticTokenVotingPluginAddress,
+      value: BigInt(0),
+      data: hexToBytes(data),
+    };
+  }
+
+  // the action of a DAO proposal, which can target another plugin
+  // than the one of the context
+  public updateGovernanceSettingsAction(
+    pluginAddress: string,
+    settings: OptimisticGovernanceSettings
+  ): DaoAction {
+    if (!isAddress(pluginAddress)) {
+      throw new InvalidAddressError();
+    }
+    validateGovernanceSettings(settings);
+
+    const iface = OptimisticTokenVotingPlugin__factory.createInterface();
+    const data = iface.encodeFunctionData(
+      'updateOptimisticGovernanceSettings',
+      [
+        {
+          minVetoRatio: settings.minVetoRatio,
+          minDuration: settings.minDuration,
+          executionWindow: settings.executionWindow,
+          minProposerVotingPower: settings.minProposerVotingPower,
+        },
+      ]
+    );
+
+    return {
+      to: pluginAddress,
+      value: BigInt(0),
+      data: hexToBytes(data),
+    };
   }
 
-  // implementation of the methods in the interface
-  public storeNumberAction(): DaoAction {
-    const iface = SpacePlugin__factory.createInterface();
-    const data = iface.encodeFunctionData("setContent", [1, 4, "ipfs://...."]);
+  public vetoBySigAction(signedVeto: SignedVeto): DaoAction {
+    const iface = IOptimisticTokenVoting__factory.createInterface();
+    const data = iface.encodeFunctionData('vetoBySig', [
+      signedVeto.proposalId,
+      signedVeto.voter,
+      Math.round(signedVeto.deadline.getTime() / 1000),
+      signedVeto.signature,
+    ]);
 
     return {
-      to: this.spacePluginAddress,
+      to: this.optimisticTokenVotingPluginAddress,
       value: BigInt(0),
       data: hexToBytes(data),
     };
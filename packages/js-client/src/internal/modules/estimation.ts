@@ -1,40 +1,27 @@
-import * as BUILD_METADATA from "../../../../contracts/src/build-metadata.json";
-import { MyPluginContext } from "../../context";
-import { PrepareInstallationParams } from "../../types";
-import { IMyPluginClientEstimation } from "../interfaces";
-import { PluginRepo__factory } from "@aragon/osx-ethers";
+import * as BUILD_METADATA from '../../../../contracts/src/optimistic-token-voting-build-metadata.json';
+import {
+  PrepareInstallationParams,
+  PrepareUninstallationParams,
+} from '../../types';
+import { OptimisticTokenVotingClientCore } from '../core';
+import { IOptimisticTokenVotingClientEstimation } from '../interfaces';
+import { toInstallationParams, toUninstallationData } from '../utils';
+import {
+  PluginRepo__factory,
+  PluginSetupProcessor__factory,
+} from '@aragon/osx-ethers';
 import {
-  ClientCore,
   GasFeeEstimation,
   prepareGenericInstallationEstimation,
-} from "@aragon/sdk-client-common";
-
-export class MyPluginClientEstimation extends ClientCore
-  implements IMyPluginClientEstimation {
-  private spacePluginAddress: string;
-  private memberAccessPluginAddress: string;
-  private mainVotingPluginAddress: string;
-
-  private spacePluginRepoAddress: string;
-  private memberAccessPluginRepoAddress: string;
-  private mainVotingPluginRepoAddress: string;
-
-  constructor(pluginContext: MyPluginContext) {
-    super(pluginContext);
-
-    this.spacePluginAddress = pluginContext.spacePluginAddress;
-    this.memberAccessPluginAddress = pluginContext.memberAccessPluginAddress;
-    this.mainVotingPluginAddress = pluginContext.mainVotingPluginAddress;
-    // repos
-    this.spacePluginRepoAddress = pluginContext.spacePluginRepoAddress;
-    this.memberAccessPluginRepoAddress =
-      pluginContext.memberAccessPluginRepoAddress;
-    this.mainVotingPluginRepoAddress =
-      pluginContext.mainVotingPluginRepoAddress;
-  }
+} from '@aragon/sdk-client-common';
+import { IOptimisticTokenVoting__factory } from '@aragon/thunderhead-plugin-ethers';
 
+export class OptimisticTokenVotingClientEstimation
+  extends OptimisticTokenVotingClientCore
+  implements IOptimisticTokenVotingClientEstimation
+{
   public async prepareInstallation(
-    params: PrepareInstallationParams,
+    params: PrepareInstallationParams
   ): Promise<GasFeeEstimation> {
     let version = params.version;
     // if not specified use the lates version
@@ -43,34 +30,115 @@ export class MyPluginClientEstimation extends ClientCore
       const signer = this.web3.getConnectedSigner();
       // connect to the plugin repo
       const pluginRepo = PluginRepo__factory.connect(
-        this.myPluginRepoAddress,
-        signer,
+        this.optimisticTokenVotingRepoAddress,
+        signer
       );
       // get latest release
       const currentRelease = await pluginRepo.latestRelease();
       // get latest version
-      const latestVersion = await pluginRepo["getLatestVersion(uint8)"](
-        currentRelease,
+      const latestVersion = await pluginRepo['getLatestVersion(uint8)'](
+        currentRelease
       );
       version = latestVersion.tag;
     }
 
     return prepareGenericInstallationEstimation(this.web3, {
       daoAddressOrEns: params.daoAddressOrEns,
-      pluginRepo: this.myPluginRepoAddress,
+      pluginRepo: this.optimisticTokenVotingRepoAddress,
       version,
       installationAbi: BUILD_METADATA.pluginSetup.prepareInstallation.inputs,
-      installationParams: [params.settings.number],
+      installationParams: toInstallationParams(params.settings),
+    });
+  }
+
+  public async prepareUninstallation(
+    params: PrepareUninstallationParams
+  ): Promise<GasFeeEstimation> {
+    const signer = this.web3.getConnectedSigner();
+    const daoAddress = await this.resolveDaoAddress(params.daoAddressOrEns);
+    const helpers = await this.getPluginHelpers(
+      daoAddress,
+      params.pluginAddress
+    );
+    // the plugin setup only accepts the guardians it granted the permission to
+    const guardians = await this.getPluginGuardians(
+      daoAddress,
+      params.pluginAddress,
+      params.currentVersion
+    );
+    const data = toUninstallationData(guardians);
+
+    const psp = PluginSetupProcessor__factory.connect(
+      this.getPluginSetupProcessorAddress(),
+      signer
+    );
+    const estimation = await psp.estimateGas.prepareUninstallation(daoAddress, {
+      pluginSetupRef: {
+        versionTag: params.currentVersion,
+        pluginSetupRepo: this.optimisticTokenVotingRepoAddress,
+      },
+      setupPayload: {
+        plugin: params.pluginAddress,
+        currentHelpers: helpers,
+        data,
+      },
     });
+    return this.web3.getApproximateGasFee(estimation.toBigInt());
+  }
+
+  public async veto(
+    proposalId: bigint,
+    reason?: string
+  ): Promise<GasFeeEstimation> {
+    const signer = this.web3.getConnectedSigner();
+    const plugin = IOptimisticTokenVoting__factory.connect(
+      this.optimisticTokenVotingPluginAddress,
+      signer
+    );
+    const estimation =
+      reason === undefined
+        ? await plugin.estimateGas.veto(proposalId)
+        : await plugin.estimateGas.vetoWithReason(proposalId, reason);
+    return this.web3.getApproximateGasFee(estimation.toBigInt());
+  }
+
+  public async vetoMany(proposalIds: bigint[]): Promise<GasFeeEstimation> {
+    const signer = this.web3.getConnectedSigner();
+    const plugin = IOptimisticTokenVoting__factory.connect(
+      this.optimisticTokenVotingPluginAddress,
+      signer
+    );
+    const estimation = await plugin.estimateGas.vetoMany(proposalIds);
+    return this.web3.getApproximateGasFee(estimation.toBigInt());
   }
 
-  // public async storeNumber(number: bigint): Promise<GasFeeEstimation> {
-  //   const signer = this.web3.getConnectedSigner();
-  //   const myPlugin = MyPlugin__factory.connect(
-  //     this.myPluginPluginAddress,
-  //     signer,
-  //   );
-  //   const estimation = await myPlugin.estimateGas.storeNumber(number);
-  //   return this.web3.getApproximateGasFee(estimation.toBigInt());
-  // }
+  public async execute(proposalId: bigint): Promise<GasFeeEstimation> {
+    const signer = this.web3.getConnectedSigner();
+    const plugin = IOptimisticTokenVoting__factory.connect(
+      this.optimisticTokenVotingPluginAddress,
+      signer
+    );
+    const estimation = await plugin.estimateGas.execute(proposalId);
+    return this.web3.getApproximateGasFee(estimation.toBigInt());
+  }
+
+  public async cancel(proposalId: bigint): Promise<GasFeeEstimation> {
+    const signer = this.web3.getConnectedSigner();
+    const plugin = IOptimisticTokenVoting__factory.connect(
+      this.optimisticTokenVotingPluginAddress,
+      signer
+    );
+    const estimation = await plugin.estimateGas.cancel(proposalId);
+    return this.web3.getApproximateGasFee(estimation.toBigInt());
+  }
+
+  public async emergencyVeto(proposalId: bigint): Promise<GasFeeEstimation> {
+    const signer = this.web3.getConnectedSigner();
+    const plugin = IOptimisticTokenVoting__factory.connect(
+      this.optimisticTokenVotingPluginAddress,
+      signer
+    );
+    const estimation = await plugin.estimateGas.emergencyVeto(proposalId);
+    return this.web3.getApproximateGasFee(estimation.toBigInt());
+  }
 }
@@ -1,167 +1,1045 @@
-import * as BUILD_METADATA from "../../../../contracts/src/build-metadata.json";
+import * as BUILD_METADATA from '../../../../contracts/src/optimistic-token-voting-build-metadata.json';
 import {
-  NumberListItem,
-  NumbersQueryParams,
-  NumbersSortBy,
+  CancellationForbiddenError,
+  CancellationForbiddenReason,
+  ExecutionForbiddenError,
+  ExecutionForbiddenReason,
+  MetadataUpdateForbiddenError,
+  MetadataUpdateForbiddenReason,
+  MissingExecutionWindowError,
+  PluginUninstallationPreparationError,
+  PluginUpdatePreparationError,
+  TypedDataSigningUnsupportedError,
+  VetoForbiddenError,
+  VetoForbiddenReason,
+} from '../../errors';
+import {
+  CancelProposalStep,
+  CancelProposalStepValue,
+  CreateProposalParams,
+  CreateProposalStep,
+  CreateProposalStepValue,
+  DelegateTokensStep,
+  DelegateTokensStepValue,
+  DelegationTypedData,
+  EmergencyVetoStep,
+  EmergencyVetoStepValue,
+  ExecuteProposalStep,
+  ExecuteProposalStepValue,
+  OptimisticGovernanceSettings,
+  OptimisticProposal,
   PrepareInstallationParams,
-} from "../../types";
+  PrepareUninstallationParams,
+  PrepareUninstallationStep,
+  PrepareUninstallationStepValue,
+  PrepareUpdateParams,
+  PrepareUpdateStep,
+  PrepareUpdateStepValue,
+  ProposalListItem,
+  ProposalQueryParams,
+  ProposalSortBy,
+  SignedDelegation,
+  SignedVeto,
+  UpdateProposalMetadataParams,
+  UpdateProposalMetadataStep,
+  UpdateProposalMetadataStepValue,
+  VetoListItem,
+  VetoManyStep,
+  VetoManyStepValue,
+  VetoProposalStep,
+  VetoProposalStepValue,
+  VetoQueryParams,
+  VetoSortBy,
+  VetoTypedData,
+  VotingPower,
+} from '../../types';
+import { OptimisticTokenVotingClientCore } from '../core';
+import { QueryProposals, QueryVetoes } from '../graphql-queries';
+import { IOptimisticTokenVotingClientMethods } from '../interfaces';
+import { SubgraphProposalListItem, SubgraphVetoListItem } from '../types';
 import {
-  MainVotingPlugin__factory,
-  MemberAccessPlugin__factory,
-  // PersonalSpaceAdminPlugin__factory,
-  SpacePlugin__factory,
-} from "../../../../contracts/typechain";
-import { QueryNumber, QueryNumbers } from "../graphql-queries";
-import { IMyPluginClientMethods } from "../interfaces";
+  buildDelegationTypedData,
+  buildVetoTypedData,
+  computeProposalStatusFilter,
+  hasUndelegatedBalance,
+  isTypedDataSigner,
+  toInstallationParams,
+  toOptimisticProposal,
+  toProposalListItem,
+  toUninstallationData,
+  toVetoListItem,
+} from '../utils';
 import {
-  ProposeMemberStep,
-  ProposeMemberStepValue,
-  SubgraphNumber,
-  SubgraphNumberListItem,
-} from "../types";
-import { toNumber, toNumberListItem } from "../utils";
+  GovernanceERC20,
+  GovernanceERC20__factory,
+  PluginRepo__factory,
+  PluginSetupProcessor__factory,
+} from '@aragon/osx-ethers';
 import {
-  ClientCore,
+  DaoAction,
+  findLog,
+  getNamedTypesFromMetadata,
+  MetadataAbiInput,
+  MultiTargetPermission,
   prepareGenericInstallation,
   PrepareInstallationStepValue,
   SortDirection,
-} from "@aragon/sdk-client-common";
-import { MyPluginContext } from "../../context";
-
-export class MyPluginClientMethods extends ClientCore
-  implements IMyPluginClientMethods {
-  private spacePluginAddress: string;
-  private memberAccessPluginAddress: string;
-  private mainVotingPluginAddress: string;
-
-  private spacePluginRepoAddress: string;
-  private memberAccessPluginRepoAddress: string;
-  private mainVotingPluginRepoAddress: string;
-
-  constructor(pluginContext: MyPluginContext) {
-    super(pluginContext);
-
-    this.spacePluginAddress = pluginContext.spacePluginAddress;
-    this.memberAccessPluginAddress = pluginContext.memberAccessPluginAddress;
-    this.mainVotingPluginAddress = pluginContext.mainVotingPluginAddress;
-    // repos
-    this.spacePluginRepoAddress = pluginContext.spacePluginRepoAddress;
-    this.memberAccessPluginRepoAddress =
-      pluginContext.memberAccessPluginRepoAddress;
-    this.mainVotingPluginRepoAddress =
-      pluginContext.mainVotingPluginRepoAddress;
-  }
-
-  // implementation of the methods in the interface
+} from '@aragon/sdk-client-common';
+import {
+  boolArrayToBitmap,
+  hexToBytes,
+  InvalidAddressError,
+  IpfsPinError,
+  ProposalCreationError,
+} from '@aragon/sdk-common';
+import {
+  IOptimisticTokenVoting__factory,
+  OptimisticTokenVotingPlugin,
+  OptimisticTokenVotingPlugin__factory,
+} from '@aragon/thunderhead-plugin-ethers';
+import { Signer } from '@ethersproject/abstract-signer';
+import { defaultAbiCoder } from '@ethersproject/abi';
+import { isAddress } from '@ethersproject/address';
+import { splitSignature } from '@ethersproject/bytes';
+import { Provider } from '@ethersproject/providers';
+import { toUtf8Bytes } from '@ethersproject/strings';
+
+export class OptimisticTokenVotingClientMethods
+  extends OptimisticTokenVotingClientCore
+  implements IOptimisticTokenVotingClientMethods
+{
   public async *prepareInstallation(
-    params: PrepareInstallationParams,
+    params: PrepareInstallationParams
   ): AsyncGenerator<PrepareInstallationStepValue> {
-    // do any additionall custom operations here before you prepare your plugin
-
-    // ...
-
     yield* prepareGenericInstallation(this.web3, {
       daoAddressOrEns: params.daoAddressOrEns,
-      pluginRepo: this.spacePluginRepoAddress,
+      pluginRepo: this.optimisticTokenVotingRepoAddress,
       version: params.version,
       installationAbi: BUILD_METADATA.pluginSetup.prepareInstallation.inputs,
-      installationParams: [params.settings.number],
+      installationParams: toInstallationParams(params.settings),
     });
   }
 
-  async doSomething() {
-    const spaceClient = new SpacePlugin__factory().attach(
-      this.spacePluginAddress,
+  public async *prepareUpdate(
+    params: PrepareUpdateParams
+  ): AsyncGenerator<PrepareUpdateStepValue> {
+    if (
+      params.currentVersion.build < 2 &&
+      params.executionWindow === undefined
+    ) {
+      throw new MissingExecutionWindowError();
+    }
+    const signer = this.web3.getConnectedSigner();
+    const provider = this.web3.getProvider();
+    const daoAddress = await this.resolveDaoAddress(params.daoAddressOrEns);
+
+    let newVersion = params.newVersion;
+    // if not specified update to the latest build of the current release
+    if (!newVersion) {
+      const pluginRepo = PluginRepo__factory.connect(
+        this.optimisticTokenVotingRepoAddress,
+        signer
+      );
+      const latestVersion = await pluginRepo['getLatestVersion(uint8)'](
+        params.currentVersion.release
+      );
+      newVersion = latestVersion.tag;
+    }
+
+    // the settings introduced since the current build, see `initializeFrom`
+    const updateAbis: Record<string, { inputs: MetadataAbiInput[] }> =
+      BUILD_METADATA.pluginSetup.prepareUpdate;
+    const updateAbi = updateAbis[params.currentVersion.build]?.inputs || [];
+    // build 1 had no execution window
+    const updateParams =
+      params.currentVersion.build < 2 ? [params.executionWindow] : [];
+
+    // the voting token is the only helper of the plugin
+    const plugin = IOptimisticTokenVoting__factory.connect(
+      params.pluginAddress,
+      provider
     );
-    const memberAccessClient = new MemberAccessPlugin__factory().attach(
-      this.memberAccessPluginAddress,
+    const helpers = [await plugin.getVotingToken()];
+
+    const psp = PluginSetupProcessor__factory.connect(
+      this.getPluginSetupProcessorAddress(),
+      signer
     );
-    const mainVotingClient = new MainVotingPlugin__factory().attach(
-      this.mainVotingPluginAddress,
+    const tx = await psp.prepareUpdate(daoAddress, {
+      currentVersionTag: params.currentVersion,
+      newVersionTag: newVersion,
+      pluginSetupRepo: this.optimisticTokenVotingRepoAddress,
+      setupPayload: {
+        plugin: params.pluginAddress,
+        currentHelpers: helpers,
+        data: defaultAbiCoder.encode(
+          getNamedTypesFromMetadata(updateAbi),
+          updateParams
+        ),
+      },
+    });
+
+    yield {
+      key: PrepareUpdateStep.PREPARING,
+      txHash: tx.hash,
+    };
+
+    const receipt = await tx.wait();
+    const log = findLog(receipt, psp.interface, 'UpdatePrepared');
+    if (!log) {
+      throw new PluginUpdatePreparationError();
+    }
+    const parsedLog = psp.interface.parseLog(log);
+
+    yield {
+      key: PrepareUpdateStep.DONE,
+      pluginAddress: params.pluginAddress,
+      pluginRepo: this.optimisticTokenVotingRepoAddress,
+      versionTag: {
+        release: parsedLog.args['newVersionTag'].release,
+        build: parsedLog.args['newVersionTag'].build,
+      },
+      initData: hexToBytes(parsedLog.args['initData']),
+      permissions: parsedLog.args['preparedSetupData'].permissions.map(
+        (permission: MultiTargetPermission) => ({
+          operation: permission.operation,
+          where: permission.where,
+          who: permission.who,
+          condition: permission.condition,
+          permissionId: permission.permissionId,
+        })
+      ),
+      helpers: parsedLog.args['preparedSetupData'].helpers,
+    };
+  }
+
+  public async *prepareUninstallation(
+    params: PrepareUninstallationParams
+  ): AsyncGenerator<PrepareUninstallationStepValue> {
+    const signer = this.web3.getConnectedSigner();
+    const daoAddress = await this.resolveDaoAddress(params.daoAddressOrEns);
+    // the plugin setup processor only accepts the helpers it was given
+    const helpers = await this.getPluginHelpers(
+      daoAddress,
+      params.pluginAddress
+    );
+    // the plugin setup only accepts the guardians it granted the permission to
+    const guardians = await this.getPluginGuardians(
+      daoAddress,
+      params.pluginAddress,
+      params.currentVersion
     );
+    const data = toUninstallationData(guardians);
+
+    const psp = PluginSetupProcessor__factory.connect(
+      this.getPluginSetupProcessorAddress(),
+      signer
+    );
+    const tx = await psp.prepareUninstallation(daoAddress, {
+      pluginSetupRef: {
+        versionTag: params.currentVersion,
+        pluginSetupRepo: this.optimisticTokenVotingRepoAddress,
+      },
+      setupPayload: {
+        plugin: params.pluginAddress,
+        currentHelpers: helpers,
+        data,
+      },
+    });
+
+    yield {
+      key: PrepareUninstallationStep.PREPARING,
+      txHash: tx.hash,
+    };
 
-    // complex operation
-    const tx1 = await memberAccessClient.proposeNewMember(
-      "ipfs://...",
-      "0x0.....",
+    const receipt = await tx.wait();
+    const log = findLog(receipt, psp.interface, 'UninstallationPrepared');
+    if (!log) {
+      throw new PluginUninstallationPreparationError();
+    }
+    const parsedLog = psp.interface.parseLog(log);
+
+    yield {
+      key: PrepareUninstallationStep.DONE,
+      pluginAddress: params.pluginAddress,
+      pluginRepo: this.optimisticTokenVotingRepoAddress,
+      versionTag: {
+        release: parsedLog.args['versionTag'].release,
+        build: parsedLog.args['versionTag'].build,
+      },
+      permissions: parsedLog.args['permissions'].map(
+        (permission: MultiTargetPermission) => ({
+          operation: permission.operation,
+          where: permission.where,
+          who: permission.who,
+          condition: permission.condition,
+          permissionId: permission.permissionId,
+        })
+      ),
+    };
+  }
+
+  public async *createProposal(
+    params: CreateProposalParams
+  ): AsyncGenerator<CreateProposalStepValue> {
+    yield {
+      status: CreateProposalStep.PINNING,
+    };
+
+    let metadataCid: string;
+    try {
+      metadataCid = await this.ipfs.add(JSON.stringify(params.metadata));
+      await this.ipfs.pin(metadataCid);
+    } catch (e) {
+      throw new IpfsPinError(e);
+    }
+
+    const signer = this.web3.getConnectedSigner();
+    const plugin = OptimisticTokenVotingPlugin__factory.connect(
+      this.optimisticTokenVotingPluginAddress,
+      signer
     );
-    await tx1.wait();
 
-    const tx2 = await mainVotingClient.createProposal(
-      "",
-      [],
-      0,
-      0,
-      0,
-      1,
-      false,
+    // the contract falls back to the current timestamp and the
+    // minimum duration of the actions when the dates are 0
+    const startTimestamp = params.startDate?.getTime() || 0;
+    const endTimestamp = params.endDate?.getTime() || 0;
+
+    // the plugin pulls the bond from the creator, if one is required
+    const bond = await plugin.proposalBondSettings();
+    if (!bond.amount.isZero()) {
+      const token = GovernanceERC20__factory.connect(bond.token, signer);
+      const allowance = await token.allowance(
+        await signer.getAddress(),
+        plugin.address
+      );
+      if (allowance.lt(bond.amount)) {
+        const approveTx = await token.approve(plugin.address, bond.amount);
+
+        yield {
+          status: CreateProposalStep.APPROVING,
+          txHash: approveTx.hash,
+        };
+
+        await approveTx.wait();
+      }
+    }
+
+    const tx = await plugin.createProposal(
+      toUtf8Bytes(`ipfs://${metadataCid}`),
+      params.actions || [],
+      boolArrayToBitmap(params.failSafeActions),
+      Math.round(startTimestamp / 1000),
+      Math.round(endTimestamp / 1000)
     );
-    await tx2.wait();
+
+    yield {
+      status: CreateProposalStep.WAITING,
+      txHash: tx.hash,
+    };
+
+    const receipt = await tx.wait();
+    const log = findLog(receipt, plugin.interface, 'ProposalCreated');
+    if (!log) {
+      throw new ProposalCreationError();
+    }
+    const parsedLog = plugin.interface.parseLog(log);
+
+    yield {
+      status: CreateProposalStep.DONE,
+      proposalId: parsedLog.args['proposalId'].toBigInt(),
+    };
   }
 
-  public async getNumber(daoAddressOrEns: string): Promise<bigint> {
-    const query = QueryNumber;
-    const name = "Numbers";
-    type T = { dao: SubgraphNumber };
-    const { dao } = await this.graphql.request<T>({
-      query,
-      params: { id: daoAddressOrEns },
-      name,
+  public async *veto(
+    proposalId: bigint,
+    reason?: string
+  ): AsyncGenerator<VetoProposalStepValue> {
+    const signer = this.web3.getConnectedSigner();
+    const plugin = OptimisticTokenVotingPlugin__factory.connect(
+      this.optimisticTokenVotingPluginAddress,
+      signer
+    );
+    const voterAddress = await signer.getAddress();
+    if (!(await plugin.canVeto(proposalId, voterAddress))) {
+      throw new VetoForbiddenError(
+        await this.getVetoForbiddenReason(plugin, proposalId, voterAddress)
+      );
+    }
+
+    // the reason is only kept in the `VetoReason` event
+    const tx =
+      reason === undefined
+        ? await plugin.veto(proposalId)
+        : await plugin.vetoWithReason(proposalId, reason);
+
+    yield {
+      status: VetoProposalStep.WAITING,
+      txHash: tx.hash,
+    };
+
+    await tx.wait();
+
+    yield {
+      status: VetoProposalStep.DONE,
+    };
+  }
+
+  public async *vetoMany(
+    proposalIds: bigint[]
+  ): AsyncGenerator<VetoManyStepValue> {
+    const signer = this.web3.getConnectedSigner();
+    const plugin = OptimisticTokenVotingPlugin__factory.connect(
+      this.optimisticTokenVotingPluginAddress,
+      signer
+    );
+    // the proposals that cannot be vetoed are skipped by the contract
+    const tx = await plugin.vetoMany(proposalIds);
+
+    yield {
+      status: VetoManyStep.WAITING,
+      txHash: tx.hash,
+    };
+
+    const receipt = await tx.wait();
+    const vetoedProposalIds: bigint[] = [];
+    const skippedProposalIds: bigint[] = [];
+    for (const log of receipt.logs) {
+      // the plugin address of the context is not necessarily checksummed
+      if (log.address.toLowerCase() !== plugin.address.toLowerCase()) {
+        continue;
+      }
+      const parsedLog = plugin.interface.parseLog(log);
+      if (parsedLog.name === 'VetoCast') {
+        vetoedProposalIds.push(parsedLog.args['proposalId'].toBigInt());
+      } else if (parsedLog.name === 'VetoSkipped') {
+        skippedProposalIds.push(parsedLog.args['proposalId'].toBigInt());
+      }
+    }
+
+    yield {
+      status: VetoManyStep.DONE,
+      vetoedProposalIds,
+      skippedProposalIds,
+    };
+  }
+
+  public async *execute(
+    proposalId: bigint
+  ): AsyncGenerator<ExecuteProposalStepValue> {
+    const signer = this.web3.getConnectedSigner();
+    const plugin = OptimisticTokenVotingPlugin__factory.connect(
+      this.optimisticTokenVotingPluginAddress,
+      signer
+    );
+    if (!(await plugin.canExecute(proposalId))) {
+      throw new ExecutionForbiddenError(
+        await this.getExecutionForbiddenReason(plugin, proposalId)
+      );
+    }
+
+    const tx = await plugin.execute(proposalId);
+
+    yield {
+      status: ExecuteProposalStep.WAITING,
+      txHash: tx.hash,
+    };
+
+    await tx.wait();
+
+    yield {
+      status: ExecuteProposalStep.DONE,
+    };
+  }
+
+  public async *cancel(
+    proposalId: bigint
+  ): AsyncGenerator<CancelProposalStepValue> {
+    const signer = this.web3.getConnectedSigner();
+    const plugin = OptimisticTokenVotingPlugin__factory.connect(
+      this.optimisticTokenVotingPluginAddress,
+      signer
+    );
+    // whether the signer is the creator or holds the cancellation
+    // permission is left to the contract
+    const [proposal, block] = await Promise.all([
+      plugin.getProposal(proposalId),
+      this.web3.getProvider().getBlock('latest'),
+    ]);
+    if (proposal.executed) {
+      throw new CancellationForbiddenError(
+        CancellationForbiddenReason.ALREADY_EXECUTED
+      );
+    }
+    if (proposal.cancelled) {
+      throw new CancellationForbiddenError(
+        CancellationForbiddenReason.ALREADY_CANCELLED
+      );
+    }
+    if (block.timestamp >= proposal.parameters.endDate.toNumber()) {
+      throw new CancellationForbiddenError(CancellationForbiddenReason.ENDED);
+    }
+    if (
+      proposal.emergencyVetoed ||
+      proposal.vetoTally.gte(proposal.parameters.minVetoVotingPower)
+    ) {
+      throw new CancellationForbiddenError(
+        CancellationForbiddenReason.DEFEATED
+      );
+    }
+
+    const tx = await plugin.cancel(proposalId);
+
+    yield {
+      status: CancelProposalStep.WAITING,
+      txHash: tx.hash,
+    };
+
+    await tx.wait();
+
+    yield {
+      status: CancelProposalStep.DONE,
+    };
+  }
+
+  public async *emergencyVeto(
+    proposalId: bigint
+  ): AsyncGenerator<EmergencyVetoStepValue> {
+    const signer = this.web3.getConnectedSigner();
+    const plugin = OptimisticTokenVotingPlugin__factory.connect(
+      this.optimisticTokenVotingPluginAddress,
+      signer
+    );
+    // whether the signer holds the emergency veto permission
+    // is left to the contract
+    const proposal = await plugin.getProposal(proposalId);
+    if (!proposal.open) {
+      // a closed proposal fails one of the checks on the proposal state
+      throw new VetoForbiddenError(
+        await this.getVetoForbiddenReason(
+          plugin,
+          proposalId,
+          await signer.getAddress()
+        )
+      );
+    }
+
+    const tx = await plugin.emergencyVeto(proposalId);
+
+    yield {
+      status: EmergencyVetoStep.WAITING,
+      txHash: tx.hash,
+    };
+
+    await tx.wait();
+
+    yield {
+      status: EmergencyVetoStep.DONE,
+    };
+  }
+
+  public async *delegate(
+    delegatee: string
+  ): AsyncGenerator<DelegateTokensStepValue> {
+    if (!isAddress(delegatee)) {
+      throw new InvalidAddressError();
+    }
+    const signer = this.web3.getConnectedSigner();
+    const token = await this.getVotingTokenContract(signer);
+    const tx = await token.delegate(delegatee);
+
+    yield {
+      status: DelegateTokensStep.WAITING,
+      txHash: tx.hash,
+    };
+
+    await tx.wait();
+
+    yield {
+      status: DelegateTokensStep.DONE,
+    };
+  }
+
+  // relays a delegation signed with `signDelegation`, the connected signer
+  // pays for the transaction but the delegator's tokens are delegated
+  public async *delegateBySig(
+    signedDelegation: SignedDelegation
+  ): AsyncGenerator<DelegateTokensStepValue> {
+    const signer = this.web3.getConnectedSigner();
+    const token = await this.getVotingTokenContract(signer);
+    const { v, r, s } = splitSignature(signedDelegation.signature);
+    const tx = await token.delegateBySig(
+      signedDelegation.delegatee,
+      signedDelegation.nonce,
+      Math.round(signedDelegation.expiry.getTime() / 1000),
+      v,
+      r,
+      s
+    );
+
+    yield {
+      status: DelegateTokensStep.WAITING,
+      txHash: tx.hash,
+    };
+
+    await tx.wait();
+
+    yield {
+      status: DelegateTokensStep.DONE,
+    };
+  }
+
+  public async *updateProposalMetadata(
+    params: UpdateProposalMetadataParams
+  ): AsyncGenerator<UpdateProposalMetadataStepValue> {
+    const signer = this.web3.getConnectedSigner();
+    const plugin = OptimisticTokenVotingPlugin__factory.connect(
+      this.optimisticTokenVotingPluginAddress,
+      signer
+    );
+    // whether the signer is the creator is left to the contract
+    const [proposal, block] = await Promise.all([
+      plugin.getProposal(params.proposalId),
+      this.web3.getProvider().getBlock('latest'),
+    ]);
+    if (proposal.cancelled) {
+      throw new MetadataUpdateForbiddenError(
+        MetadataUpdateForbiddenReason.CANCELLED
+      );
+    }
+    if (block.timestamp >= proposal.parameters.startDate.toNumber()) {
+      throw new MetadataUpdateForbiddenError(
+        MetadataUpdateForbiddenReason.STARTED
+      );
+    }
+
+    yield {
+      status: UpdateProposalMetadataStep.PINNING,
+    };
+
+    let metadataCid: string;
+    try {
+      metadataCid = await this.ipfs.add(JSON.stringify(params.metadata));
+      await this.ipfs.pin(metadataCid);
+    } catch (e) {
+      throw new IpfsPinError(e);
+    }
+
+    const tx = await plugin.updateProposalMetadata(
+      params.proposalId,
+      toUtf8Bytes(`ipfs://${metadataCid}`)
+    );
+
+    yield {
+      status: UpdateProposalMetadataStep.WAITING,
+      txHash: tx.hash,
+    };
+
+    await tx.wait();
+
+    yield {
+      status: UpdateProposalMetadataStep.DONE,
+    };
+  }
+
+  public async getVetoTypedData(
+    proposalId: bigint,
+    voterAddress: string,
+    deadline: Date
+  ): Promise<VetoTypedData> {
+    const plugin = IOptimisticTokenVoting__factory.connect(
+      this.optimisticTokenVotingPluginAddress,
+      this.web3.getProvider()
+    );
+    const [nonce, network] = await Promise.all([
+      plugin.vetoNonce(voterAddress),
+      this.web3.getProvider().getNetwork(),
+    ]);
+    return buildVetoTypedData({
+      chainId: network.chainId,
+      pluginAddress: this.optimisticTokenVotingPluginAddress,
+      proposalId,
+      voter: voterAddress,
+      nonce: nonce.toBigInt(),
+      deadline,
     });
-    return toNumber(dao);
   }
 
-  public async getNumbers({
+  // signs the veto without sending a transaction, the result can be
+  // relayed by anyone with `encoding.vetoBySigAction`
+  public async signVeto(
+    proposalId: bigint,
+    deadline: Date
+  ): Promise<SignedVeto> {
+    const signer = this.web3.getConnectedSigner();
+    if (!isTypedDataSigner(signer)) {
+      throw new TypedDataSigningUnsupportedError();
+    }
+    const plugin = OptimisticTokenVotingPlugin__factory.connect(
+      this.optimisticTokenVotingPluginAddress,
+      signer
+    );
+    const voterAddress = await signer.getAddress();
+    if (!(await plugin.canVeto(proposalId, voterAddress))) {
+      throw new VetoForbiddenError(
+        await this.getVetoForbiddenReason(plugin, proposalId, voterAddress)
+      );
+    }
+
+    const { domain, types, value } = await this.getVetoTypedData(
+      proposalId,
+      voterAddress,
+      deadline
+    );
+    const signature = await signer._signTypedData(domain, types, value);
+    return { proposalId, voter: voterAddress, deadline, signature };
+  }
+
+  public async getDelegationTypedData(
+    delegatorAddress: string,
+    delegatee: string,
+    expiry: Date
+  ): Promise<DelegationTypedData> {
+    const provider = this.web3.getProvider();
+    const token = await this.getVotingTokenContract(provider);
+    const [tokenName, nonce, network] = await Promise.all([
+      token.name(),
+      token.nonces(delegatorAddress),
+      provider.getNetwork(),
+    ]);
+    return buildDelegationTypedData({
+      chainId: network.chainId,
+      tokenAddress: token.address,
+      tokenName,
+      delegatee,
+      nonce: nonce.toBigInt(),
+      expiry,
+    });
+  }
+
+  // signs the delegation without sending a transaction, the result can be
+  // relayed by anyone with `delegateBySig`
+  public async signDelegation(
+    delegatee: string,
+    expiry: Date
+  ): Promise<SignedDelegation> {
+    if (!isAddress(delegatee)) {
+      throw new InvalidAddressError();
+    }
+    const signer = this.web3.getConnectedSigner();
+    if (!isTypedDataSigner(signer)) {
+      throw new TypedDataSigningUnsupportedError();
+    }
+    const delegator = await signer.getAddress();
+    const { domain, types, value } = await this.getDelegationTypedData(
+      delegator,
+      delegatee,
+      expiry
+    );
+    const signature = await signer._signTypedData(domain, types, value);
+    return { delegator, delegatee, nonce: value.nonce, expiry, signature };
+  }
+
+  public async getProposal(proposalId: bigint): Promise<OptimisticProposal> {
+    const plugin = OptimisticTokenVotingPlugin__factory.connect(
+      this.optimisticTokenVotingPluginAddress,
+      this.web3.getProvider()
+    );
+    const [proposal, block] = await Promise.all([
+      plugin.getProposal(proposalId),
+      this.web3.getProvider().getBlock('latest'),
+    ]);
+    return toOptimisticProposal(proposalId, proposal, block.timestamp);
+  }
+
+  public async canVeto(
+    proposalId: bigint,
+    voterAddress: string
+  ): Promise<boolean> {
+    const plugin = IOptimisticTokenVoting__factory.connect(
+      this.optimisticTokenVotingPluginAddress,
+      this.web3.getProvider()
+    );
+    return plugin.canVeto(proposalId, voterAddress);
+  }
+
+  public async hasVetoed(
+    proposalId: bigint,
+    voterAddress: string
+  ): Promise<boolean> {
+    const plugin = IOptimisticTokenVoting__factory.connect(
+      this.optimisticTokenVotingPluginAddress,
+      this.web3.getProvider()
+    );
+    return plugin.hasVetoed(proposalId, voterAddress);
+  }
+
+  public async canExecute(proposalId: bigint): Promise<boolean> {
+    const plugin = IOptimisticTokenVoting__factory.connect(
+      this.optimisticTokenVotingPluginAddress,
+      this.web3.getProvider()
+    );
+    return plugin.canExecute(proposalId);
+  }
+
+  public async isMinVetoRatioReached(proposalId: bigint): Promise<boolean> {
+    const plugin = IOptimisticTokenVoting__factory.connect(
+      this.optimisticTokenVotingPluginAddress,
+      this.web3.getProvider()
+    );
+    return plugin.isMinVetoRatioReached(proposalId);
+  }
+
+  public async getVotingToken(): Promise<string> {
+    const plugin = IOptimisticTokenVoting__factory.connect(
+      this.optimisticTokenVotingPluginAddress,
+      this.web3.getProvider()
+    );
+    return plugin.getVotingToken();
+  }
+
+  public async getVotingPower(
+    account: string,
+    proposalId?: bigint
+  ): Promise<VotingPower> {
+    const provider = this.web3.getProvider();
+    const plugin = OptimisticTokenVotingPlugin__factory.connect(
+      this.optimisticTokenVotingPluginAddress,
+      provider
+    );
+    const token = await this.getVotingTokenContract(provider);
+    const [votes, balance, delegatee, isMember, minProposerVotingPower] =
+      await Promise.all([
+        token.getVotes(account),
+        token.balanceOf(account),
+        token.delegates(account),
+        plugin.isMember(account),
+        plugin.minProposerVotingPower(),
+      ]);
+    const votingPower: VotingPower = {
+      votes: votes.toBigInt(),
+      balance: balance.toBigInt(),
+      delegatee,
+      isMember,
+      canPropose:
+        minProposerVotingPower.isZero() ||
+        votes.gte(minProposerVotingPower) ||
+        balance.gte(minProposerVotingPower),
+    };
+    if (proposalId === undefined) {
+      return votingPower;
+    }
+
+    const [proposal, canVeto] = await Promise.all([
+      plugin.getProposal(proposalId),
+      plugin.canVeto(proposalId, account),
+    ]);
+    const pastVotes = await token.getPastVotes(
+      account,
+      proposal.parameters.snapshotTimepoint
+    );
+    return { ...votingPower, pastVotes: pastVotes.toBigInt(), canVeto };
+  }
+
+  // the zero address if the account did not delegate its tokens
+  public async getDelegatee(account: string): Promise<string> {
+    const token = await this.getVotingTokenContract(this.web3.getProvider());
+    return token.delegates(account);
+  }
+
+  // the holders among the given accounts whose balance does not count for
+  // vetoing, to warn them before they try to
+  public async getUndelegatedHolders(holders: string[]): Promise<string[]> {
+    const token = await this.getVotingTokenContract(this.web3.getProvider());
+    const undelegated = await Promise.all(
+      holders.map(async (holder) => {
+        const [balance, votes] = await Promise.all([
+          token.balanceOf(holder),
+          token.getVotes(holder),
+        ]);
+        return hasUndelegatedBalance({
+          balance: balance.toBigInt(),
+          votes: votes.toBigInt(),
+        });
+      })
+    );
+    return holders.filter((_, index) => undelegated[index]);
+  }
+
+  public async getGovernanceSettings(): Promise<OptimisticGovernanceSettings> {
+    const plugin = IOptimisticTokenVoting__factory.connect(
+      this.optimisticTokenVotingPluginAddress,
+      this.web3.getProvider()
+    );
+    const [minVetoRatio, minDuration, executionWindow, minProposerVotingPower] =
+      await Promise.all([
+        plugin.minVetoRatio(),
+        plugin.minDuration(),
+        plugin.executionWindow(),
+        plugin.minProposerVotingPower(),
+      ]);
+    return {
+      minVetoRatio,
+      minDuration: minDuration.toNumber(),
+      executionWindow: executionWindow.toNumber(),
+      minProposerVotingPower: minProposerVotingPower.toBigInt(),
+    };
+  }
+
+  // the minimum duration in seconds of a proposal with the given actions,
+  // which can be longer than `minDuration` for sensitive actions
+  public async getEffectiveMinDuration(actions: DaoAction[]): Promise<number> {
+    const plugin = IOptimisticTokenVoting__factory.connect(
+      this.optimisticTokenVotingPluginAddress,
+      this.web3.getProvider()
+    );
+    const duration = await plugin.effectiveMinDuration(actions);
+    return duration.toNumber();
+  }
+
+  public async getProposals({
     limit = 10,
     skip = 0,
     direction = SortDirection.ASC,
-    sortBy = NumbersSortBy.CREATED_AT,
-  }: NumbersQueryParams): Promise<NumberListItem[]> {
-    const query = QueryNumbers;
+    sortBy = ProposalSortBy.CREATED_AT,
+    status,
+    creatorAddress,
+    daoAddressOrEns,
+  }: ProposalQueryParams): Promise<ProposalListItem[]> {
+    const now = Math.round(Date.now() / 1000);
+    let where: Record<string, string | boolean> = {};
+    if (daoAddressOrEns) {
+      const address = await this.resolveDaoAddress(daoAddressOrEns);
+      where = { ...where, dao: address.toLowerCase() };
+    }
+    if (creatorAddress) {
+      where = { ...where, creator: creatorAddress.toLowerCase() };
+    }
+    if (status) {
+      where = { ...where, ...computeProposalStatusFilter(status, now) };
+    }
+    const query = QueryProposals;
     const params = {
+      where,
       limit,
       skip,
       direction,
       sortBy,
     };
-    const name = "Numbers";
-    type T = { daos: SubgraphNumberListItem[] };
-    const { daos } = await this.graphql.request<T>({
+    const name = 'OptimisticProposals';
+    type T = { optimisticProposals: SubgraphProposalListItem[] };
+    const { optimisticProposals } = await this.graphql.request<T>({
       query,
       params,
       name,
     });
     return Promise.all(
-      daos.map(async (number) => {
-        return toNumberListItem(number);
-      }),
+      optimisticProposals.map(async (proposal) => {
+        return toProposalListItem(proposal, now);
+      })
     );
   }
 
-  // implementation of the methods in the interface
-  public async *proposeMember(
-    memberAddress: string,
-  ): AsyncGenerator<ProposeMemberStepValue> {
-    const signer = this.web3.getSigner();
-    const storageClient = MemberAccessPlugin__factory.connect(
-      this.spacePluginAddress,
-      signer,
-    );
-
-    // TODO: PIN metadata
-    const metadataUri = "ipfs://...";
-
-    const tx = await storageClient.proposeNewMember(metadataUri, memberAddress);
-
-    yield {
-      status: ProposeMemberStep.WAITING,
-      txHash: tx.hash,
+  public async getVetoes({
+    limit = 10,
+    skip = 0,
+    direction = SortDirection.ASC,
+    sortBy = VetoSortBy.CREATED_AT,
+    proposalId,
+  }: VetoQueryParams): Promise<VetoListItem[]> {
+    const query = QueryVetoes;
+    const params = {
+      where: { proposal: proposalId },
+      limit,
+      skip,
+      direction,
+      sortBy,
     };
+    const name = 'Vetoes';
+    type T = { vetoes: SubgraphVetoListItem[] };
+    const { vetoes } = await this.graphql.request<T>({
+      query,
+      params,
+      name,
+    });
+    return vetoes.map(toVetoListItem);
+  }
 
-    await tx.wait();
+  // the `GovernanceERC20` or `GovernanceWrappedERC20` voting token, ERC-721
+  // tokens share the selectors of the `IVotes` functions but not the domain
+  // of the signed delegations
+  private async getVotingTokenContract(
+    signerOrProvider: Signer | Provider
+  ): Promise<GovernanceERC20> {
+    const plugin = IOptimisticTokenVoting__factory.connect(
+      this.optimisticTokenVotingPluginAddress,
+      signerOrProvider
+    );
+    return GovernanceERC20__factory.connect(
+      await plugin.getVotingToken(),
+      signerOrProvider
+    );
+  }
 
-    yield {
-      status: ProposeMemberStep.DONE,
-    };
+  // mirrors the checks of `canVeto` in the plugin contract
+  // to tell why the veto is not allowed
+  private async getVetoForbiddenReason(
+    plugin: OptimisticTokenVotingPlugin,
+    proposalId: bigint,
+    voterAddress: string
+  ): Promise<VetoForbiddenReason> {
+    const [proposal, block] = await Promise.all([
+      plugin.getProposal(proposalId),
+      this.web3.getProvider().getBlock('latest'),
+    ]);
+    const { startDate, endDate } = proposal.parameters;
+    if (proposal.cancelled) {
+      return VetoForbiddenReason.CANCELLED;
+    }
+    if (block.timestamp < startDate.toNumber()) {
+      return VetoForbiddenReason.NOT_STARTED;
+    }
+    // an executed proposal has always ended
+    if (block.timestamp >= endDate.toNumber() || proposal.executed) {
+      return VetoForbiddenReason.ENDED;
+    }
+    if (
+      proposal.emergencyVetoed ||
+      proposal.vetoTally.gte(proposal.parameters.minVetoVotingPower)
+    ) {
+      return VetoForbiddenReason.DEFEATED;
+    }
+    if (await plugin.hasVetoed(proposalId, voterAddress)) {
+      return VetoForbiddenReason.ALREADY_VETOED;
+    }
+    return VetoForbiddenReason.NO_VOTING_POWER;
+  }
+
+  // mirrors the checks of `canExecute` in the plugin contract
+  // to tell why the execution is not allowed
+  private async getExecutionForbiddenReason(
+    plugin: OptimisticTokenVotingPlugin,
+    proposalId: bigint
+  ): Promise<ExecutionForbiddenReason> {
+    const [proposal, block] = await Promise.all([
+      plugin.getProposal(proposalId),
+      this.web3.getProvider().getBlock('latest'),
+    ]);
+    if (proposal.executed) {
+      return ExecutionForbiddenReason.ALREADY_EXECUTED;
+    }
+    if (proposal.cancelled) {
+      return ExecutionForbiddenReason.CANCELLED;
+    }
+    if (proposal.emergencyVetoed) {
+      return ExecutionForbiddenReason.EMERGENCY_VETOED;
+    }
+    if (proposal.vetoTally.gte(proposal.parameters.minVetoVotingPower)) {
+      return ExecutionForbiddenReason.MIN_VETO_RATIO_REACHED;
+    }
+    if (block.timestamp < proposal.parameters.endDate.toNumber()) {
+      return ExecutionForbiddenReason.NOT_ENDED;
+    }
+    return ExecutionForbiddenReason.EXPIRED;
   }
 }
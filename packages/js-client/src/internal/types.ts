@@ -1,44 +1,66 @@
-import { ContextState, OverriddenState } from "@aragon/sdk-client-common";
+import { ContextState, OverriddenState } from '@aragon/sdk-client-common';
+import { OptimisticTokenVotingPlugin } from '@aragon/thunderhead-plugin-ethers';
 
-export type SubgraphNumberListItem = {
+export type ContractOptimisticProposal = Awaited<
+  ReturnType<OptimisticTokenVotingPlugin['getProposal']>
+>;
+
+export type SubgraphProposalListItem = {
   id: string;
-  subdomain: string;
-  number: {
-    value: string;
+  dao: {
+    id: string;
   };
+  creator: string;
+  metadata: string;
+  pluginProposalId: string;
+  createdAt: string;
+  startDate: string;
+  endDate: string;
+  expirationDate: string;
+  executed: boolean;
+  cancelled: boolean;
+  vetoTally: string;
+  minVetoVotingPower: string;
+  minVetoRatioReached: boolean;
+  emergencyVetoed: boolean;
+  clockMode: string;
+};
+
+export type SubgraphPluginHelpers = {
+  helpers: string[] | null;
 };
 
-export type SubgraphNumber = {
-  number: {
-    value: string;
+export type SubgraphPluginGuardians = {
+  guardians: string[] | null;
+};
+
+export type SubgraphVetoListItem = {
+  id: string;
+  voter: {
+    address: string;
   };
+  votingPower: string;
+  reason: string | null;
+  createdAt: string;
 };
 
-export type MyPluginContextState = ContextState & {
+export type ProposalStatusParams = {
+  executed: boolean;
+  cancelled: boolean;
+  startDate: number;
+  endDate: number;
+  expirationDate: number;
+  minVetoRatioReached: boolean;
+  emergencyVetoed: boolean;
+};
+
+export type OptimisticTokenVotingContextState = ContextState & {
   // extend the Context state with a new state for storing
   // the new parameters
-  spacePluginAddress: string;
-  memberAccessPluginAddress: string;
-  mainVotingPluginAddress: string;
-
-  spacePluginRepoAddress: string;
-  memberAccessPluginRepoAddress: string;
-  mainVotingPluginRepoAddress: string;
+  optimisticTokenVotingPluginAddress: string;
+  optimisticTokenVotingRepoAddress: string;
 };
 
-export type MyPluginOverriddenState =
-  & OverriddenState
-  & {
-    [key in keyof MyPluginContextState]: boolean;
-  };
-
-export enum ProposeMemberStep {
-  WAITING = "waiting",
-  DONE = "done",
-}
-export type ProposeMemberStepValue = {
-  status: ProposeMemberStep.WAITING;
-  txHash: string;
-} | {
-  status: ProposeMemberStep.DONE;
+export type OptimisticTokenVotingOverriddenState = OverriddenState & {
+  [key in keyof OptimisticTokenVotingContextState]: boolean;
 };
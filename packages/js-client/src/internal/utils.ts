@@ -1,15 +1,443 @@
-import { NumberListItem } from '../types';
-import { SubgraphNumber, SubgraphNumberListItem } from './types';
+import * as BUILD_METADATA from '../../../contracts/src/optimistic-token-voting-build-metadata.json';
+import {
+  InvalidGovernanceSettingsError,
+  InvalidGovernanceSettingsReason,
+  InvalidProposalBondSettingsError,
+} from '../errors';
+import {
+  ClockMode,
+  DelegationTypedData,
+  OptimisticGovernanceSettings,
+  OptimisticProposal,
+  OptimisticTokenVotingPluginInstall,
+  OptimisticProposalStatus,
+  ProposalListItem,
+  VetoListItem,
+  VetoTypedData,
+  VotingPower,
+} from '../types';
+import {
+  ContractOptimisticProposal,
+  ProposalStatusParams,
+  SubgraphProposalListItem,
+  SubgraphVetoListItem,
+} from './types';
+import { getNamedTypesFromMetadata } from '@aragon/sdk-client-common';
+import {
+  hexToBytes,
+  InvalidAddressError,
+  SizeMismatchError,
+} from '@aragon/sdk-common';
+import { defaultAbiCoder } from '@ethersproject/abi';
+import { Signer, TypedDataSigner } from '@ethersproject/abstract-signer';
+import { isAddress } from '@ethersproject/address';
+import { AddressZero } from '@ethersproject/constants';
 
-export function toNumberListItem(
-  number: SubgraphNumberListItem
-): NumberListItem {
+// `now` is expected to be in seconds. For proposals read from the plugin
+// contract it is the timestamp of the latest block, the same value the
+// contract compares the proposal dates against.
+export function computeProposalStatus(
+  {
+    executed,
+    cancelled,
+    startDate,
+    endDate,
+    expirationDate,
+    minVetoRatioReached,
+    emergencyVetoed,
+  }: ProposalStatusParams,
+  now: number
+): OptimisticProposalStatus {
+  if (executed) {
+    return OptimisticProposalStatus.EXECUTED;
+  }
+  if (cancelled) {
+    return OptimisticProposalStatus.CANCELLED;
+  }
+  // `_isProposalDefeated`, the veto reaching the min veto ratio or an
+  // emergency veto closes the proposal
+  if (minVetoRatioReached || emergencyVetoed) {
+    return OptimisticProposalStatus.DEFEATED;
+  }
+  // `_isProposalOpen`
+  if (now < startDate) {
+    return OptimisticProposalStatus.PENDING;
+  }
+  if (now < endDate) {
+    return OptimisticProposalStatus.ACTIVE;
+  }
+  // `_isProposalExpired`
+  if (now >= expirationDate) {
+    return OptimisticProposalStatus.EXPIRED;
+  }
+  return OptimisticProposalStatus.SUCCEEDED;
+}
+
+// Builds the subgraph filter matching the proposals that
+// `computeProposalStatus` would give the same status at `now`. The subgraph
+// stores no status, since nothing is emitted when a proposal expires, so the
+// dates are compared with `now` instead
+export function computeProposalStatusFilter(
+  status: OptimisticProposalStatus,
+  now: number
+): Record<string, string | boolean> {
+  const timestamp = now.toString();
+  switch (status) {
+    case OptimisticProposalStatus.PENDING:
+      return { executed: false, cancelled: false, startDate_gt: timestamp };
+    case OptimisticProposalStatus.ACTIVE:
+      return {
+        executed: false,
+        cancelled: false,
+        startDate_lte: timestamp,
+        endDate_gt: timestamp,
+        defeated: false,
+      };
+    case OptimisticProposalStatus.DEFEATED:
+      return {
+        executed: false,
+        cancelled: false,
+        defeated: true,
+      };
+    case OptimisticProposalStatus.SUCCEEDED:
+      return {
+        executed: false,
+        cancelled: false,
+        endDate_lte: timestamp,
+        expirationDate_gt: timestamp,
+        defeated: false,
+      };
+    case OptimisticProposalStatus.EXECUTED:
+      return { executed: true };
+    case OptimisticProposalStatus.CANCELLED:
+      return { executed: false, cancelled: true };
+    case OptimisticProposalStatus.EXPIRED:
+      return {
+        executed: false,
+        cancelled: false,
+        expirationDate_lte: timestamp,
+        defeated: false,
+      };
+  }
+}
+
+// `RATIO_BASE` of the plugin, a `minVetoRatio` of 100% is 10^6
+const RATIO_BASE = 1_000_000;
+const ONE_DAY = 60 * 60 * 24;
+
+// mirrors the checks of `_updateOptimisticGovernanceSettings` in the plugin
+// contract, so that an invalid settings update fails before its proposal
+// is created instead of when it is executed
+export function validateGovernanceSettings(
+  settings: OptimisticGovernanceSettings
+): void {
+  if (settings.minVetoRatio <= 0 || settings.minVetoRatio > RATIO_BASE) {
+    throw new InvalidGovernanceSettingsError(
+      InvalidGovernanceSettingsReason.MIN_VETO_RATIO_OUT_OF_BOUNDS
+    );
+  }
+  if (
+    settings.minDuration < 4 * ONE_DAY ||
+    settings.minDuration > 365 * ONE_DAY
+  ) {
+    throw new InvalidGovernanceSettingsError(
+      InvalidGovernanceSettingsReason.MIN_DURATION_OUT_OF_BOUNDS
+    );
+  }
+  if (
+    settings.executionWindow < ONE_DAY ||
+    settings.executionWindow > 365 * ONE_DAY
+  ) {
+    throw new InvalidGovernanceSettingsError(
+      InvalidGovernanceSettingsReason.EXECUTION_WINDOW_OUT_OF_BOUNDS
+    );
+  }
+}
+
+// checks the installation inputs that the plugin setup would only reject
+// once the installation is prepared on chain
+export function validatePluginInstall(
+  params: OptimisticTokenVotingPluginInstall
+): void {
+  validateGovernanceSettings(params.governanceSettings);
+  const { address } = params.tokenSettings;
+  const { receivers, amounts } = params.mintSettings ?? {
+    receivers: [],
+    amounts: [],
+  };
+  if (receivers.length !== amounts.length) {
+    throw new SizeMismatchError();
+  }
+  const { proposalBond } = params;
+  const addresses = [
+    ...(address === undefined ? [] : [address]),
+    ...receivers,
+    ...params.proposers,
+    ...(params.guardians ?? []),
+    ...(proposalBond ? [proposalBond.token, proposalBond.treasury] : []),
+  ];
+  if (!addresses.every((address) => isAddress(address))) {
+    throw new InvalidAddressError();
+  }
+  if (
+    proposalBond &&
+    proposalBond.amount > BigInt(0) &&
+    (proposalBond.token === AddressZero ||
+      proposalBond.treasury === AddressZero)
+  ) {
+    throw new InvalidProposalBondSettingsError();
+  }
+}
+
+// the values of the `prepareInstallation` inputs of the build metadata,
+// in the same order
+export function toInstallationParams(
+  params: OptimisticTokenVotingPluginInstall
+): unknown[] {
+  validatePluginInstall(params);
+  const { governanceSettings, tokenSettings, mintSettings, proposalBond } =
+    params;
+  return [
+    {
+      minVetoRatio: governanceSettings.minVetoRatio,
+      minDuration: governanceSettings.minDuration,
+      executionWindow: governanceSettings.executionWindow,
+      minProposerVotingPower: governanceSettings.minProposerVotingPower,
+    },
+    {
+      token: tokenSettings.address ?? AddressZero,
+      name: tokenSettings.name,
+      symbol: tokenSettings.symbol,
+    },
+    {
+      receivers: mintSettings?.receivers ?? [],
+      amounts: mintSettings?.amounts ?? [],
+    },
+    params.proposers,
+    params.guardians ?? [],
+    {
+      token: proposalBond?.token ?? AddressZero,
+      amount: proposalBond?.amount ?? BigInt(0),
+      treasury: proposalBond?.treasury ?? AddressZero,
+    },
+  ];
+}
+
+// the `prepareUninstallation` data of the build metadata
+export function toUninstallationData(guardians: string[] = []): string {
+  if (!guardians.every((guardian) => isAddress(guardian))) {
+    throw new InvalidAddressError();
+  }
+  return defaultAbiCoder.encode(
+    getNamedTypesFromMetadata(
+      BUILD_METADATA.pluginSetup.prepareUninstallation.inputs
+    ),
+    [guardians]
+  );
+}
+
+export function toOptimisticProposal(
+  proposalId: bigint,
+  proposal: ContractOptimisticProposal,
+  now: number
+): OptimisticProposal {
+  const {
+    startDate,
+    endDate,
+    snapshotTimepoint,
+    clockMode,
+    expirationDate,
+    minVetoVotingPower,
+  } = proposal.parameters;
+  const vetoTally = proposal.vetoTally.toBigInt();
+  return {
+    id: proposalId,
+    open: proposal.open,
+    executed: proposal.executed,
+    cancelled: proposal.cancelled,
+    emergencyVetoed: proposal.emergencyVetoed,
+    parameters: {
+      startDate: new Date(startDate.toNumber() * 1000),
+      endDate: new Date(endDate.toNumber() * 1000),
+      snapshotTimepoint: snapshotTimepoint.toNumber(),
+      // follows the order of the `ClockMode` enum of the plugin
+      clockMode: clockMode === 1 ? ClockMode.TIMESTAMP : ClockMode.BLOCK_NUMBER,
+      expirationDate: new Date(expirationDate.toNumber() * 1000),
+      minVetoVotingPower: minVetoVotingPower.toBigInt(),
+    },
+    vetoTally,
+    actions: proposal.actions.map((action) => ({
+      to: action.to,
+      value: action.value.toBigInt(),
+      data: hexToBytes(action.data),
+    })),
+    allowFailureMap: proposal.allowFailureMap.toBigInt(),
+    status: computeProposalStatus(
+      {
+        executed: proposal.executed,
+        cancelled: proposal.cancelled,
+        startDate: startDate.toNumber(),
+        endDate: endDate.toNumber(),
+        expirationDate: expirationDate.toNumber(),
+        minVetoRatioReached: proposal.vetoTally.gte(minVetoVotingPower),
+        emergencyVetoed: proposal.emergencyVetoed,
+      },
+      now
+    ),
+    vetoPercentage: minVetoVotingPower.isZero()
+      ? 100
+      : Number((vetoTally * BigInt(10000)) / minVetoVotingPower.toBigInt()) /
+        100,
+    timeRemaining: Math.max(endDate.toNumber() - now, 0),
+  };
+}
+
+export function toProposalListItem(
+  proposal: SubgraphProposalListItem,
+  now: number
+): ProposalListItem {
+  const startDate = parseInt(proposal.startDate);
+  const endDate = parseInt(proposal.endDate);
+  const expirationDate = parseInt(proposal.expirationDate);
   return {
-    id: number.id,
-    subdomain: number.subdomain,
-    value: BigInt(number.number.value),
+    id: proposal.id,
+    pluginProposalId: BigInt(proposal.pluginProposalId),
+    daoAddress: proposal.dao.id,
+    creatorAddress: proposal.creator,
+    metadataUri: proposal.metadata,
+    createdAt: new Date(parseInt(proposal.createdAt) * 1000),
+    startDate: new Date(startDate * 1000),
+    endDate: new Date(endDate * 1000),
+    expirationDate: new Date(expirationDate * 1000),
+    status: computeProposalStatus(
+      {
+        executed: proposal.executed,
+        cancelled: proposal.cancelled,
+        startDate,
+        endDate,
+        expirationDate,
+        minVetoRatioReached: proposal.minVetoRatioReached,
+        emergencyVetoed: proposal.emergencyVetoed,
+      },
+      now
+    ),
+    vetoTally: BigInt(proposal.vetoTally),
+    minVetoVotingPower: BigInt(proposal.minVetoVotingPower),
+    clockMode: proposal.clockMode as ClockMode,
   };
 }
-export function toNumber(number: SubgraphNumber): bigint {
-  return BigInt(number.number.value);
+
+export function toVetoListItem(veto: SubgraphVetoListItem): VetoListItem {
+  return {
+    id: veto.id,
+    voterAddress: veto.voter.address,
+    votingPower: BigInt(veto.votingPower),
+    reason: veto.reason ?? undefined,
+    createdAt: new Date(parseInt(veto.createdAt) * 1000),
+  };
+}
+
+// EIP-712 domain of the plugin, see `domainSeparator`
+const EIP712_NAME = 'OptimisticTokenVotingPlugin';
+const EIP712_VERSION = '1';
+
+export function buildVetoTypedData({
+  chainId,
+  pluginAddress,
+  proposalId,
+  voter,
+  nonce,
+  deadline,
+}: {
+  chainId: number;
+  pluginAddress: string;
+  proposalId: bigint;
+  voter: string;
+  nonce: bigint;
+  deadline: Date;
+}): VetoTypedData {
+  return {
+    domain: {
+      name: EIP712_NAME,
+      version: EIP712_VERSION,
+      chainId,
+      verifyingContract: pluginAddress,
+    },
+    // must match `VETO_TYPEHASH`
+    types: {
+      Veto: [
+        { name: 'proposalId', type: 'uint256' },
+        { name: 'voter', type: 'address' },
+        { name: 'nonce', type: 'uint256' },
+        { name: 'deadline', type: 'uint256' },
+      ],
+    },
+    value: {
+      proposalId,
+      voter,
+      nonce,
+      deadline: BigInt(Math.round(deadline.getTime() / 1000)),
+    },
+  };
+}
+
+// EIP-712 domain of the `GovernanceERC20` and `GovernanceWrappedERC20`
+// tokens, named after the token itself
+const VOTES_EIP712_VERSION = '1';
+
+export function buildDelegationTypedData({
+  chainId,
+  tokenAddress,
+  tokenName,
+  delegatee,
+  nonce,
+  expiry,
+}: {
+  chainId: number;
+  tokenAddress: string;
+  tokenName: string;
+  delegatee: string;
+  nonce: bigint;
+  expiry: Date;
+}): DelegationTypedData {
+  return {
+    domain: {
+      name: tokenName,
+      version: VOTES_EIP712_VERSION,
+      chainId,
+      verifyingContract: tokenAddress,
+    },
+    // must match `_DELEGATION_TYPEHASH` of `ERC20VotesUpgradeable`
+    types: {
+      Delegation: [
+        { name: 'delegatee', type: 'address' },
+        { name: 'nonce', type: 'uint256' },
+        { name: 'expiry', type: 'uint256' },
+      ],
+    },
+    value: {
+      delegatee,
+      nonce,
+      expiry: BigInt(Math.round(expiry.getTime() / 1000)),
+    },
+  };
+}
+
+// a holder with a balance but no votes cannot veto, either because the
+// tokens were never delegated or because they were delegated to someone else
+export function hasUndelegatedBalance({
+  balance,
+  votes,
+}: Pick<VotingPower, 'balance' | 'votes'>): boolean {
+  return balance > BigInt(0) && votes === BigInt(0);
+}
+
+// `_signTypedData` is not part of the `Signer` interface, ethers only
+// implements it on some of its signers such as `Wallet` and `JsonRpcSigner`
+export function isTypedDataSigner(
+  signer: Signer
+): signer is Signer & TypedDataSigner {
+  return (
+    typeof (signer as Partial<TypedDataSigner>)._signTypedData === 'function'
+  );
 }
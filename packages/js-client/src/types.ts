@@ -1,41 +1,428 @@
 import {
   ContextParams,
+  DaoAction,
+  MultiTargetPermission,
   Pagination,
+  ProposalMetadata,
   VersionTag,
-} from "@aragon/sdk-client-common";
+} from '@aragon/sdk-client-common';
+import {
+  TypedDataDomain,
+  TypedDataField,
+} from '@ethersproject/abstract-signer';
 
-export type MyPluginContextParams = ContextParams & {
+export type OptimisticTokenVotingContextParams = ContextParams & {
   // optional so we can set default values for the parameter
-  spacePluginAddress?: string;
-  memberAccessPluginAddress?: string;
-  mainVotingPluginAddress?: string;
-
-  spacePluginRepoAddress?: string;
-  memberAccessPluginRepoAddress?: string;
-  mainVotingPluginRepoAddress?: string;
-  // add custom params
+  optimisticTokenVotingPluginAddress?: string;
+  optimisticTokenVotingRepoAddress?: string;
 };
 
 export type PrepareInstallationParams = {
   daoAddressOrEns: string;
   version?: VersionTag;
-  settings: {
-    number: bigint;
+  settings: OptimisticTokenVotingPluginInstall;
+};
+
+// the `prepareInstallation` inputs of the build metadata
+export type OptimisticTokenVotingPluginInstall = {
+  governanceSettings: OptimisticGovernanceSettings;
+  tokenSettings: TokenSettings;
+  // only used when a new token is deployed
+  mintSettings?: MintSettings;
+  // the addresses that can create proposals
+  proposers: string[];
+  // the addresses that can defeat proposals in an emergency
+  guardians?: string[];
+  // if not specified proposal creators deposit no bond
+  proposalBond?: ProposalBondSettings;
+};
+
+export type TokenSettings = {
+  // an existing ERC-20 token or ERC-721 NFT, if not specified a new
+  // `GovernanceERC20` token is deployed
+  address?: string;
+  // of the new token, or of the `GovernanceWrappedERC20` that wraps an
+  // existing ERC-20 token without voting power
+  name: string;
+  symbol: string;
+};
+
+export type MintSettings = {
+  receivers: string[];
+  amounts: bigint[];
+};
+
+export type ProposalBondSettings = {
+  // the ERC-20 token of the bond
+  token: string;
+  amount: bigint;
+  // the recipient of the bonds of the defeated proposals, usually the DAO
+  treasury: string;
+};
+
+export type PrepareUpdateParams = {
+  daoAddressOrEns: string;
+  pluginAddress: string;
+  // the version the plugin is currently installed with
+  currentVersion: VersionTag;
+  // if not specified the plugin is updated to the latest build
+  newVersion?: VersionTag;
+  // required to update from build 1, which had no execution window
+  executionWindow?: number;
+};
+
+export enum PrepareUpdateStep {
+  PREPARING = 'preparing',
+  DONE = 'done',
+}
+export type PrepareUpdateStepValue =
+  | {
+      key: PrepareUpdateStep.PREPARING;
+      txHash: string;
+    }
+  | ({
+      key: PrepareUpdateStep.DONE;
+    } & ApplyUpdateParams);
+
+// what `applyUpdate` of the plugin setup processor expects
+export type ApplyUpdateParams = {
+  pluginAddress: string;
+  pluginRepo: string;
+  versionTag: VersionTag;
+  initData: Uint8Array;
+  permissions: MultiTargetPermission[];
+  helpers: string[];
+};
+
+export type PrepareUninstallationParams = {
+  daoAddressOrEns: string;
+  pluginAddress: string;
+  // the version the plugin is currently installed with
+  currentVersion: VersionTag;
+};
+
+export enum PrepareUninstallationStep {
+  PREPARING = 'preparing',
+  DONE = 'done',
+}
+export type PrepareUninstallationStepValue =
+  | {
+      key: PrepareUninstallationStep.PREPARING;
+      txHash: string;
+    }
+  | ({
+      key: PrepareUninstallationStep.DONE;
+    } & ApplyUninstallationParams);
+
+// what `applyUninstallation` of the plugin setup processor expects
+export type ApplyUninstallationParams = {
+  pluginAddress: string;
+  pluginRepo: string;
+  versionTag: VersionTag;
+  permissions: MultiTargetPermission[];
+};
+
+export type OptimisticGovernanceSettings = {
+  minVetoRatio: number;
+  minDuration: number;
+  // seconds after the end date during which a proposal can be executed
+  executionWindow: number;
+  minProposerVotingPower: bigint;
+};
+
+export type CreateProposalParams = {
+  metadata: ProposalMetadata;
+  actions?: DaoAction[];
+  // actions that are allowed to fail without reverting the whole execution
+  failSafeActions?: boolean[];
+  // if not specified the proposal starts immediately
+  startDate?: Date;
+  // if not specified the proposal ends after the minimum duration,
+  // see `getEffectiveMinDuration`
+  endDate?: Date;
+};
+
+export enum CreateProposalStep {
+  PINNING = 'pinning',
+  APPROVING = 'approving',
+  WAITING = 'waiting',
+  DONE = 'done',
+}
+export type CreateProposalStepValue =
+  | {
+      status: CreateProposalStep.PINNING;
+    }
+  | {
+      status: CreateProposalStep.APPROVING;
+      txHash: string;
+    }
+  | {
+      status: CreateProposalStep.WAITING;
+      txHash: string;
+    }
+  | {
+      status: CreateProposalStep.DONE;
+      proposalId: bigint;
+    };
+
+export enum VetoProposalStep {
+  WAITING = 'waiting',
+  DONE = 'done',
+}
+export type VetoProposalStepValue =
+  | {
+      status: VetoProposalStep.WAITING;
+      txHash: string;
+    }
+  | {
+      status: VetoProposalStep.DONE;
+    };
+
+export enum VetoManyStep {
+  WAITING = 'waiting',
+  DONE = 'done',
+}
+export type VetoManyStepValue =
+  | {
+      status: VetoManyStep.WAITING;
+      txHash: string;
+    }
+  | {
+      status: VetoManyStep.DONE;
+      vetoedProposalIds: bigint[];
+      // the proposals the signer could not veto
+      skippedProposalIds: bigint[];
+    };
+
+export enum ExecuteProposalStep {
+  WAITING = 'waiting',
+  DONE = 'done',
+}
+export type ExecuteProposalStepValue =
+  | {
+      status: ExecuteProposalStep.WAITING;
+      txHash: string;
+    }
+  | {
+      status: ExecuteProposalStep.DONE;
+    };
+
+export enum CancelProposalStep {
+  WAITING = 'waiting',
+  DONE = 'done',
+}
+export type CancelProposalStepValue =
+  | {
+      status: CancelProposalStep.WAITING;
+      txHash: string;
+    }
+  | {
+      status: CancelProposalStep.DONE;
+    };
+
+export enum EmergencyVetoStep {
+  WAITING = 'waiting',
+  DONE = 'done',
+}
+export type EmergencyVetoStepValue =
+  | {
+      status: EmergencyVetoStep.WAITING;
+      txHash: string;
+    }
+  | {
+      status: EmergencyVetoStep.DONE;
+    };
+
+export type UpdateProposalMetadataParams = {
+  proposalId: bigint;
+  metadata: ProposalMetadata;
+};
+
+export enum UpdateProposalMetadataStep {
+  PINNING = 'pinning',
+  WAITING = 'waiting',
+  DONE = 'done',
+}
+export type UpdateProposalMetadataStepValue =
+  | {
+      status: UpdateProposalMetadataStep.PINNING;
+    }
+  | {
+      status: UpdateProposalMetadataStep.WAITING;
+      txHash: string;
+    }
+  | {
+      status: UpdateProposalMetadataStep.DONE;
+    };
+
+// a veto along with the reason given by the voter
+export type VetoWithReason = {
+  proposalId: bigint;
+  reason: string;
+};
+
+// a veto signed off-chain, which anyone can relay to the plugin
+export type SignedVeto = {
+  proposalId: bigint;
+  voter: string;
+  deadline: Date;
+  signature: string;
+};
+
+// EIP-712 typed data of a veto, as expected by `_signTypedData`
+export type VetoTypedData = {
+  domain: TypedDataDomain;
+  types: Record<string, TypedDataField[]>;
+  value: {
+    proposalId: bigint;
+    voter: string;
+    nonce: bigint;
+    deadline: bigint;
   };
 };
 
-export type NumbersQueryParams = Pagination & {
-  sortBy?: NumbersSortBy;
+export enum OptimisticProposalStatus {
+  PENDING = 'pending',
+  ACTIVE = 'active',
+  // the min veto voting power was reached, possibly before the end date
+  DEFEATED = 'defeated',
+  SUCCEEDED = 'succeeded',
+  EXECUTED = 'executed',
+  CANCELLED = 'cancelled',
+  EXPIRED = 'expired',
+}
+
+// the clock of the voting token, see ERC-6372
+export enum ClockMode {
+  BLOCK_NUMBER = 'blocknumber',
+  TIMESTAMP = 'timestamp',
+}
+
+export type OptimisticProposalParameters = {
+  startDate: Date;
+  endDate: Date;
+  // a block number or a timestamp in seconds, depending on `clockMode`
+  snapshotTimepoint: number;
+  clockMode: ClockMode;
+  // the proposal can no longer be executed from this date on
+  expirationDate: Date;
+  minVetoVotingPower: bigint;
+};
+
+export type OptimisticProposal = {
+  id: bigint;
+  open: boolean;
+  executed: boolean;
+  cancelled: boolean;
+  // defeated by a guardian, regardless of the veto tally
+  emergencyVetoed: boolean;
+  parameters: OptimisticProposalParameters;
+  vetoTally: bigint;
+  actions: DaoAction[];
+  allowFailureMap: bigint;
+  status: OptimisticProposalStatus;
+  // veto tally as a percentage of the minimum veto voting power
+  vetoPercentage: number;
+  // seconds until the end date, 0 once the proposal has ended
+  timeRemaining: number;
+};
+
+export type VotingPower = {
+  // the current votes of the account, the ones delegated to it included
+  votes: bigint;
+  // the votes at the snapshot of the proposal, which a veto weighs,
+  // only given a proposal
+  pastVotes?: bigint;
+  balance: bigint;
+  // the account the votes of the balance are delegated to, if any
+  delegatee: string;
+  isMember: boolean;
+  // whether the votes or the balance reach the min proposer voting power,
+  // creating a proposal also requires the proposer permission
+  canPropose: boolean;
+  // only given a proposal
+  canVeto?: boolean;
+};
+
+export enum DelegateTokensStep {
+  WAITING = 'waiting',
+  DONE = 'done',
+}
+export type DelegateTokensStepValue =
+  | {
+      status: DelegateTokensStep.WAITING;
+      txHash: string;
+    }
+  | {
+      status: DelegateTokensStep.DONE;
+    };
+
+// a delegation signed off-chain by the holder, which anyone can relay to the
+// voting token
+export type SignedDelegation = {
+  delegator: string;
+  delegatee: string;
+  nonce: bigint;
+  expiry: Date;
+  signature: string;
+};
+
+// EIP-712 typed data of a delegation, as expected by `_signTypedData`
+export type DelegationTypedData = {
+  domain: TypedDataDomain;
+  types: Record<string, TypedDataField[]>;
+  value: {
+    delegatee: string;
+    nonce: bigint;
+    expiry: bigint;
+  };
+};
+
+export type ProposalQueryParams = Pagination & {
+  sortBy?: ProposalSortBy;
+  status?: OptimisticProposalStatus;
+  creatorAddress?: string;
   daoAddressOrEns?: string;
 };
 
-export enum NumbersSortBy {
-  NUMBER = "number",
-  CREATED_AT = "createdAt",
+export enum ProposalSortBy {
+  CREATED_AT = 'createdAt',
+  END_DATE = 'endDate',
+  VETO_TALLY = 'vetoTally',
+}
+
+export type ProposalListItem = {
+  id: string;
+  pluginProposalId: bigint;
+  daoAddress: string;
+  creatorAddress: string;
+  metadataUri: string;
+  createdAt: Date;
+  startDate: Date;
+  endDate: Date;
+  expirationDate: Date;
+  status: OptimisticProposalStatus;
+  vetoTally: bigint;
+  minVetoVotingPower: bigint;
+  clockMode: ClockMode;
+};
+
+export type VetoQueryParams = Pagination & {
+  sortBy?: VetoSortBy;
+  // the `id` of a `ProposalListItem`
+  proposalId: string;
+};
+
+export enum VetoSortBy {
+  CREATED_AT = 'createdAt',
+  VOTING_POWER = 'votingPower',
 }
 
-export type NumberListItem = {
+export type VetoListItem = {
   id: string;
-  subdomain: string;
-  value: bigint;
+  voterAddress: string;
+  votingPower: bigint;
+  // only set when vetoed with `vetoWithReason`
+  reason?: string;
+  createdAt: Date;
 };
@@ -1,12 +1,13 @@
-import { MyPluginContextParams } from '../src/types';
+import { OptimisticTokenVotingContextParams } from '../src/types';
 import { Wallet } from '@ethersproject/wallet';
 
 export const ADDRESS_ONE = '0x0000000000000000000000000000000000000001';
+export const ADDRESS_TWO = '0x0000000000000000000000000000000000000002';
 
 export const TEST_WALLET =
   '0xdf57089febbacf7ba0bc227dafbffa9fc08a93fdc68e1e42411a14efcf23656e';
 
-export const contextParamsLocalChain: MyPluginContextParams = {
+export const contextParamsLocalChain: OptimisticTokenVotingContextParams = {
   network: 31337,
   signer: new Wallet(TEST_WALLET),
   daoFactoryAddress: '0xf8065dD2dAE72D4A8e74D8BB0c8252F3A9acE7f9',
@@ -1,7 +1,12 @@
+import * as BUILD_METADATA from '../../../contracts/src/optimistic-token-voting-build-metadata.json';
+import { TEST_WALLET } from '../constants';
 import { Deployment } from './deploy-contracts';
 import * as aragonContracts from '@aragon/osx-ethers';
+import { getNamedTypesFromMetadata } from '@aragon/sdk-client-common';
 import { AddressZero } from '@ethersproject/constants';
 import { id } from '@ethersproject/hash';
+import { parseEther } from '@ethersproject/units';
+import { Wallet } from '@ethersproject/wallet';
 import { defaultAbiCoder } from 'ethers/lib/utils';
 
 export async function createDao(
@@ -43,11 +48,12 @@ export async function createDao(
   };
 }
 
-export async function buildMyPluginDao(deployment: Deployment) {
+export async function buildOptimisticTokenVotingDao(deployment: Deployment) {
   try {
-    const latestVersion = await deployment.myPluginRepo[
+    const latestVersion = await deployment.optimisticTokenVotingRepo[
       'getLatestVersion(address)'
-    ](deployment.myPluginSetup.address);
+    ](deployment.optimisticTokenVotingPluginSetup.address);
+    const walletAddress = new Wallet(TEST_WALLET).address;
     return await createDao(
       deployment.daoFactory,
       {
@@ -59,10 +65,27 @@ export async function buildMyPluginDao(deployment: Deployment) {
       [
         {
           pluginSetupRef: {
-            pluginSetupRepo: deployment.myPluginRepo.address,
+            pluginSetupRepo: deployment.optimisticTokenVotingRepo.address,
             versionTag: latestVersion.tag,
           },
-          data: defaultAbiCoder.encode(['uint256'], [1]),
+          data: defaultAbiCoder.encode(
+            getNamedTypesFromMetadata(
+              BUILD_METADATA.pluginSetup.prepareInstallation.inputs
+            ),
+            [
+              {
+                minVetoRatio: 100000,
+                minDuration: 60 * 60 * 24 * 4,
+                executionWindow: 60 * 60 * 24 * 7,
+                minProposerVotingPower: 0,
+              },
+              { token: AddressZero, name: 'Test Token', symbol: 'TT' },
+              { receivers: [walletAddress], amounts: [parseEther('10')] },
+              [walletAddress],
+              [],
+              { token: AddressZero, amount: 0, treasury: AddressZero },
+            ]
+          ),
         },
       ]
     );
@@ -1,9 +1,9 @@
 import { ERC1967ABI, ERC1967Bytecode } from '../abi';
 import * as aragonContracts from '@aragon/osx-ethers';
 import {
-  MyPluginSetup,
-  MyPluginSetup__factory,
-} from '@aragon/simple-storage-ethers';
+  OptimisticTokenVotingPluginSetup,
+  OptimisticTokenVotingPluginSetup__factory,
+} from '@aragon/thunderhead-plugin-ethers';
 import ENSRegistry from '@ensdomains/ens-contracts/artifacts/contracts/registry/ENSRegistry.sol/ENSRegistry.json';
 import PublicResolver from '@ensdomains/ens-contracts/artifacts/contracts/resolvers/PublicResolver.sol/PublicResolver.json';
 import { Signer } from '@ethersproject/abstract-signer';
@@ -15,11 +15,14 @@ import { JsonRpcProvider } from '@ethersproject/providers';
 import { toUtf8Bytes } from '@ethersproject/strings';
 import { parseEther } from '@ethersproject/units';
 
-export type Deployment = OsxDeployment & MyPluginDeployment & EnsDeployment;
+export type Deployment = OsxDeployment &
+  OptimisticTokenVotingDeployment &
+  EnsDeployment;
 
-export type MyPluginDeployment = {
-  myPluginRepo: aragonContracts.PluginRepo;
-  myPluginSetup: MyPluginSetup;
+export type OptimisticTokenVotingDeployment = {
+  optimisticTokenVotingRepo: aragonContracts.PluginRepo;
+  optimisticTokenVotingPluginSetup: OptimisticTokenVotingPluginSetup;
+  optimisticTokenVotingPluginSetupBuild2: OptimisticTokenVotingPluginSetup;
 };
 
 export type OsxDeployment = {
@@ -42,7 +45,10 @@ export async function deploy(): Promise<Deployment> {
   const deployOwnerWallet = provider.getSigner();
   const ens = await deployEnsContracts(deployOwnerWallet);
   const osx = await deployOsxContracts(deployOwnerWallet, ens);
-  const simpleSotrage = await deployMyPluginContracts(deployOwnerWallet, osx);
+  const optimisticTokenVoting = await deployOptimisticTokenVotingContracts(
+    deployOwnerWallet,
+    osx
+  );
 
   // send ETH to hardcoded wallet in tests
   await deployOwnerWallet.sendTransaction({
@@ -51,33 +57,65 @@ export async function deploy(): Promise<Deployment> {
   });
   return {
     ...osx,
-    ...simpleSotrage,
+    ...optimisticTokenVoting,
     ...ens,
   };
 }
 
-export async function deployMyPluginContracts(
+export async function deployOptimisticTokenVotingContracts(
   deployer: Signer,
   osx: OsxDeployment
-): Promise<MyPluginDeployment> {
-  const myPluginFactory = new MyPluginSetup__factory();
-  const myPluginPluginSetup = await myPluginFactory.connect(deployer).deploy();
-
-  const myPluginRepoAddress = await deployPlugin(
-    'simple-storage',
-    myPluginPluginSetup.address,
+): Promise<OptimisticTokenVotingDeployment> {
+  // token implementations cloned by the setup when installing the plugin
+  const governanceErc20Base =
+    await new aragonContracts.GovernanceERC20__factory()
+      .connect(deployer)
+      .deploy(osx.managingDaoAddress, 'OPT', 'OPT', {
+        receivers: [],
+        amounts: [],
+      });
+  const governanceWrappedErc20Base =
+    await new aragonContracts.GovernanceWrappedERC20__factory()
+      .connect(deployer)
+      .deploy(governanceErc20Base.address, 'wOPT', 'wOPT');
+
+  const optimisticTokenVotingPluginSetup =
+    await new OptimisticTokenVotingPluginSetup__factory()
+      .connect(deployer)
+      .deploy(governanceErc20Base.address, governanceWrappedErc20Base.address);
+
+  const optimisticTokenVotingRepoAddress = await deployPlugin(
+    'optimistic-token-voting',
+    optimisticTokenVotingPluginSetup.address,
     await deployer.getAddress(),
     osx.pluginRepoFactory
   );
 
-  const myPluginRepo = aragonContracts.PluginRepo__factory.connect(
-    myPluginRepoAddress,
+  const optimisticTokenVotingRepo = aragonContracts.PluginRepo__factory.connect(
+    optimisticTokenVotingRepoAddress,
     deployer
   );
 
+  // publish a second build so that plugins can be updated
+  const optimisticTokenVotingPluginSetupBuild2 =
+    await new OptimisticTokenVotingPluginSetup__factory()
+      .connect(deployer)
+      .deploy(governanceErc20Base.address, governanceWrappedErc20Base.address);
+  const metadata = hexlify(
+    toUtf8Bytes('ipfs://QmbWqxBEKC3P8tqsKc98xmWNzrzDtRLMiMPL8wBuTGsMnR')
+  );
+  const tx = await optimisticTokenVotingRepo.createVersion(
+    1,
+    optimisticTokenVotingPluginSetupBuild2.address,
+    metadata,
+    metadata
+  );
+  await tx.wait();
+
   return {
-    myPluginRepo,
-    myPluginSetup: myPluginPluginSetup,
+    optimisticTokenVotingRepo,
+    optimisticTokenVotingPluginSetup,
+    optimisticTokenVotingPluginSetupBuild2,
   };
 }
 
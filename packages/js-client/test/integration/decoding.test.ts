@@ -1,6 +1,9 @@
-import { MyPluginClient, MyPluginContext } from '../../src';
-import { contextParamsLocalChain } from '../constants';
-import { buildMyPluginDao } from '../helpers/build-daos';
+import {
+  OptimisticTokenVotingClient,
+  OptimisticTokenVotingContext,
+} from '../../src';
+import { ADDRESS_ONE, contextParamsLocalChain } from '../constants';
+import { buildOptimisticTokenVotingDao } from '../helpers/build-daos';
 import * as deployContracts from '../helpers/deploy-contracts';
 import * as ganacheSetup from '../helpers/ganache-setup';
 import { ContextCore, SupportedNetworksArray } from '@aragon/sdk-client-common';
@@ -18,10 +21,11 @@ describe('Decoding', () => {
   beforeAll(async () => {
     server = await ganacheSetup.start();
     deployment = await deployContracts.deploy();
-    const dao = await buildMyPluginDao(deployment);
-    contextParamsLocalChain.myPluginRepoAddress =
-      deployment.myPluginRepo.address;
-    contextParamsLocalChain.myPluginPluginAddress = dao!.plugins[0];
+    const dao = await buildOptimisticTokenVotingDao(deployment);
+    contextParamsLocalChain.optimisticTokenVotingRepoAddress =
+      deployment.optimisticTokenVotingRepo.address;
+    contextParamsLocalChain.optimisticTokenVotingPluginAddress =
+      dao!.plugins[0];
     contextParamsLocalChain.ensRegistryAddress = deployment.ensRegistry.address;
   });
 
@@ -29,13 +33,104 @@ describe('Decoding', () => {
     server.close();
   });
 
-  it('should decode an action', async () => {
-    const ctx = new MyPluginContext(contextParamsLocalChain);
-    const client = new MyPluginClient(ctx);
+  it('should decode a veto action', async () => {
+    const ctx = new OptimisticTokenVotingContext(contextParamsLocalChain);
+    const client = new OptimisticTokenVotingClient(ctx);
     const data = hexToBytes(
-      '0xb63394180000000000000000000000000000000000000000000000000000000000000002'
+      '0x1d28dec70000000000000000000000000000000000000000000000000000000000000002'
     );
-    const decodedNum = client.decoding.storeNumberAction(data);
-    expect(decodedNum).toBe(BigInt(2));
+    const proposalId = client.decoding.vetoAction(data);
+    expect(proposalId).toBe(BigInt(2));
+  });
+
+  it('should decode a veto with reason action', async () => {
+    const ctx = new OptimisticTokenVotingContext(contextParamsLocalChain);
+    const client = new OptimisticTokenVotingClient(ctx);
+    const data = hexToBytes(
+      '0x3b4d7933' +
+        '0000000000000000000000000000000000000000000000000000000000000002' +
+        '0000000000000000000000000000000000000000000000000000000000000040' +
+        '0000000000000000000000000000000000000000000000000000000000000009' +
+        '546f6f207269736b790000000000000000000000000000000000000000000000'
+    );
+    const vetoWithReason = client.decoding.vetoWithReasonAction(data);
+    expect(vetoWithReason.proposalId).toBe(BigInt(2));
+    expect(vetoWithReason.reason).toBe('Too risky');
+  });
+
+  it('should decode an execute action', async () => {
+    const ctx = new OptimisticTokenVotingContext(contextParamsLocalChain);
+    const client = new OptimisticTokenVotingClient(ctx);
+    const data = hexToBytes(
+      '0xfe0d94c10000000000000000000000000000000000000000000000000000000000000002'
+    );
+    const proposalId = client.decoding.executeAction(data);
+    expect(proposalId).toBe(BigInt(2));
+  });
+
+  it('should decode a cancel action', async () => {
+    const ctx = new OptimisticTokenVotingContext(contextParamsLocalChain);
+    const client = new OptimisticTokenVotingClient(ctx);
+    const data = hexToBytes(
+      '0x40e58ee50000000000000000000000000000000000000000000000000000000000000002'
+    );
+    const proposalId = client.decoding.cancelAction(data);
+    expect(proposalId).toBe(BigInt(2));
+  });
+
+  it('should decode a veto by signature action', async () => {
+    const ctx = new OptimisticTokenVotingContext(contextParamsLocalChain);
+    const client = new OptimisticTokenVotingClient(ctx);
+    const data = hexToBytes(
+      '0x71e886ca' +
+        '0000000000000000000000000000000000000000000000000000000000000002' +
+        '0000000000000000000000000000000000000000000000000000000000000001' +
+        '000000000000000000000000000000000000000000000000000000006553f100' +
+        '0000000000000000000000000000000000000000000000000000000000000080' +
+        '0000000000000000000000000000000000000000000000000000000000000041' +
+        '1111111111111111111111111111111111111111111111111111111111111111' +
+        '1111111111111111111111111111111111111111111111111111111111111111' +
+        '1100000000000000000000000000000000000000000000000000000000000000'
+    );
+    const signedVeto = client.decoding.vetoBySigAction(data);
+    expect(signedVeto.proposalId).toBe(BigInt(2));
+    expect(signedVeto.voter).toBe(ADDRESS_ONE);
+    expect(signedVeto.deadline.getTime()).toBe(1700000000 * 1000);
+    expect(signedVeto.signature).toBe('0x' + '11'.repeat(65));
+  });
+
+  it('should decode an update governance settings action', async () => {
+    const ctx = new OptimisticTokenVotingContext(contextParamsLocalChain);
+    const client = new OptimisticTokenVotingClient(ctx);
+    const data = hexToBytes(
+      '0x7458e14c' +
+        '00000000000000000000000000000000000000000000000000000000000186a0' +
+        '0000000000000000000000000000000000000000000000000000000000054600' +
+        '0000000000000000000000000000000000000000000000000000000000093a80' +
+        '0000000000000000000000000000000000000000000000000000000000000001'
+    );
+    const settings = client.decoding.updateGovernanceSettingsAction(data);
+    expect(settings.minVetoRatio).toBe(100000);
+    expect(settings.minDuration).toBe(60 * 60 * 24 * 4);
+    expect(settings.executionWindow).toBe(60 * 60 * 24 * 7);
+    expect(settings.minProposerVotingPower).toBe(BigInt(1));
+  });
+
+  it('should find the interface of an action', async () => {
+    const ctx = new OptimisticTokenVotingContext(contextParamsLocalChain);
+    const client = new OptimisticTokenVotingClient(ctx);
+    const data = hexToBytes(
+      '0x7458e14c' +
+        '00000000000000000000000000000000000000000000000000000000000186a0' +
+        '0000000000000000000000000000000000000000000000000000000000054600' +
+        '0000000000000000000000000000000000000000000000000000000000093a80' +
+        '0000000000000000000000000000000000000000000000000000000000000001'
+    );
+    expect(client.decoding.findInterface(data)).toEqual({
+      id: 'function updateOptimisticGovernanceSettings(tuple(uint32,uint64,uint64,uint256))',
+      functionName: 'updateOptimisticGovernanceSettings',
+      hash: '0x7458e14c',
+    });
+    expect(client.decoding.findInterface(hexToBytes('0x12345678'))).toBe(null);
   });
 });
@@ -1,9 +1,15 @@
-import { MyPluginClient, MyPluginContext } from '../../src';
-import { contextParamsLocalChain } from '../constants';
-import { buildMyPluginDao } from '../helpers/build-daos';
+import {
+  InvalidGovernanceSettingsError,
+  InvalidGovernanceSettingsReason,
+  OptimisticTokenVotingClient,
+  OptimisticTokenVotingContext,
+} from '../../src';
+import { ADDRESS_ONE, contextParamsLocalChain } from '../constants';
+import { buildOptimisticTokenVotingDao } from '../helpers/build-daos';
 import * as deployContracts from '../helpers/deploy-contracts';
 import * as ganacheSetup from '../helpers/ganache-setup';
 import { ContextCore, SupportedNetworksArray } from '@aragon/sdk-client-common';
+import { InvalidAddressError } from '@aragon/sdk-common';
 import { Server } from 'ganache';
 
 jest.spyOn(SupportedNetworksArray, 'includes').mockReturnValue(true);
@@ -17,10 +23,11 @@ describe('Encoding', () => {
   beforeAll(async () => {
     server = await ganacheSetup.start();
     deployment = await deployContracts.deploy();
-    const dao = await buildMyPluginDao(deployment);
-    contextParamsLocalChain.myPluginRepoAddress =
-      deployment.myPluginRepo.address;
-    contextParamsLocalChain.myPluginPluginAddress = dao!.plugins[0];
+    const dao = await buildOptimisticTokenVotingDao(deployment);
+    contextParamsLocalChain.optimisticTokenVotingRepoAddress =
+      deployment.optimisticTokenVotingRepo.address;
+    contextParamsLocalChain.optimisticTokenVotingPluginAddress =
+      dao!.plugins[0];
     contextParamsLocalChain.ensRegistryAddress = deployment.ensRegistry.address;
   });
 
@@ -28,15 +35,150 @@ describe('Encoding', () => {
     server.close();
   });
 
-  it('should encode an action', async () => {
-    const ctx = new MyPluginContext(contextParamsLocalChain);
-    const client = new MyPluginClient(ctx);
-    const num = BigInt(2);
-    const action = client.encoding.storeNumberAction(num);
-    expect(action.to).toBe(contextParamsLocalChain.myPluginPluginAddress);
+  it('should encode the plugin install item', async () => {
+    const ctx = new OptimisticTokenVotingContext(contextParamsLocalChain);
+    const client = new OptimisticTokenVotingClient(ctx);
+    const item = client.encoding.getPluginInstallItem({
+      governanceSettings: {
+        minVetoRatio: 100000,
+        minDuration: 60 * 60 * 24 * 4,
+        executionWindow: 60 * 60 * 24 * 7,
+        minProposerVotingPower: BigInt(0),
+      },
+      tokenSettings: { address: ADDRESS_ONE, name: '', symbol: '' },
+      proposers: [ADDRESS_ONE],
+      guardians: [ADDRESS_ONE],
+    });
+    expect(item.id).toBe(
+      contextParamsLocalChain.optimisticTokenVotingRepoAddress
+    );
+    expect(item.data instanceof Uint8Array).toBe(true);
+    expect(item.data.length).toBeGreaterThan(0);
+  });
+
+  it('should encode a veto action', async () => {
+    const ctx = new OptimisticTokenVotingContext(contextParamsLocalChain);
+    const client = new OptimisticTokenVotingClient(ctx);
+    const proposalId = BigInt(2);
+    const action = client.encoding.vetoAction(proposalId);
+    expect(action.to).toBe(
+      contextParamsLocalChain.optimisticTokenVotingPluginAddress
+    );
+    expect(action.value).toBe(BigInt(0));
+    expect(action.data instanceof Uint8Array).toBe(true);
+    expect(action.data.length).toBeGreaterThan(0);
+    const decodedProposalId = client.decoding.vetoAction(action.data);
+    expect(decodedProposalId).toBe(proposalId);
+  });
+
+  it('should encode a veto with reason action', async () => {
+    const ctx = new OptimisticTokenVotingContext(contextParamsLocalChain);
+    const client = new OptimisticTokenVotingClient(ctx);
+    const vetoWithReason = { proposalId: BigInt(2), reason: 'Too risky' };
+    const action = client.encoding.vetoWithReasonAction(vetoWithReason);
+    expect(action.to).toBe(
+      contextParamsLocalChain.optimisticTokenVotingPluginAddress
+    );
+    expect(action.value).toBe(BigInt(0));
+    expect(action.data instanceof Uint8Array).toBe(true);
+    expect(action.data.length).toBeGreaterThan(0);
+    expect(client.decoding.vetoWithReasonAction(action.data)).toEqual(
+      vetoWithReason
+    );
+  });
+
+  it('should encode an execute action', async () => {
+    const ctx = new OptimisticTokenVotingContext(contextParamsLocalChain);
+    const client = new OptimisticTokenVotingClient(ctx);
+    const proposalId = BigInt(2);
+    const action = client.encoding.executeAction(proposalId);
+    expect(action.to).toBe(
+      contextParamsLocalChain.optimisticTokenVotingPluginAddress
+    );
+    expect(action.value).toBe(BigInt(0));
+    expect(action.data instanceof Uint8Array).toBe(true);
+    expect(action.data.length).toBeGreaterThan(0);
+    const decodedProposalId = client.decoding.executeAction(action.data);
+    expect(decodedProposalId).toBe(proposalId);
+  });
+
+  it('should encode a cancel action', async () => {
+    const ctx = new OptimisticTokenVotingContext(contextParamsLocalChain);
+    const client = new OptimisticTokenVotingClient(ctx);
+    const proposalId = BigInt(2);
+    const action = client.encoding.cancelAction(proposalId);
+    expect(action.to).toBe(
+      contextParamsLocalChain.optimisticTokenVotingPluginAddress
+    );
+    expect(action.value).toBe(BigInt(0));
+    expect(action.data instanceof Uint8Array).toBe(true);
+    expect(action.data.length).toBeGreaterThan(0);
+    const decodedProposalId = client.decoding.cancelAction(action.data);
+    expect(decodedProposalId).toBe(proposalId);
+  });
+
+  it('should encode a veto by signature action', async () => {
+    const ctx = new OptimisticTokenVotingContext(contextParamsLocalChain);
+    const client = new OptimisticTokenVotingClient(ctx);
+    const signedVeto = {
+      proposalId: BigInt(2),
+      voter: ADDRESS_ONE,
+      deadline: new Date(1700000000 * 1000),
+      signature: '0x' + '11'.repeat(65),
+    };
+    const action = client.encoding.vetoBySigAction(signedVeto);
+    expect(action.to).toBe(
+      contextParamsLocalChain.optimisticTokenVotingPluginAddress
+    );
+    expect(action.value).toBe(BigInt(0));
     expect(action.data instanceof Uint8Array).toBe(true);
     expect(action.data.length).toBeGreaterThan(0);
-    const decodedNum = client.decoding.storeNumberAction(action.data);
-    expect(decodedNum).toBe(num);
+    expect(client.decoding.vetoBySigAction(action.data)).toEqual(signedVeto);
+  });
+
+  it('should encode an update governance settings action', async () => {
+    const ctx = new OptimisticTokenVotingContext(contextParamsLocalChain);
+    const client = new OptimisticTokenVotingClient(ctx);
+    const settings = {
+      minVetoRatio: 100000,
+      minDuration: 60 * 60 * 24 * 4,
+      executionWindow: 60 * 60 * 24 * 7,
+      minProposerVotingPower: BigInt(1),
+    };
+    const action = client.encoding.updateGovernanceSettingsAction(
+      ADDRESS_ONE,
+      settings
+    );
+    expect(action.to).toBe(ADDRESS_ONE);
+    expect(action.value).toBe(BigInt(0));
+    expect(action.data instanceof Uint8Array).toBe(true);
+    expect(action.data.length).toBeGreaterThan(0);
+    expect(client.decoding.updateGovernanceSettingsAction(action.data)).toEqual(
+      settings
+    );
+  });
+
+  it('should fail to encode invalid governance settings', async () => {
+    const ctx = new OptimisticTokenVotingContext(contextParamsLocalChain);
+    const client = new OptimisticTokenVotingClient(ctx);
+    const settings = {
+      minVetoRatio: 100000,
+      minDuration: 60 * 60 * 24 * 4,
+      executionWindow: 60 * 60 * 24 * 7,
+      minProposerVotingPower: BigInt(1),
+    };
+    expect(() =>
+      client.encoding.updateGovernanceSettingsAction('0x1234', settings)
+    ).toThrow(new InvalidAddressError());
+    expect(() =>
+      client.encoding.updateGovernanceSettingsAction(ADDRESS_ONE, {
+        ...settings,
+        minDuration: 60 * 60 * 24 * 3,
+      })
+    ).toThrow(
+      new InvalidGovernanceSettingsError(
+        InvalidGovernanceSettingsReason.MIN_DURATION_OUT_OF_BOUNDS
+      )
+    );
   });
 });
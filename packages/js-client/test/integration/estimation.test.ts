@@ -1,8 +1,13 @@
-import { MyPluginClient, MyPluginContext } from '../../src';
-import { contextParamsLocalChain } from '../constants';
-import { buildMyPluginDao } from '../helpers/build-daos';
+import * as mockedGraphqlRequest from '../mocks/graphql-request';
+import {
+  OptimisticTokenVotingClient,
+  OptimisticTokenVotingContext,
+} from '../../src';
+import { ADDRESS_ONE, contextParamsLocalChain } from '../constants';
+import { buildOptimisticTokenVotingDao } from '../helpers/build-daos';
 import * as deployContracts from '../helpers/deploy-contracts';
 import * as ganacheSetup from '../helpers/ganache-setup';
+import { IOptimisticTokenVoting__factory } from '@aragon/thunderhead-plugin-ethers';
 import {
   ContextCore,
   LIVE_CONTRACTS,
@@ -23,10 +28,11 @@ describe('Estimation', () => {
   beforeAll(async () => {
     server = await ganacheSetup.start();
     deployment = await deployContracts.deploy();
-    dao = await buildMyPluginDao(deployment);
-    contextParamsLocalChain.myPluginRepoAddress =
-      deployment.myPluginRepo.address;
-    contextParamsLocalChain.myPluginPluginAddress = dao!.plugins[0];
+    dao = await buildOptimisticTokenVotingDao(deployment);
+    contextParamsLocalChain.optimisticTokenVotingRepoAddress =
+      deployment.optimisticTokenVotingRepo.address;
+    contextParamsLocalChain.optimisticTokenVotingPluginAddress =
+      dao!.plugins[0];
     contextParamsLocalChain.ensRegistryAddress = deployment.ensRegistry.address;
     LIVE_CONTRACTS.goerli.pluginSetupProcessor =
       deployment.pluginSetupProcessor.address;
@@ -37,8 +43,8 @@ describe('Estimation', () => {
   });
 
   it('Should estimate the gas fees for prepareing an installation', async () => {
-    const context = new MyPluginContext(contextParamsLocalChain);
-    const client = new MyPluginClient(context);
+    const context = new OptimisticTokenVotingContext(contextParamsLocalChain);
+    const client = new OptimisticTokenVotingClient(context);
     const networkSpy = jest.spyOn(JsonRpcProvider.prototype, 'getNetwork');
     const defaultGetNetworkImplementation = networkSpy.getMockImplementation();
     networkSpy.mockImplementation(() =>
@@ -49,11 +55,63 @@ describe('Estimation', () => {
     );
     const estimation = await client.estimation.prepareInstallation({
       daoAddressOrEns: dao.dao,
-      settings: { number: BigInt(1) },
+      settings: {
+        governanceSettings: {
+          minVetoRatio: 100000,
+          minDuration: 60 * 60 * 24 * 4,
+          executionWindow: 60 * 60 * 24 * 7,
+          minProposerVotingPower: BigInt(0),
+        },
+        tokenSettings: { name: 'Test Token', symbol: 'TT' },
+        mintSettings: { receivers: [ADDRESS_ONE], amounts: [BigInt(10)] },
+        proposers: [ADDRESS_ONE],
+      },
     });
     expect(estimation.average).toBeGreaterThan(0);
     expect(estimation.max).toBeGreaterThan(0);
     expect(estimation.max).toBeGreaterThan(estimation.average);
     networkSpy.mockImplementation(defaultGetNetworkImplementation);
   });
+
+  it('Should estimate the gas fees for preparing an uninstallation', async () => {
+    const context = new OptimisticTokenVotingContext(contextParamsLocalChain);
+    const client = new OptimisticTokenVotingClient(context);
+    const mockedClient = mockedGraphqlRequest.getMockedInstance(
+      client.graphql.getClient()
+    );
+    const networkSpy = jest.spyOn(JsonRpcProvider.prototype, 'getNetwork');
+    const defaultGetNetworkImplementation = networkSpy.getMockImplementation();
+    networkSpy.mockImplementation(() =>
+      Promise.resolve({
+        name: 'goerli',
+        chainId: 31337,
+      })
+    );
+    const plugin = IOptimisticTokenVoting__factory.connect(
+      dao.plugins[0],
+      deployment.optimisticTokenVotingRepo.provider
+    );
+    mockedClient.request.mockResolvedValueOnce({
+      plugins: [{ helpers: [await plugin.getVotingToken()] }],
+    });
+    const estimation = await client.estimation.prepareUninstallation({
+      daoAddressOrEns: dao.dao,
+      pluginAddress: dao.plugins[0],
+      currentVersion: { release: 1, build: 2 },
+    });
+    expect(estimation.average).toBeGreaterThan(0);
+    expect(estimation.max).toBeGreaterThan(0);
+    expect(estimation.max).toBeGreaterThan(estimation.average);
+    networkSpy.mockImplementation(defaultGetNetworkImplementation);
+  });
+
+  it('Should estimate the gas fees for vetoing many proposals', async () => {
+    const context = new OptimisticTokenVotingContext(contextParamsLocalChain);
+    const client = new OptimisticTokenVotingClient(context);
+    // the proposals that cannot be vetoed are skipped without reverting
+    const estimation = await client.estimation.vetoMany([BigInt(0), BigInt(1)]);
+    expect(estimation.average).toBeGreaterThan(0);
+    expect(estimation.max).toBeGreaterThan(0);
+    expect(estimation.max).toBeGreaterThan(estimation.average);
+  });
 });
@@ -1,29 +1,71 @@
-
+import { mockedIPFSClient } from '../mocks/aragon-sdk-ipfs';
 import * as mockedGraphqlRequest from '../mocks/graphql-request';
 import {
-  NumbersQueryParams,
-  NumbersSortBy,
-  MyPluginClient,
-  MyPluginContext,
+  CancellationForbiddenError,
+  CancellationForbiddenReason,
+  CancelProposalStep,
+  ClockMode,
+  CreateProposalStep,
+  DelegateTokensStep,
+  ExecuteProposalStep,
+  ExecutionForbiddenError,
+  ExecutionForbiddenReason,
+  MetadataUpdateForbiddenError,
+  MetadataUpdateForbiddenReason,
+  MissingExecutionWindowError,
+  OptimisticProposalStatus,
+  OptimisticTokenVotingClient,
+  OptimisticTokenVotingContext,
+  PluginHelpersNotFoundError,
+  PrepareUninstallationStep,
+  PrepareUpdateStep,
+  ProposalQueryParams,
+  ProposalSortBy,
+  UpdateProposalMetadataStep,
+  VetoForbiddenError,
+  VetoForbiddenReason,
+  VetoManyStep,
+  VetoProposalStep,
+  VetoQueryParams,
+  VetoSortBy,
 } from '../../src';
-import { QueryNumber, QueryNumbers } from '../../src/internal/graphql-queries';
 import {
-  SubgraphNumber,
-  SubgraphNumberListItem,
+  QueryPluginGuardians,
+  QueryPluginHelpers,
+  QueryProposals,
+  QueryVetoes,
+} from '../../src/internal/graphql-queries';
+import {
+  SubgraphProposalListItem,
+  SubgraphVetoListItem,
 } from '../../src/internal/types';
-import { contextParamsLocalChain } from '../constants';
-import { buildMyPluginDao } from '../helpers/build-daos';
+import {
+  ADDRESS_ONE,
+  ADDRESS_TWO,
+  contextParamsLocalChain,
+} from '../constants';
+import { buildOptimisticTokenVotingDao } from '../helpers/build-daos';
+import { mineBlockWithTimeOffset } from '../helpers/block-times';
 import * as deployContracts from '../helpers/deploy-contracts';
 import * as ganacheSetup from '../helpers/ganache-setup';
+import {
+  IOptimisticTokenVoting__factory,
+  OptimisticTokenVotingPlugin__factory,
+} from '@aragon/thunderhead-plugin-ethers';
 import {
   ContextCore,
+  DaoAction,
   LIVE_CONTRACTS,
   PrepareInstallationStep,
   SortDirection,
   SupportedNetworksArray,
 } from '@aragon/sdk-client-common';
+import { hexToBytes, InvalidAddressError } from '@aragon/sdk-common';
 import { JsonRpcProvider } from '@ethersproject/providers';
+import { parseEther } from '@ethersproject/units';
+import { verifyTypedData } from '@ethersproject/wallet';
 import { Server } from 'ganache';
+import { ClientError } from 'graphql-request';
 
 jest.spyOn(SupportedNetworksArray, 'includes').mockReturnValue(true);
 jest
@@ -37,10 +79,11 @@ describe('Methods', () => {
   beforeAll(async () => {
     server = await ganacheSetup.start();
     deployment = await deployContracts.deploy();
-    dao = await buildMyPluginDao(deployment);
-    contextParamsLocalChain.myPluginRepoAddress =
-      deployment.myPluginRepo.address;
-    contextParamsLocalChain.myPluginPluginAddress = dao!.plugins[0];
+    dao = await buildOptimisticTokenVotingDao(deployment);
+    contextParamsLocalChain.optimisticTokenVotingRepoAddress =
+      deployment.optimisticTokenVotingRepo.address;
+    contextParamsLocalChain.optimisticTokenVotingPluginAddress =
+      dao!.plugins[0];
     contextParamsLocalChain.ensRegistryAddress = deployment.ensRegistry.address;
     LIVE_CONTRACTS.goerli.pluginSetupProcessor =
       deployment.pluginSetupProcessor.address;
@@ -51,8 +94,8 @@ describe('Methods', () => {
   });
 
   it('Should prepare an installation', async () => {
-    const context = new MyPluginContext(contextParamsLocalChain);
-    const client = new MyPluginClient(context);
+    const context = new OptimisticTokenVotingContext(contextParamsLocalChain);
+    const client = new OptimisticTokenVotingClient(context);
     const networkSpy = jest.spyOn(JsonRpcProvider.prototype, 'getNetwork');
     const defaultGetNetworkImplementation = networkSpy.getMockImplementation();
     networkSpy.mockImplementation(() =>
@@ -63,7 +106,17 @@ describe('Methods', () => {
     );
     const steps = client.methods.prepareInstallation({
       daoAddressOrEns: dao.dao,
-      settings: { number: BigInt(1) },
+      settings: {
+        governanceSettings: {
+          minVetoRatio: 100000,
+          minDuration: 60 * 60 * 24 * 4,
+          executionWindow: 60 * 60 * 24 * 7,
+          minProposerVotingPower: BigInt(0),
+        },
+        tokenSettings: { name: 'Test Token', symbol: 'TT' },
+        mintSettings: { receivers: [ADDRESS_ONE], amounts: [BigInt(10)] },
+        proposers: [ADDRESS_ONE],
+      },
     });
     for await (const step of steps) {
       switch (step.key) {
@@ -99,64 +152,1031 @@ describe('Methods', () => {
     }
   });
 
-  it('Should get a number', async () => {
-    const context = new MyPluginContext(contextParamsLocalChain);
-    const client = new MyPluginClient(context);
+  it('Should prepare an update from build 1', async () => {
+    const context = new OptimisticTokenVotingContext(contextParamsLocalChain);
+    const client = new OptimisticTokenVotingClient(context);
+    const networkSpy = jest.spyOn(JsonRpcProvider.prototype, 'getNetwork');
+    const defaultGetNetworkImplementation = networkSpy.getMockImplementation();
+    networkSpy.mockImplementation(() =>
+      Promise.resolve({
+        name: 'goerli',
+        chainId: 31337,
+      })
+    );
+    const plugin = IOptimisticTokenVoting__factory.connect(
+      dao.plugins[0],
+      deployment.optimisticTokenVotingRepo.provider
+    );
+    const steps = client.methods.prepareUpdate({
+      daoAddressOrEns: dao.dao,
+      pluginAddress: dao.plugins[0],
+      currentVersion: { release: 1, build: 1 },
+      executionWindow: 3 * 24 * 60 * 60,
+    });
+    for await (const step of steps) {
+      switch (step.key) {
+        case PrepareUpdateStep.PREPARING:
+          expect(step.txHash).toMatch(/^0x[a-fA-F0-9]{64}$/);
+          break;
+        case PrepareUpdateStep.DONE:
+          expect(step.pluginAddress).toBe(dao.plugins[0]);
+          expect(step.pluginRepo).toBe(
+            deployment.optimisticTokenVotingRepo.address
+          );
+          // updated to the latest build
+          expect(step.versionTag).toEqual({ release: 1, build: 2 });
+          expect(step.initData.length).toBeGreaterThan(0);
+          expect(step.permissions).toEqual([]);
+          expect(step.helpers).toEqual([await plugin.getVotingToken()]);
+          break;
+      }
+    }
+    networkSpy.mockImplementation(defaultGetNetworkImplementation);
+  });
+
+  it('Should require an execution window to update from build 1', async () => {
+    const context = new OptimisticTokenVotingContext(contextParamsLocalChain);
+    const client = new OptimisticTokenVotingClient(context);
+    const steps = client.methods.prepareUpdate({
+      daoAddressOrEns: dao.dao,
+      pluginAddress: dao.plugins[0],
+      currentVersion: { release: 1, build: 1 },
+    });
+    await expect(steps.next()).rejects.toBeInstanceOf(
+      MissingExecutionWindowError
+    );
+  });
+
+  it('Should prepare an uninstallation with the helpers indexed by the subgraph', async () => {
+    const context = new OptimisticTokenVotingContext(contextParamsLocalChain);
+    const client = new OptimisticTokenVotingClient(context);
     const mockedClient = mockedGraphqlRequest.getMockedInstance(
       client.graphql.getClient()
     );
-    const subgraphResponse: SubgraphNumber = {
-      number: {
-        value: '1',
+    const networkSpy = jest.spyOn(JsonRpcProvider.prototype, 'getNetwork');
+    const defaultGetNetworkImplementation = networkSpy.getMockImplementation();
+    networkSpy.mockImplementation(() =>
+      Promise.resolve({
+        name: 'goerli',
+        chainId: 31337,
+      })
+    );
+    const plugin = IOptimisticTokenVoting__factory.connect(
+      dao.plugins[0],
+      deployment.optimisticTokenVotingRepo.provider
+    );
+    mockedClient.request.mockResolvedValueOnce({
+      plugins: [{ helpers: [await plugin.getVotingToken()] }],
+    });
+    const steps = client.methods.prepareUninstallation({
+      daoAddressOrEns: dao.dao,
+      pluginAddress: dao.plugins[0],
+      currentVersion: { release: 1, build: 2 },
+    });
+    for await (const step of steps) {
+      switch (step.key) {
+        case PrepareUninstallationStep.PREPARING:
+          expect(step.txHash).toMatch(/^0x[a-fA-F0-9]{64}$/);
+          break;
+        case PrepareUninstallationStep.DONE:
+          expect(step.pluginAddress).toBe(dao.plugins[0]);
+          expect(step.pluginRepo).toBe(
+            deployment.optimisticTokenVotingRepo.address
+          );
+          expect(step.versionTag).toEqual({ release: 1, build: 2 });
+          expect(step.permissions.length).toBeGreaterThan(0);
+          for (const permission of step.permissions) {
+            // revoke
+            expect(permission.operation).toBe(1);
+          }
+          break;
+      }
+    }
+    expect(mockedClient.request).toHaveBeenCalledWith(QueryPluginHelpers, {
+      where: {
+        dao: dao.dao.toLowerCase(),
+        pluginAddress: dao.plugins[0].toLowerCase(),
       },
-    };
+    });
+    networkSpy.mockImplementation(defaultGetNetworkImplementation);
+  });
+
+  it('Should prepare an uninstallation with the guardians indexed by the subgraph', async () => {
+    const context = new OptimisticTokenVotingContext(contextParamsLocalChain);
+    const client = new OptimisticTokenVotingClient(context);
+    const mockedClient = mockedGraphqlRequest.getMockedInstance(
+      client.graphql.getClient()
+    );
+    const networkSpy = jest.spyOn(JsonRpcProvider.prototype, 'getNetwork');
+    const defaultGetNetworkImplementation = networkSpy.getMockImplementation();
+    networkSpy.mockImplementation(() =>
+      Promise.resolve({
+        name: 'goerli',
+        chainId: 31337,
+      })
+    );
+    const plugin = IOptimisticTokenVoting__factory.connect(
+      dao.plugins[0],
+      deployment.optimisticTokenVotingRepo.provider
+    );
+    mockedClient.request.mockResolvedValueOnce({
+      plugins: [{ helpers: [await plugin.getVotingToken()] }],
+    });
+    // the test DAO was installed without guardians
+    mockedClient.request.mockResolvedValueOnce({
+      plugins: [{ guardians: [] }],
+    });
+    const steps = client.methods.prepareUninstallation({
+      daoAddressOrEns: dao.dao,
+      pluginAddress: dao.plugins[0],
+      currentVersion: { release: 1, build: 2 },
+    });
+    let done = false;
+    for await (const step of steps) {
+      if (step.key === PrepareUninstallationStep.DONE) {
+        expect(step.permissions.length).toBe(4);
+        done = true;
+      }
+    }
+    expect(done).toBe(true);
+    expect(mockedClient.request).toHaveBeenCalledWith(QueryPluginGuardians, {
+      where: {
+        dao: dao.dao.toLowerCase(),
+        pluginAddress: dao.plugins[0].toLowerCase(),
+      },
+    });
+    networkSpy.mockImplementation(defaultGetNetworkImplementation);
+  });
+
+  it('Should fail to prepare an uninstallation if the guardians are not the installed ones', async () => {
+    const context = new OptimisticTokenVotingContext(contextParamsLocalChain);
+    const client = new OptimisticTokenVotingClient(context);
+    const mockedClient = mockedGraphqlRequest.getMockedInstance(
+      client.graphql.getClient()
+    );
+    const networkSpy = jest.spyOn(JsonRpcProvider.prototype, 'getNetwork');
+    const defaultGetNetworkImplementation = networkSpy.getMockImplementation();
+    networkSpy.mockImplementation(() =>
+      Promise.resolve({
+        name: 'goerli',
+        chainId: 31337,
+      })
+    );
+    mockedClient.request.mockResolvedValueOnce({ plugins: [] });
+    // the plugin setup rejects the guardians it did not grant the permission to
     mockedClient.request.mockResolvedValueOnce({
-      dao: subgraphResponse,
+      plugins: [{ guardians: [ADDRESS_ONE] }],
+    });
+    const steps = client.methods.prepareUninstallation({
+      daoAddressOrEns: dao.dao,
+      pluginAddress: dao.plugins[0],
+      currentVersion: { release: 1, build: 2 },
+    });
+    await expect(steps.next()).rejects.toThrow();
+    networkSpy.mockImplementation(defaultGetNetworkImplementation);
+  });
+
+  it('Should prepare an uninstallation with the voting token of the plugin if the subgraph has not indexed it', async () => {
+    const context = new OptimisticTokenVotingContext(contextParamsLocalChain);
+    const client = new OptimisticTokenVotingClient(context);
+    const mockedClient = mockedGraphqlRequest.getMockedInstance(
+      client.graphql.getClient()
+    );
+    const networkSpy = jest.spyOn(JsonRpcProvider.prototype, 'getNetwork');
+    const defaultGetNetworkImplementation = networkSpy.getMockImplementation();
+    networkSpy.mockImplementation(() =>
+      Promise.resolve({
+        name: 'goerli',
+        chainId: 31337,
+      })
+    );
+    // the subgraph has not indexed the plugin
+    mockedClient.request.mockResolvedValueOnce({ plugins: [] });
+    const steps = client.methods.prepareUninstallation({
+      daoAddressOrEns: dao.dao,
+      pluginAddress: dao.plugins[0],
+      currentVersion: { release: 1, build: 2 },
+    });
+    let done = false;
+    for await (const step of steps) {
+      if (step.key === PrepareUninstallationStep.DONE) {
+        expect(step.pluginAddress).toBe(dao.plugins[0]);
+        done = true;
+      }
+    }
+    expect(done).toBe(true);
+    networkSpy.mockImplementation(defaultGetNetworkImplementation);
+  });
+
+  it('Should prepare an uninstallation with the voting token of the plugin if the subgraph cannot be reached', async () => {
+    const context = new OptimisticTokenVotingContext(contextParamsLocalChain);
+    const client = new OptimisticTokenVotingClient(context);
+    const mockedClient = mockedGraphqlRequest.getMockedInstance(
+      client.graphql.getClient()
+    );
+    const networkSpy = jest.spyOn(JsonRpcProvider.prototype, 'getNetwork');
+    const defaultGetNetworkImplementation = networkSpy.getMockImplementation();
+    networkSpy.mockImplementation(() =>
+      Promise.resolve({
+        name: 'goerli',
+        chainId: 31337,
+      })
+    );
+    mockedClient.request.mockRejectedValueOnce(new Error('Network error'));
+    const steps = client.methods.prepareUninstallation({
+      daoAddressOrEns: dao.dao,
+      pluginAddress: dao.plugins[0],
+      currentVersion: { release: 1, build: 2 },
+    });
+    let done = false;
+    for await (const step of steps) {
+      if (step.key === PrepareUninstallationStep.DONE) {
+        expect(step.pluginAddress).toBe(dao.plugins[0]);
+        done = true;
+      }
+    }
+    expect(done).toBe(true);
+    networkSpy.mockImplementation(defaultGetNetworkImplementation);
+  });
+
+  it('Should prepare an uninstallation with the voting token of the plugin if the subgraph rejects the query', async () => {
+    const context = new OptimisticTokenVotingContext(contextParamsLocalChain);
+    const client = new OptimisticTokenVotingClient(context);
+    const mockedClient = mockedGraphqlRequest.getMockedInstance(
+      client.graphql.getClient()
+    );
+    const networkSpy = jest.spyOn(JsonRpcProvider.prototype, 'getNetwork');
+    const defaultGetNetworkImplementation = networkSpy.getMockImplementation();
+    networkSpy.mockImplementation(() =>
+      Promise.resolve({
+        name: 'goerli',
+        chainId: 31337,
+      })
+    );
+    // `graphql-request` is mocked, so the response of the error is set here
+    const queryError = Object.assign(new ClientError({} as any, {} as any), {
+      response: { status: 400 },
+    });
+    mockedClient.request.mockRejectedValueOnce(queryError);
+    const steps = client.methods.prepareUninstallation({
+      daoAddressOrEns: dao.dao,
+      pluginAddress: dao.plugins[0],
+      currentVersion: { release: 1, build: 2 },
+    });
+    let done = false;
+    for await (const step of steps) {
+      if (step.key === PrepareUninstallationStep.DONE) {
+        expect(step.pluginAddress).toBe(dao.plugins[0]);
+        done = true;
+      }
+    }
+    expect(done).toBe(true);
+    networkSpy.mockImplementation(defaultGetNetworkImplementation);
+  });
+
+  it('Should fail to prepare the uninstallation of a plugin that was not installed', async () => {
+    const context = new OptimisticTokenVotingContext(contextParamsLocalChain);
+    const client = new OptimisticTokenVotingClient(context);
+    const mockedClient = mockedGraphqlRequest.getMockedInstance(
+      client.graphql.getClient()
+    );
+    const networkSpy = jest.spyOn(JsonRpcProvider.prototype, 'getNetwork');
+    const defaultGetNetworkImplementation = networkSpy.getMockImplementation();
+    networkSpy.mockImplementation(() =>
+      Promise.resolve({
+        name: 'goerli',
+        chainId: 31337,
+      })
+    );
+    mockedClient.request.mockResolvedValueOnce({ plugins: [] });
+    const steps = client.methods.prepareUninstallation({
+      daoAddressOrEns: dao.dao,
+      pluginAddress: ADDRESS_ONE,
+      currentVersion: { release: 1, build: 2 },
+    });
+    await expect(steps.next()).rejects.toBeInstanceOf(
+      PluginHelpersNotFoundError
+    );
+    networkSpy.mockImplementation(defaultGetNetworkImplementation);
+  });
+
+  it('Should create a proposal', async () => {
+    const context = new OptimisticTokenVotingContext(contextParamsLocalChain);
+    const client = new OptimisticTokenVotingClient(context);
+    const steps = client.methods.createProposal({
+      metadata: {
+        title: 'Test proposal',
+        summary: 'Test proposal summary',
+        description: 'Test proposal description',
+        resources: [],
+      },
+      actions: [client.encoding.executeAction(BigInt(0))],
+    });
+    for await (const step of steps) {
+      switch (step.status) {
+        case CreateProposalStep.PINNING:
+          break;
+        case CreateProposalStep.WAITING:
+          expect(mockedIPFSClient.add).toHaveBeenCalled();
+          expect(mockedIPFSClient.pin).toHaveBeenCalled();
+          expect(step.txHash).toMatch(/^0x[a-fA-F0-9]{64}$/);
+          break;
+        case CreateProposalStep.DONE:
+          expect(typeof step.proposalId).toBe('bigint');
+          break;
+        default:
+          throw new Error(
+            'Unexpected proposal creation step: ' + JSON.stringify(step)
+          );
+      }
+    }
+  });
+
+  it('Should get a proposal', async () => {
+    const context = new OptimisticTokenVotingContext(contextParamsLocalChain);
+    const client = new OptimisticTokenVotingClient(context);
+    const proposalId = await createProposal(client);
+
+    const proposal = await client.methods.getProposal(proposalId);
+    expect(proposal.id).toBe(proposalId);
+    expect(proposal.open).toBe(true);
+    expect(proposal.executed).toBe(false);
+    expect(proposal.status).toBe(OptimisticProposalStatus.ACTIVE);
+    expect(proposal.parameters.startDate instanceof Date).toBe(true);
+    expect(proposal.parameters.endDate.getTime()).toBe(
+      proposal.parameters.startDate.getTime() + 60 * 60 * 24 * 4 * 1000
+    );
+    expect(proposal.parameters.expirationDate.getTime()).toBe(
+      proposal.parameters.endDate.getTime() + 60 * 60 * 24 * 7 * 1000
+    );
+    expect(typeof proposal.parameters.snapshotTimepoint).toBe('number');
+    expect(proposal.parameters.clockMode).toBe(ClockMode.BLOCK_NUMBER);
+    expect(proposal.parameters.minVetoVotingPower).toBe(
+      parseEther('1').toBigInt()
+    );
+    expect(proposal.vetoTally).toBe(BigInt(0));
+    expect(proposal.vetoPercentage).toBe(0);
+    expect(proposal.timeRemaining).toBeGreaterThan(0);
+    expect(proposal.actions).toEqual([]);
+    expect(proposal.allowFailureMap).toBe(BigInt(0));
+
+    for await (const step of client.methods.veto(proposalId)) {
+      expect(Object.values(VetoProposalStep)).toContain(step.status);
+    }
+
+    const vetoedProposal = await client.methods.getProposal(proposalId);
+    expect(vetoedProposal.vetoTally).toBe(parseEther('10').toBigInt());
+    expect(vetoedProposal.vetoPercentage).toBe(1000);
+    // the veto reached the min veto voting power, so the proposal
+    // is defeated before its end date
+    expect(vetoedProposal.open).toBe(false);
+    expect(vetoedProposal.status).toBe(OptimisticProposalStatus.DEFEATED);
+  });
+
+  it('Should veto a proposal', async () => {
+    const context = new OptimisticTokenVotingContext(contextParamsLocalChain);
+    const client = new OptimisticTokenVotingClient(context);
+    const proposalId = await createProposal(client);
+    expect(
+      await client.methods.canVeto(
+        proposalId,
+        await context.signer.getAddress()
+      )
+    ).toBe(true);
+
+    for await (const step of client.methods.veto(proposalId)) {
+      switch (step.status) {
+        case VetoProposalStep.WAITING:
+          expect(step.txHash).toMatch(/^0x[a-fA-F0-9]{64}$/);
+          break;
+        case VetoProposalStep.DONE:
+          break;
+        default:
+          throw new Error('Unexpected veto step: ' + JSON.stringify(step));
+      }
+    }
+
+    expect(
+      await client.methods.hasVetoed(
+        proposalId,
+        await context.signer.getAddress()
+      )
+    ).toBe(true);
+  });
+
+  it('Should veto a proposal with a reason', async () => {
+    const context = new OptimisticTokenVotingContext(contextParamsLocalChain);
+    const client = new OptimisticTokenVotingClient(context);
+    const proposalId = await createProposal(client);
+    const plugin = OptimisticTokenVotingPlugin__factory.connect(
+      dao.plugins[0],
+      context.signer
+    );
+
+    const voterAddress = await context.signer.getAddress();
+
+    for await (const step of client.methods.veto(proposalId, 'Too risky')) {
+      expect(Object.values(VetoProposalStep)).toContain(step.status);
+    }
+
+    expect(await client.methods.hasVetoed(proposalId, voterAddress)).toBe(true);
+    const [event] = await plugin.queryFilter(
+      plugin.filters.VetoReason(proposalId)
+    );
+    expect(event.args.voter).toBe(voterAddress);
+    expect(event.args.reason).toBe('Too risky');
+  });
+
+  it('Should veto many proposals and skip the ones that cannot be vetoed', async () => {
+    const context = new OptimisticTokenVotingContext(contextParamsLocalChain);
+    const client = new OptimisticTokenVotingClient(context);
+    const vetoedProposalId = await createProposal(client);
+    const proposalId = await createProposal(client);
+    for await (const step of client.methods.veto(vetoedProposalId)) {
+      expect(Object.values(VetoProposalStep)).toContain(step.status);
+    }
+
+    const steps = client.methods.vetoMany([vetoedProposalId, proposalId]);
+    for await (const step of steps) {
+      switch (step.status) {
+        case VetoManyStep.WAITING:
+          expect(step.txHash).toMatch(/^0x[a-fA-F0-9]{64}$/);
+          break;
+        case VetoManyStep.DONE:
+          expect(step.vetoedProposalIds).toEqual([proposalId]);
+          expect(step.skippedProposalIds).toEqual([vetoedProposalId]);
+          break;
+        default:
+          throw new Error('Unexpected veto step: ' + JSON.stringify(step));
+      }
+    }
+
+    expect(
+      await client.methods.hasVetoed(
+        proposalId,
+        await context.signer.getAddress()
+      )
+    ).toBe(true);
+  });
+
+  it('Should report the vetoed proposals with a lowercase plugin address', async () => {
+    const context = new OptimisticTokenVotingContext({
+      ...contextParamsLocalChain,
+      optimisticTokenVotingPluginAddress: dao.plugins[0].toLowerCase(),
+    });
+    const client = new OptimisticTokenVotingClient(context);
+    const proposalId = await createProposal(client);
+
+    const steps = client.methods.vetoMany([proposalId]);
+    for await (const step of steps) {
+      if (step.status === VetoManyStep.DONE) {
+        expect(step.vetoedProposalIds).toEqual([proposalId]);
+        expect(step.skippedProposalIds).toEqual([]);
+      }
+    }
+  });
+
+  it('Should fail to veto, execute or cancel a defeated proposal', async () => {
+    const context = new OptimisticTokenVotingContext(contextParamsLocalChain);
+    const client = new OptimisticTokenVotingClient(context);
+    const proposalId = await createProposal(client);
+    // the signer holds all the voting power
+    for await (const step of client.methods.veto(proposalId)) {
+      expect(Object.values(VetoProposalStep)).toContain(step.status);
+    }
+
+    await expect(client.methods.veto(proposalId).next()).rejects.toThrow(
+      new VetoForbiddenError(VetoForbiddenReason.DEFEATED)
+    );
+    await expect(client.methods.execute(proposalId).next()).rejects.toThrow(
+      new ExecutionForbiddenError(
+        ExecutionForbiddenReason.MIN_VETO_RATIO_REACHED
+      )
+    );
+    await expect(client.methods.cancel(proposalId).next()).rejects.toThrow(
+      new CancellationForbiddenError(CancellationForbiddenReason.DEFEATED)
+    );
+  });
+
+  it('Should relay a signed veto', async () => {
+    const context = new OptimisticTokenVotingContext(contextParamsLocalChain);
+    const client = new OptimisticTokenVotingClient(context);
+    const proposalId = await createProposal(client);
+    const voterAddress = await context.signer.getAddress();
+    const deadline = new Date(Date.now() + 60 * 60 * 1000);
+
+    const typedData = await client.methods.getVetoTypedData(
+      proposalId,
+      voterAddress,
+      deadline
+    );
+    const signedVeto = await client.methods.signVeto(proposalId, deadline);
+    expect(signedVeto.voter).toBe(voterAddress);
+    expect(
+      verifyTypedData(
+        typedData.domain,
+        typedData.types,
+        typedData.value,
+        signedVeto.signature
+      )
+    ).toBe(voterAddress);
+
+    // anyone can send the action, the veto is credited to the signer
+    const action = client.encoding.vetoBySigAction(signedVeto);
+    const tx = await context.signer.sendTransaction({
+      to: action.to,
+      data: action.data,
+    });
+    await tx.wait();
+
+    expect(await client.methods.hasVetoed(proposalId, voterAddress)).toBe(true);
+    const nextTypedData = await client.methods.getVetoTypedData(
+      proposalId,
+      voterAddress,
+      deadline
+    );
+    expect(nextTypedData.value.nonce).toBe(typedData.value.nonce + BigInt(1));
+    await expect(client.methods.signVeto(proposalId, deadline)).rejects.toThrow(
+      new VetoForbiddenError(VetoForbiddenReason.DEFEATED)
+    );
+  });
+
+  it('Should fail to execute a proposal that has not ended', async () => {
+    const context = new OptimisticTokenVotingContext(contextParamsLocalChain);
+    const client = new OptimisticTokenVotingClient(context);
+    const proposalId = await createProposal(client);
+    expect(await client.methods.canExecute(proposalId)).toBe(false);
+
+    const steps = client.methods.execute(proposalId);
+    await expect(steps.next()).rejects.toThrow(
+      new ExecutionForbiddenError(ExecutionForbiddenReason.NOT_ENDED)
+    );
+  });
+
+  it('Should cancel a proposal', async () => {
+    const context = new OptimisticTokenVotingContext(contextParamsLocalChain);
+    const client = new OptimisticTokenVotingClient(context);
+    const proposalId = await createProposal(client);
+
+    for await (const step of client.methods.cancel(proposalId)) {
+      switch (step.status) {
+        case CancelProposalStep.WAITING:
+          expect(step.txHash).toMatch(/^0x[a-fA-F0-9]{64}$/);
+          break;
+        case CancelProposalStep.DONE:
+          break;
+        default:
+          throw new Error('Unexpected cancel step: ' + JSON.stringify(step));
+      }
+    }
+
+    const proposal = await client.methods.getProposal(proposalId);
+    expect(proposal.cancelled).toBe(true);
+    expect(proposal.open).toBe(false);
+    expect(proposal.status).toBe(OptimisticProposalStatus.CANCELLED);
+
+    await expect(client.methods.veto(proposalId).next()).rejects.toThrow(
+      new VetoForbiddenError(VetoForbiddenReason.CANCELLED)
+    );
+    await expect(client.methods.cancel(proposalId).next()).rejects.toThrow(
+      new CancellationForbiddenError(
+        CancellationForbiddenReason.ALREADY_CANCELLED
+      )
+    );
+  });
+
+  it('Should fail to cancel a proposal that has ended', async () => {
+    const context = new OptimisticTokenVotingContext(contextParamsLocalChain);
+    const client = new OptimisticTokenVotingClient(context);
+    const proposalId = await createProposal(client);
+    const provider = context.web3Providers[0];
+    await mineBlockWithTimeOffset(provider, 60 * 60 * 24 * 5);
+
+    await expect(client.methods.cancel(proposalId).next()).rejects.toThrow(
+      new CancellationForbiddenError(CancellationForbiddenReason.ENDED)
+    );
+  });
+
+  it('Should fail to emergency veto a proposal that is not open', async () => {
+    const context = new OptimisticTokenVotingContext(contextParamsLocalChain);
+    const client = new OptimisticTokenVotingClient(context);
+    const proposalId = await createProposal(client);
+    for await (const step of client.methods.cancel(proposalId)) {
+      expect(Object.values(CancelProposalStep)).toContain(step.status);
+    }
+
+    await expect(
+      client.methods.emergencyVeto(proposalId).next()
+    ).rejects.toThrow(new VetoForbiddenError(VetoForbiddenReason.CANCELLED));
+  });
+
+  it('Should update the metadata of a proposal before it starts', async () => {
+    const context = new OptimisticTokenVotingContext(contextParamsLocalChain);
+    const client = new OptimisticTokenVotingClient(context);
+    const block = await context.web3Providers[0].getBlock('latest');
+    const steps = client.methods.createProposal({
+      metadata: {
+        title: 'Test proposal',
+        summary: 'Test proposal summary',
+        description: 'Test proposal description',
+        resources: [],
+      },
+      startDate: new Date((block.timestamp + 60 * 60) * 1000),
     });
+    let proposalId = BigInt(0);
+    for await (const step of steps) {
+      if (step.status === CreateProposalStep.DONE) {
+        proposalId = step.proposalId;
+      }
+    }
 
-    const number = await client.methods.getNumber(dao.dao);
+    const statuses: UpdateProposalMetadataStep[] = [];
+    for await (const step of client.methods.updateProposalMetadata({
+      proposalId,
+      metadata: {
+        title: 'Updated proposal',
+        summary: 'Updated proposal summary',
+        description: 'Updated proposal description',
+        resources: [],
+      },
+    })) {
+      statuses.push(step.status);
+      if (step.status === UpdateProposalMetadataStep.WAITING) {
+        expect(step.txHash).toMatch(/^0x[a-fA-F0-9]{64}$/);
+      }
+    }
+    expect(statuses).toEqual([
+      UpdateProposalMetadataStep.PINNING,
+      UpdateProposalMetadataStep.WAITING,
+      UpdateProposalMetadataStep.DONE,
+    ]);
+  });
 
-    expect(number.toString()).toBe('1');
+  it('Should fail to update the metadata of a started proposal', async () => {
+    const context = new OptimisticTokenVotingContext(contextParamsLocalChain);
+    const client = new OptimisticTokenVotingClient(context);
+    const proposalId = await createProposal(client);
 
-    expect(mockedClient.request).toHaveBeenCalledWith(QueryNumber, {
-      id: dao.dao,
+    const steps = client.methods.updateProposalMetadata({
+      proposalId,
+      metadata: {
+        title: 'Updated proposal',
+        summary: 'Updated proposal summary',
+        description: 'Updated proposal description',
+        resources: [],
+      },
     });
+    await expect(steps.next()).rejects.toThrow(
+      new MetadataUpdateForbiddenError(MetadataUpdateForbiddenReason.STARTED)
+    );
+  });
+
+  it('Should get the governance settings', async () => {
+    const context = new OptimisticTokenVotingContext(contextParamsLocalChain);
+    const client = new OptimisticTokenVotingClient(context);
+    const settings = await client.methods.getGovernanceSettings();
+    expect(settings.minVetoRatio).toBe(100000);
+    expect(settings.minDuration).toBe(60 * 60 * 24 * 4);
+    expect(settings.executionWindow).toBe(60 * 60 * 24 * 7);
+    expect(settings.minProposerVotingPower).toBe(BigInt(0));
+  });
+
+  it('Should get the minimum duration of a proposal with the given actions', async () => {
+    const context = new OptimisticTokenVotingContext(contextParamsLocalChain);
+    const client = new OptimisticTokenVotingClient(context);
+    // no action has a longer duration than `minDuration` yet
+    expect(await client.methods.getEffectiveMinDuration([])).toBe(
+      60 * 60 * 24 * 4
+    );
+    expect(
+      await client.methods.getEffectiveMinDuration([
+        client.encoding.vetoAction(BigInt(0)),
+      ])
+    ).toBe(60 * 60 * 24 * 4);
+  });
+
+  it('Should get the voting token', async () => {
+    const context = new OptimisticTokenVotingContext(contextParamsLocalChain);
+    const client = new OptimisticTokenVotingClient(context);
+    const token = await client.methods.getVotingToken();
+    expect(token).toMatch(/^0x[A-Fa-f0-9]{40}$/i);
+  });
+
+  it('Should get the voting power of an account', async () => {
+    const context = new OptimisticTokenVotingContext(contextParamsLocalChain);
+    const client = new OptimisticTokenVotingClient(context);
+    const address = await context.signer.getAddress();
+    const proposalId = await createProposal(client);
+
+    // the minted tokens are delegated to their holder
+    const votingPower = await client.methods.getVotingPower(
+      address,
+      proposalId
+    );
+    expect(votingPower.votes).toBe(parseEther('10').toBigInt());
+    expect(votingPower.pastVotes).toBe(parseEther('10').toBigInt());
+    expect(votingPower.balance).toBe(parseEther('10').toBigInt());
+    expect(votingPower.delegatee).toBe(address);
+    expect(votingPower.isMember).toBe(true);
+    expect(votingPower.canPropose).toBe(true);
+    expect(votingPower.canVeto).toBe(true);
+
+    const nonMember = await client.methods.getVotingPower(ADDRESS_ONE);
+    expect(nonMember.votes).toBe(BigInt(0));
+    expect(nonMember.pastVotes).toBeUndefined();
+    expect(nonMember.balance).toBe(BigInt(0));
+    expect(nonMember.isMember).toBe(false);
+    // there is no min proposer voting power
+    expect(nonMember.canPropose).toBe(true);
+    expect(nonMember.canVeto).toBeUndefined();
+  });
+
+  it('Should delegate the tokens and relay a signed delegation', async () => {
+    const context = new OptimisticTokenVotingContext(contextParamsLocalChain);
+    const client = new OptimisticTokenVotingClient(context);
+    const address = await context.signer.getAddress();
+    expect(await client.methods.getUndelegatedHolders([address])).toEqual([]);
+
+    for await (const step of client.methods.delegate(ADDRESS_ONE)) {
+      switch (step.status) {
+        case DelegateTokensStep.WAITING:
+          expect(step.txHash).toMatch(/^0x[a-fA-F0-9]{64}$/);
+          break;
+        case DelegateTokensStep.DONE:
+          break;
+        default:
+          throw new Error('Unexpected delegate step: ' + JSON.stringify(step));
+      }
+    }
+    expect(await client.methods.getDelegatee(address)).toBe(ADDRESS_ONE);
+    // the balance no longer counts for vetoing
+    expect(
+      await client.methods.getUndelegatedHolders([address, ADDRESS_ONE])
+    ).toEqual([address]);
+
+    const expiry = new Date(Date.now() + 60 * 60 * 1000);
+    const typedData = await client.methods.getDelegationTypedData(
+      address,
+      address,
+      expiry
+    );
+    const signedDelegation = await client.methods.signDelegation(
+      address,
+      expiry
+    );
+    expect(signedDelegation.delegator).toBe(address);
+    expect(
+      verifyTypedData(
+        typedData.domain,
+        typedData.types,
+        typedData.value,
+        signedDelegation.signature
+      )
+    ).toBe(address);
+
+    for await (const step of client.methods.delegateBySig(signedDelegation)) {
+      expect(Object.values(DelegateTokensStep)).toContain(step.status);
+    }
+    expect(await client.methods.getDelegatee(address)).toBe(address);
+    expect(await client.methods.getUndelegatedHolders([address])).toEqual([]);
   });
 
-  it('Should get a list of numbers', async () => {
-    const context = new MyPluginContext(contextParamsLocalChain);
-    const client = new MyPluginClient(context);
+  it('Should reject delegating to an invalid address', async () => {
+    const context = new OptimisticTokenVotingContext(contextParamsLocalChain);
+    const client = new OptimisticTokenVotingClient(context);
+    await expect(client.methods.delegate('0x1234').next()).rejects.toThrow(
+      new InvalidAddressError()
+    );
+    await expect(
+      client.methods.signDelegation('0x1234', new Date())
+    ).rejects.toThrow(new InvalidAddressError());
+  });
+
+  it('Should get a list of proposals', async () => {
+    const context = new OptimisticTokenVotingContext(contextParamsLocalChain);
+    const client = new OptimisticTokenVotingClient(context);
     const mockedClient = mockedGraphqlRequest.getMockedInstance(
       client.graphql.getClient()
     );
+    const now = 1700000000;
+    const dateSpy = jest.spyOn(Date, 'now').mockReturnValue(now * 1000);
     const limit = 5;
-    const params: NumbersQueryParams = {
+    const params: ProposalQueryParams = {
       limit,
-      sortBy: NumbersSortBy.CREATED_AT,
-      direction: SortDirection.ASC,
+      sortBy: ProposalSortBy.END_DATE,
+      direction: SortDirection.DESC,
       skip: 0,
+      status: OptimisticProposalStatus.ACTIVE,
+      creatorAddress: ADDRESS_ONE,
+      daoAddressOrEns: dao.dao,
     };
-    const subgraphResponse: SubgraphNumberListItem[] = [
+    const subgraphResponse: SubgraphProposalListItem[] = [
       {
-        id: dao.dao,
-        subdomain: 'test',
-        number: {
-          value: '1',
+        id: dao.plugins[0].toLowerCase() + '_0x0',
+        dao: {
+          id: dao.dao.toLowerCase(),
         },
+        creator: ADDRESS_ONE,
+        metadata: 'ipfs://QmXhJawTJ3PkoKMyF3a4D89zybAHjpcGivkb7F1NkHAjpo',
+        pluginProposalId: '0',
+        createdAt: (now - 100).toString(),
+        startDate: (now - 100).toString(),
+        endDate: (now + 100).toString(),
+        expirationDate: (now + 200).toString(),
+        executed: false,
+        cancelled: false,
+        vetoTally: '1',
+        minVetoVotingPower: '10',
+        minVetoRatioReached: false,
+        emergencyVetoed: false,
+        clockMode: 'timestamp',
       },
     ];
     mockedClient.request.mockResolvedValueOnce({
-      daos: subgraphResponse,
+      optimisticProposals: subgraphResponse,
     });
 
-    const numbers = await client.methods.getNumbers(params);
+    const proposals = await client.methods.getProposals(params);
 
-    for (const [index, subgraphNumber] of subgraphResponse.entries()) {
-      expect(subgraphNumber.id).toBe(numbers[index].id);
-      expect(subgraphNumber.subdomain).toBe(numbers[index].subdomain);
-      expect(subgraphNumber.number.value).toBe(numbers[index].value.toString());
+    for (const [index, subgraphProposal] of subgraphResponse.entries()) {
+      const proposal = proposals[index];
+      expect(proposal.id).toBe(subgraphProposal.id);
+      expect(proposal.pluginProposalId).toBe(BigInt(0));
+      expect(proposal.daoAddress).toBe(subgraphProposal.dao.id);
+      expect(proposal.creatorAddress).toBe(subgraphProposal.creator);
+      expect(proposal.metadataUri).toBe(subgraphProposal.metadata);
+      expect(proposal.startDate.getTime()).toBe((now - 100) * 1000);
+      expect(proposal.endDate.getTime()).toBe((now + 100) * 1000);
+      expect(proposal.expirationDate.getTime()).toBe((now + 200) * 1000);
+      expect(proposal.status).toBe(OptimisticProposalStatus.ACTIVE);
+      expect(proposal.vetoTally).toBe(BigInt(1));
+      expect(proposal.minVetoVotingPower).toBe(BigInt(10));
+      expect(proposal.clockMode).toBe(ClockMode.TIMESTAMP);
     }
 
-    expect(mockedClient.request).toHaveBeenCalledWith(QueryNumbers, params);
+    expect(mockedClient.request).toHaveBeenCalledWith(QueryProposals, {
+      where: {
+        dao: dao.dao.toLowerCase(),
+        creator: ADDRESS_ONE,
+        executed: false,
+        cancelled: false,
+        startDate_lte: now.toString(),
+        endDate_gt: now.toString(),
+        defeated: false,
+      },
+      limit,
+      skip: 0,
+      direction: SortDirection.DESC,
+      sortBy: ProposalSortBy.END_DATE,
+    });
+    dateSpy.mockRestore();
+  });
+
+  it('Should get the vetoes of a proposal', async () => {
+    const context = new OptimisticTokenVotingContext(contextParamsLocalChain);
+    const client = new OptimisticTokenVotingClient(context);
+    const mockedClient = mockedGraphqlRequest.getMockedInstance(
+      client.graphql.getClient()
+    );
+    const proposalId = dao.plugins[0].toLowerCase() + '_0x0';
+    const params: VetoQueryParams = {
+      limit: 5,
+      sortBy: VetoSortBy.VOTING_POWER,
+      direction: SortDirection.DESC,
+      skip: 0,
+      proposalId,
+    };
+    const subgraphResponse: SubgraphVetoListItem[] = [
+      {
+        id: ADDRESS_ONE + '_' + proposalId,
+        voter: { address: ADDRESS_ONE },
+        votingPower: '10',
+        reason: 'Too risky',
+        createdAt: '1700000000',
+      },
+      {
+        id: ADDRESS_TWO + '_' + proposalId,
+        voter: { address: ADDRESS_TWO },
+        votingPower: '5',
+        reason: null,
+        createdAt: '1700000100',
+      },
+    ];
+    mockedClient.request.mockResolvedValueOnce({
+      vetoes: subgraphResponse,
+    });
+
+    const vetoes = await client.methods.getVetoes(params);
+
+    expect(vetoes).toEqual([
+      {
+        id: ADDRESS_ONE + '_' + proposalId,
+        voterAddress: ADDRESS_ONE,
+        votingPower: BigInt(10),
+        reason: 'Too risky',
+        createdAt: new Date(1700000000 * 1000),
+      },
+      {
+        id: ADDRESS_TWO + '_' + proposalId,
+        voterAddress: ADDRESS_TWO,
+        votingPower: BigInt(5),
+        reason: undefined,
+        createdAt: new Date(1700000100 * 1000),
+      },
+    ]);
+    expect(mockedClient.request).toHaveBeenCalledWith(QueryVetoes, {
+      where: { proposal: proposalId },
+      limit: 5,
+      skip: 0,
+      direction: SortDirection.DESC,
+      sortBy: VetoSortBy.VOTING_POWER,
+    });
+  });
+
+  // it moves the chain time forward, so it runs last
+  it('Should approve the proposal bond before creating a proposal', async () => {
+    const bondDao = await buildOptimisticTokenVotingDao(deployment);
+    const context = new OptimisticTokenVotingContext({
+      ...contextParamsLocalChain,
+      optimisticTokenVotingPluginAddress: bondDao.plugins[0],
+    });
+    const client = new OptimisticTokenVotingClient(context);
+    const votingToken = await client.methods.getVotingToken();
+
+    // require a bond in the voting token through a proposal of the DAO
+    const settingsProposalId = await createProposal(client, [
+      {
+        to: bondDao.plugins[0],
+        value: BigInt(0),
+        data: hexToBytes(
+          OptimisticTokenVotingPlugin__factory.createInterface().encodeFunctionData(
+            'updateProposalBondSettings',
+            [
+              {
+                token: votingToken,
+                amount: parseEther('1'),
+                treasury: bondDao.dao,
+              },
+            ]
+          )
+        ),
+      },
+    ]);
+    const provider = context.web3Providers[0];
+    await mineBlockWithTimeOffset(provider, 60 * 60 * 24 * 5);
+    for await (const step of client.methods.execute(settingsProposalId)) {
+      expect(Object.values(ExecuteProposalStep)).toContain(step.status);
+    }
+
+    const statuses: CreateProposalStep[] = [];
+    const steps = client.methods.createProposal({
+      metadata: {
+        title: 'Test proposal',
+        summary: 'Test proposal summary',
+        description: 'Test proposal description',
+        resources: [],
+      },
+    });
+    for await (const step of steps) {
+      statuses.push(step.status);
+      if (step.status === CreateProposalStep.APPROVING) {
+        expect(step.txHash).toMatch(/^0x[a-fA-F0-9]{64}$/);
+      }
+    }
+    expect(statuses).toEqual([
+      CreateProposalStep.PINNING,
+      CreateProposalStep.APPROVING,
+      CreateProposalStep.WAITING,
+      CreateProposalStep.DONE,
+    ]);
+
+    const plugin = OptimisticTokenVotingPlugin__factory.connect(
+      bondDao.plugins[0],
+      provider
+    );
+    expect((await plugin.getProposalBond(1)).bond.amount.toString()).toBe(
+      parseEther('1').toString()
+    );
   });
 });
+
+async function createProposal(
+  client: OptimisticTokenVotingClient,
+  actions?: DaoAction[]
+): Promise<bigint> {
+  const steps = client.methods.createProposal({
+    metadata: {
+      title: 'Test proposal',
+      summary: 'Test proposal summary',
+      description: 'Test proposal description',
+      resources: [],
+    },
+    actions,
+  });
+  for await (const step of steps) {
+    if (step.status === CreateProposalStep.DONE) {
+      return step.proposalId;
+    }
+  }
+  throw new Error('The proposal was not created');
+}
@@ -1,5 +1,5 @@
-import { MyPluginContext } from '../../src';
-import { MyPluginContextParams } from '../../src/types';
+import { OptimisticTokenVotingContext } from '../../src';
+import { OptimisticTokenVotingContextParams } from '../../src/types';
 import { ADDRESS_ONE } from '../constants';
 import {
   Context,
@@ -16,7 +16,7 @@ import { GraphQLClient } from 'graphql-request';
 declare const describe, it, beforeEach, expect;
 
 describe('Context instances', () => {
-  let contextParams: MyPluginContextParams;
+  let contextParams: OptimisticTokenVotingContextParams;
   const TEST_WALLET =
     '8d7d56a9efa4158d232edbeaae601021eb3477ad77b5f3c720601fd74e8e04bb';
   const web3endpoints = {
@@ -35,12 +35,13 @@ describe('Context instances', () => {
       graphqlNodes: [],
       ipfsNodes: [],
       // Plugin specific parameters
-      myPluginPluginAddress: 'notDefault',
+      optimisticTokenVotingPluginAddress: 'notDefault',
+      optimisticTokenVotingRepoAddress: 'notDefault',
     };
   });
   it('Should create an empty context and have default values', () => {
-    const context = new MyPluginContext();
-    expect(context).toBeInstanceOf(MyPluginContext);
+    const context = new OptimisticTokenVotingContext();
+    expect(context).toBeInstanceOf(OptimisticTokenVotingContext);
     expect(context.network.name).toBe('homestead');
     expect(context.network.chainId).toBe(1);
     expect(context.daoFactoryAddress).toBe(LIVE_CONTRACTS.homestead.daoFactory);
@@ -49,9 +50,12 @@ describe('Context instances', () => {
     expect(context.web3Providers.length).toBe(0);
     expect(context.ipfs.length).toBe(IPFS_NODES.homestead.length);
     expect(context.graphql.length).toBe(GRAPHQL_NODES.homestead.length);
-    expect(context.myPluginPluginAddress).toBe(
+    expect(context.optimisticTokenVotingPluginAddress).toBe(
       '0x2345678901234567890123456789012345678901'
     );
+    expect(context.optimisticTokenVotingRepoAddress).toBe(
+      '0x1234567890123456789012345678901234567890'
+    );
     context.web3Providers.map((provider) => {
       expect(provider).toBeInstanceOf(JsonRpcProvider);
     });
@@ -63,9 +67,9 @@ describe('Context instances', () => {
     );
   });
   it('Should create a context and have the correct values', () => {
-    const context = new MyPluginContext(contextParams);
+    const context = new OptimisticTokenVotingContext(contextParams);
 
-    expect(context).toBeInstanceOf(MyPluginContext);
+    expect(context).toBeInstanceOf(OptimisticTokenVotingContext);
     expect(context.network.name).toBe('homestead');
     expect(context.network.chainId).toBe(1);
     expect(context.daoFactoryAddress).toBe(contextParams.daoFactoryAddress);
@@ -82,10 +86,11 @@ describe('Context instances', () => {
     context.graphql.map((graphqlClient) =>
       expect(graphqlClient).toBeInstanceOf(GraphQLClient)
     );
-    expect(context.myPluginPluginAddress).toBe('notDefault');
+    expect(context.optimisticTokenVotingPluginAddress).toBe('notDefault');
+    expect(context.optimisticTokenVotingRepoAddress).toBe('notDefault');
   });
   it('Should set a new context and have the correct values', () => {
-    const context = new MyPluginContext(contextParams);
+    const context = new OptimisticTokenVotingContext(contextParams);
     contextParams = {
       network: 'goerli',
       signer: new Wallet(TEST_WALLET),
@@ -94,11 +99,11 @@ describe('Context instances', () => {
       gasFeeEstimationFactor: 0.1,
       ipfsNodes: [{ url: 'https://localhost', headers: {} }],
       graphqlNodes: [{ url: 'https://localhost' }],
-      myPluginPluginAddress: 'notDefault',
+      optimisticTokenVotingPluginAddress: 'notDefault',
     };
     context.set(contextParams);
 
-    expect(context).toBeInstanceOf(MyPluginContext);
+    expect(context).toBeInstanceOf(OptimisticTokenVotingContext);
     expect(context.network.name).toEqual('goerli');
     expect(context.network.chainId).toEqual(5);
     expect(context.signer).toBeInstanceOf(Wallet);
@@ -113,14 +118,14 @@ describe('Context instances', () => {
       expect(graphqlClient).toBeInstanceOf(GraphQLClient)
     );
     expect(context.gasFeeEstimationFactor).toEqual(0.1);
-    expect(context.myPluginPluginAddress).toBe('notDefault');
+    expect(context.optimisticTokenVotingPluginAddress).toBe('notDefault');
   });
   it('Should create a context in goerli, update the network and update all the parameters automatically', () => {
-    const context = new MyPluginContext({
+    const context = new OptimisticTokenVotingContext({
       network: 'goerli',
       web3Providers: 'https://eth-goerli.g.alchemy.com/v2/demo',
     });
-    expect(context).toBeInstanceOf(MyPluginContext);
+    expect(context).toBeInstanceOf(OptimisticTokenVotingContext);
     expect(context.network.name).toBe('goerli');
     expect(context.network.chainId).toBe(5);
     expect(context.daoFactoryAddress).toBe(LIVE_CONTRACTS.goerli.daoFactory);
@@ -139,13 +144,13 @@ describe('Context instances', () => {
       expect(graphqlClient).toBeInstanceOf(GraphQLClient)
     );
 
-    expect(context.myPluginPluginAddress).toBe(
+    expect(context.optimisticTokenVotingPluginAddress).toBe(
       '0x2345678901234567890123456789012345678901'
     );
     context.set({
       network: 'matic',
       web3Providers: 'https://polygon-rpc.com/',
-      myPluginPluginAddress: 'otherValue',
+      optimisticTokenVotingPluginAddress: 'otherValue',
     });
     expect(context.network.name).toBe('matic');
     expect(context.network.chainId).toBe(137);
@@ -164,11 +169,11 @@ describe('Context instances', () => {
     context.graphql.map((graphqlClient) =>
       expect(graphqlClient).toBeInstanceOf(GraphQLClient)
     );
-    expect(context.myPluginPluginAddress).toBe('otherValue');
+    expect(context.optimisticTokenVotingPluginAddress).toBe('otherValue');
   });
   it('Should create an empty context, update the network and update all the parameters automatically', () => {
-    const context = new MyPluginContext();
-    expect(context).toBeInstanceOf(MyPluginContext);
+    const context = new OptimisticTokenVotingContext();
+    expect(context).toBeInstanceOf(OptimisticTokenVotingContext);
     context.set({
       network: 'matic',
       web3Providers: 'https://polygon-rpc.com/',
@@ -192,7 +197,7 @@ describe('Context instances', () => {
     );
   });
   it('Should Change the network and update all the parameters', () => {
-    const context = new MyPluginContext();
+    const context = new OptimisticTokenVotingContext();
     context.set({
       ensRegistryAddress: ADDRESS_ONE,
       graphqlNodes: [
@@ -211,7 +216,7 @@ describe('Context instances', () => {
     // with the networ change becaouse now they are on manual
     // mode
     context.set({ network: 'matic' });
-    expect(context).toBeInstanceOf(MyPluginContext);
+    expect(context).toBeInstanceOf(OptimisticTokenVotingContext);
     expect(context.network.name).toBe('matic');
     expect(context.network.chainId).toBe(137);
     expect(context.daoFactoryAddress).toBe(LIVE_CONTRACTS.matic.daoFactory);
@@ -234,22 +239,22 @@ describe('Context instances', () => {
     contextParams.network = 'notexistingnetwork';
 
     expect(() => {
-      new MyPluginContext(contextParams);
+      new OptimisticTokenVotingContext(contextParams);
     }).toThrow();
   });
   it('Should create a context with invalid gas fee estimation factor and fail', () => {
     contextParams.gasFeeEstimationFactor = 1.1;
 
     expect(() => {
-      new MyPluginContext(contextParams);
+      new OptimisticTokenVotingContext(contextParams);
     }).toThrow();
   });
   it('Should create a context with the correct DAOFactory address from the core-contracts-package', () => {
     contextParams.daoFactoryAddress = '';
     contextParams.network = 'matic';
-    const context = new MyPluginContext(contextParams);
+    const context = new OptimisticTokenVotingContext(contextParams);
 
-    expect(context).toBeInstanceOf(MyPluginContext);
+    expect(context).toBeInstanceOf(OptimisticTokenVotingContext);
     expect(context.network.name).toEqual('matic');
     context.web3Providers?.map((provider) =>
       provider.getNetwork().then((nw) => {
@@ -264,34 +269,36 @@ describe('Context instances', () => {
     );
   });
 
-  it('it should use a context to initialize the MyPluginContext', () => {
+  it('it should use a context to initialize the OptimisticTokenVotingContext', () => {
     const context = new Context(contextParams);
-    const myPluginContext = new MyPluginContext(
+    const optimisticTokenVotingContext = new OptimisticTokenVotingContext(
       {
-        myPluginPluginAddress: 'notDefault',
+        optimisticTokenVotingPluginAddress: 'notDefault',
       },
       context
     );
-    expect(myPluginContext.network.name).toBe('homestead');
-    expect(myPluginContext.network.chainId).toBe(1);
-    expect(myPluginContext.daoFactoryAddress).toBe(
+    expect(optimisticTokenVotingContext.network.name).toBe('homestead');
+    expect(optimisticTokenVotingContext.network.chainId).toBe(1);
+    expect(optimisticTokenVotingContext.daoFactoryAddress).toBe(
       contextParams.daoFactoryAddress
     );
-    expect(myPluginContext.ensRegistryAddress).toBe(
-      myPluginContext.network.ensAddress
+    expect(optimisticTokenVotingContext.ensRegistryAddress).toBe(
+      optimisticTokenVotingContext.network.ensAddress
     );
-    expect(myPluginContext.gasFeeEstimationFactor).toBe(
+    expect(optimisticTokenVotingContext.gasFeeEstimationFactor).toBe(
       contextParams.gasFeeEstimationFactor
     );
-    myPluginContext.web3Providers.map((provider) =>
+    optimisticTokenVotingContext.web3Providers.map((provider) =>
       expect(provider).toBeInstanceOf(JsonRpcProvider)
     );
-    myPluginContext.ipfs.map((ipfsClient) =>
+    optimisticTokenVotingContext.ipfs.map((ipfsClient) =>
       expect(ipfsClient).toBeInstanceOf(IpfsClient)
     );
-    myPluginContext.graphql.map((graphqlClient) =>
+    optimisticTokenVotingContext.graphql.map((graphqlClient) =>
       expect(graphqlClient).toBeInstanceOf(GraphQLClient)
     );
-    expect(myPluginContext.myPluginPluginAddress).toBe('notDefault');
+    expect(
+      optimisticTokenVotingContext.optimisticTokenVotingPluginAddress
+    ).toBe('notDefault');
   });
 });
@@ -0,0 +1,541 @@
+import {
+  ClockMode,
+  InvalidGovernanceSettingsError,
+  InvalidGovernanceSettingsReason,
+  InvalidProposalBondSettingsError,
+  OptimisticProposalStatus,
+} from '../../src';
+import { ContractOptimisticProposal } from '../../src/internal/types';
+import {
+  buildDelegationTypedData,
+  buildVetoTypedData,
+  computeProposalStatus,
+  computeProposalStatusFilter,
+  hasUndelegatedBalance,
+  isTypedDataSigner,
+  toInstallationParams,
+  toOptimisticProposal,
+  toUninstallationData,
+  validateGovernanceSettings,
+} from '../../src/internal/utils';
+import { InvalidAddressError, SizeMismatchError } from '@aragon/sdk-common';
+import { defaultAbiCoder } from '@ethersproject/abi';
+import { Signer } from '@ethersproject/abstract-signer';
+import { BigNumber } from '@ethersproject/bignumber';
+import { AddressZero } from '@ethersproject/constants';
+import { Wallet } from '@ethersproject/wallet';
+
+describe('Utils', () => {
+  const startDate = 1000;
+  const endDate = 2000;
+  const expirationDate = 3000;
+
+  // only the named members of the contract result are read
+  function buildProposal(
+    executed: boolean,
+    vetoTally: number,
+    minVetoVotingPower = 10,
+    emergencyVetoed = false
+  ): ContractOptimisticProposal {
+    return {
+      open: false,
+      executed,
+      cancelled: false,
+      emergencyVetoed,
+      parameters: {
+        startDate: BigNumber.from(startDate),
+        endDate: BigNumber.from(endDate),
+        snapshotTimepoint: BigNumber.from(1),
+        clockMode: 1,
+        expirationDate: BigNumber.from(expirationDate),
+        minVetoVotingPower: BigNumber.from(minVetoVotingPower),
+      },
+      vetoTally: BigNumber.from(vetoTally),
+      actions: [],
+      allowFailureMap: BigNumber.from(0),
+    } as unknown as ContractOptimisticProposal;
+  }
+
+  function buildStatusParams(
+    executed: boolean,
+    minVetoRatioReached: boolean,
+    cancelled = false,
+    emergencyVetoed = false
+  ) {
+    return {
+      executed,
+      cancelled,
+      startDate,
+      endDate,
+      expirationDate,
+      minVetoRatioReached,
+      emergencyVetoed,
+    };
+  }
+
+  describe('computeProposalStatus', () => {
+    it('Should be pending before the start date', () => {
+      expect(
+        computeProposalStatus(buildStatusParams(false, false), startDate - 1)
+      ).toBe(OptimisticProposalStatus.PENDING);
+    });
+
+    it('Should be active from the start date until the end date', () => {
+      expect(
+        computeProposalStatus(buildStatusParams(false, false), startDate)
+      ).toBe(OptimisticProposalStatus.ACTIVE);
+      expect(
+        computeProposalStatus(buildStatusParams(false, false), endDate - 1)
+      ).toBe(OptimisticProposalStatus.ACTIVE);
+    });
+
+    it('Should be defeated as soon as the min veto ratio is reached', () => {
+      expect(
+        computeProposalStatus(buildStatusParams(false, true), startDate)
+      ).toBe(OptimisticProposalStatus.DEFEATED);
+      expect(
+        computeProposalStatus(buildStatusParams(false, true), endDate)
+      ).toBe(OptimisticProposalStatus.DEFEATED);
+    });
+
+    it('Should be defeated as soon as a guardian vetoes it in an emergency', () => {
+      expect(
+        computeProposalStatus(
+          buildStatusParams(false, false, false, true),
+          startDate
+        )
+      ).toBe(OptimisticProposalStatus.DEFEATED);
+      expect(
+        computeProposalStatus(
+          buildStatusParams(false, false, false, true),
+          expirationDate
+        )
+      ).toBe(OptimisticProposalStatus.DEFEATED);
+    });
+
+    it('Should be succeeded after the end date if the min veto ratio is not reached', () => {
+      expect(
+        computeProposalStatus(buildStatusParams(false, false), endDate)
+      ).toBe(OptimisticProposalStatus.SUCCEEDED);
+      expect(
+        computeProposalStatus(
+          buildStatusParams(false, false),
+          expirationDate - 1
+        )
+      ).toBe(OptimisticProposalStatus.SUCCEEDED);
+    });
+
+    it('Should be expired after the expiration date if it was not executed', () => {
+      expect(
+        computeProposalStatus(buildStatusParams(false, false), expirationDate)
+      ).toBe(OptimisticProposalStatus.EXPIRED);
+      expect(
+        computeProposalStatus(buildStatusParams(false, true), expirationDate)
+      ).toBe(OptimisticProposalStatus.DEFEATED);
+      expect(
+        computeProposalStatus(buildStatusParams(true, false), expirationDate)
+      ).toBe(OptimisticProposalStatus.EXECUTED);
+    });
+
+    it('Should be executed once executed', () => {
+      expect(
+        computeProposalStatus(buildStatusParams(true, false), endDate)
+      ).toBe(OptimisticProposalStatus.EXECUTED);
+    });
+
+    it('Should be cancelled once cancelled, whatever the dates', () => {
+      expect(
+        computeProposalStatus(
+          buildStatusParams(false, false, true),
+          startDate - 1
+        )
+      ).toBe(OptimisticProposalStatus.CANCELLED);
+      expect(
+        computeProposalStatus(buildStatusParams(false, true, true), endDate)
+      ).toBe(OptimisticProposalStatus.CANCELLED);
+    });
+  });
+
+  describe('computeProposalStatusFilter', () => {
+    it('Should filter the proposals that have the same status', () => {
+      const now = 1500;
+      expect(
+        computeProposalStatusFilter(OptimisticProposalStatus.PENDING, now)
+      ).toEqual({ executed: false, cancelled: false, startDate_gt: '1500' });
+      expect(
+        computeProposalStatusFilter(OptimisticProposalStatus.ACTIVE, now)
+      ).toEqual({
+        executed: false,
+        cancelled: false,
+        startDate_lte: '1500',
+        endDate_gt: '1500',
+        defeated: false,
+      });
+      expect(
+        computeProposalStatusFilter(OptimisticProposalStatus.DEFEATED, now)
+      ).toEqual({
+        executed: false,
+        cancelled: false,
+        defeated: true,
+      });
+      expect(
+        computeProposalStatusFilter(OptimisticProposalStatus.SUCCEEDED, now)
+      ).toEqual({
+        executed: false,
+        cancelled: false,
+        endDate_lte: '1500',
+        expirationDate_gt: '1500',
+        defeated: false,
+      });
+      expect(
+        computeProposalStatusFilter(OptimisticProposalStatus.EXECUTED, now)
+      ).toEqual({ executed: true });
+      expect(
+        computeProposalStatusFilter(OptimisticProposalStatus.CANCELLED, now)
+      ).toEqual({ executed: false, cancelled: true });
+      expect(
+        computeProposalStatusFilter(OptimisticProposalStatus.EXPIRED, now)
+      ).toEqual({
+        executed: false,
+        cancelled: false,
+        expirationDate_lte: '1500',
+        defeated: false,
+      });
+    });
+  });
+
+  describe('toOptimisticProposal', () => {
+    it('Should compute the veto percentage and the time remaining', () => {
+      const proposal = toOptimisticProposal(
+        BigInt(1),
+        buildProposal(false, 5),
+        endDate - 100
+      );
+      expect(proposal.vetoPercentage).toBe(50);
+      expect(proposal.timeRemaining).toBe(100);
+      expect(proposal.parameters.startDate.getTime()).toBe(startDate * 1000);
+      expect(proposal.parameters.endDate.getTime()).toBe(endDate * 1000);
+      expect(proposal.parameters.clockMode).toBe(ClockMode.TIMESTAMP);
+    });
+
+    it('Should not have a negative time remaining after the end date', () => {
+      const proposal = toOptimisticProposal(
+        BigInt(1),
+        buildProposal(false, 0),
+        endDate + 100
+      );
+      expect(proposal.timeRemaining).toBe(0);
+    });
+
+    it('Should be defeated once the veto tally reaches the min veto voting power', () => {
+      expect(
+        toOptimisticProposal(BigInt(1), buildProposal(false, 10), endDate - 1)
+          .status
+      ).toBe(OptimisticProposalStatus.DEFEATED);
+      expect(
+        toOptimisticProposal(BigInt(1), buildProposal(false, 9), endDate).status
+      ).toBe(OptimisticProposalStatus.SUCCEEDED);
+    });
+
+    it('Should be defeated once a guardian vetoed it, whatever the veto tally', () => {
+      const proposal = toOptimisticProposal(
+        BigInt(1),
+        buildProposal(false, 0, 10, true),
+        endDate - 1
+      );
+      expect(proposal.emergencyVetoed).toBe(true);
+      expect(proposal.status).toBe(OptimisticProposalStatus.DEFEATED);
+    });
+  });
+
+  describe('validateGovernanceSettings', () => {
+    const settings = {
+      minVetoRatio: 100000,
+      minDuration: 60 * 60 * 24 * 4,
+      executionWindow: 60 * 60 * 24,
+      minProposerVotingPower: BigInt(0),
+    };
+
+    it('Should accept the settings within the bounds of the plugin', () => {
+      expect(() => validateGovernanceSettings(settings)).not.toThrow();
+      expect(() =>
+        validateGovernanceSettings({
+          ...settings,
+          minVetoRatio: 1000000,
+          minDuration: 60 * 60 * 24 * 365,
+          executionWindow: 60 * 60 * 24 * 365,
+        })
+      ).not.toThrow();
+    });
+
+    it('Should reject a min veto ratio of 0 or above 100%', () => {
+      for (const minVetoRatio of [0, 1000001]) {
+        expect(() =>
+          validateGovernanceSettings({ ...settings, minVetoRatio })
+        ).toThrow(
+          new InvalidGovernanceSettingsError(
+            InvalidGovernanceSettingsReason.MIN_VETO_RATIO_OUT_OF_BOUNDS
+          )
+        );
+      }
+    });
+
+    it('Should reject a min duration shorter than 4 days or longer than 365 days', () => {
+      for (const minDuration of [
+        60 * 60 * 24 * 4 - 1,
+        60 * 60 * 24 * 365 + 1,
+      ]) {
+        expect(() =>
+          validateGovernanceSettings({ ...settings, minDuration })
+        ).toThrow(
+          new InvalidGovernanceSettingsError(
+            InvalidGovernanceSettingsReason.MIN_DURATION_OUT_OF_BOUNDS
+          )
+        );
+      }
+    });
+
+    it('Should reject an execution window shorter than 1 day or longer than 365 days', () => {
+      for (const executionWindow of [
+        60 * 60 * 24 - 1,
+        60 * 60 * 24 * 365 + 1,
+      ]) {
+        expect(() =>
+          validateGovernanceSettings({ ...settings, executionWindow })
+        ).toThrow(
+          new InvalidGovernanceSettingsError(
+            InvalidGovernanceSettingsReason.EXECUTION_WINDOW_OUT_OF_BOUNDS
+          )
+        );
+      }
+    });
+  });
+
+  describe('toInstallationParams', () => {
+    const governanceSettings = {
+      minVetoRatio: 100000,
+      minDuration: 60 * 60 * 24 * 4,
+      executionWindow: 60 * 60 * 24 * 7,
+      minProposerVotingPower: BigInt(0),
+    };
+    const proposer = '0x0000000000000000000000000000000000000001';
+
+    it('Should follow the order of the installation inputs', () => {
+      expect(
+        toInstallationParams({
+          governanceSettings,
+          tokenSettings: { name: 'Test Token', symbol: 'TT' },
+          mintSettings: { receivers: [proposer], amounts: [BigInt(10)] },
+          proposers: [proposer],
+        })
+      ).toEqual([
+        governanceSettings,
+        {
+          token: '0x0000000000000000000000000000000000000000',
+          name: 'Test Token',
+          symbol: 'TT',
+        },
+        { receivers: [proposer], amounts: [BigInt(10)] },
+        [proposer],
+        [],
+        {
+          token: '0x0000000000000000000000000000000000000000',
+          amount: BigInt(0),
+          treasury: '0x0000000000000000000000000000000000000000',
+        },
+      ]);
+    });
+
+    it('Should encode the proposal bond', () => {
+      const proposalBond = {
+        token: proposer,
+        amount: BigInt(50),
+        treasury: proposer,
+      };
+      expect(
+        toInstallationParams({
+          governanceSettings,
+          tokenSettings: { address: proposer, name: '', symbol: '' },
+          proposers: [proposer],
+          proposalBond,
+        })[5]
+      ).toEqual(proposalBond);
+    });
+
+    it('Should reject a proposal bond without a treasury', () => {
+      expect(() =>
+        toInstallationParams({
+          governanceSettings,
+          tokenSettings: { address: proposer, name: '', symbol: '' },
+          proposers: [proposer],
+          proposalBond: {
+            token: proposer,
+            amount: BigInt(50),
+            treasury: '0x0000000000000000000000000000000000000000',
+          },
+        })
+      ).toThrow(new InvalidProposalBondSettingsError());
+    });
+
+    it('Should reject mint settings with more receivers than amounts', () => {
+      expect(() =>
+        toInstallationParams({
+          governanceSettings,
+          tokenSettings: { name: 'Test Token', symbol: 'TT' },
+          mintSettings: {
+            receivers: [proposer, proposer],
+            amounts: [BigInt(10)],
+          },
+          proposers: [proposer],
+        })
+      ).toThrow(new SizeMismatchError());
+    });
+
+    it('Should reject invalid addresses', () => {
+      expect(() =>
+        toInstallationParams({
+          governanceSettings,
+          tokenSettings: { address: '0x1234', name: '', symbol: '' },
+          proposers: [proposer],
+        })
+      ).toThrow(new InvalidAddressError());
+      expect(() =>
+        toInstallationParams({
+          governanceSettings,
+          tokenSettings: { address: proposer, name: '', symbol: '' },
+          proposers: [proposer],
+          guardians: ['0x1234'],
+        })
+      ).toThrow(new InvalidAddressError());
+    });
+
+    it('Should reject invalid governance settings', () => {
+      expect(() =>
+        toInstallationParams({
+          governanceSettings: { ...governanceSettings, minVetoRatio: 0 },
+          tokenSettings: { address: proposer, name: '', symbol: '' },
+          proposers: [proposer],
+        })
+      ).toThrow(
+        new InvalidGovernanceSettingsError(
+          InvalidGovernanceSettingsReason.MIN_VETO_RATIO_OUT_OF_BOUNDS
+        )
+      );
+    });
+  });
+
+  describe('toUninstallationData', () => {
+    const guardian = '0x0000000000000000000000000000000000000001';
+
+    it('Should encode the guardians to revoke the permission from', () => {
+      expect(
+        defaultAbiCoder.decode(['address[]'], toUninstallationData([guardian]))
+      ).toEqual([[guardian]]);
+    });
+
+    it('Should encode no guardians by default', () => {
+      expect(
+        defaultAbiCoder.decode(['address[]'], toUninstallationData())
+      ).toEqual([[]]);
+    });
+
+    it('Should reject invalid addresses', () => {
+      expect(() => toUninstallationData(['0x1234'])).toThrow(
+        new InvalidAddressError()
+      );
+    });
+  });
+
+  describe('buildVetoTypedData', () => {
+    it('Should build the typed data of a veto with the deadline in seconds', () => {
+      const typedData = buildVetoTypedData({
+        chainId: 5,
+        pluginAddress: '0x0000000000000000000000000000000000000002',
+        proposalId: BigInt(3),
+        voter: '0x0000000000000000000000000000000000000001',
+        nonce: BigInt(4),
+        deadline: new Date(1700000000 * 1000),
+      });
+      expect(typedData.domain).toEqual({
+        name: 'OptimisticTokenVotingPlugin',
+        version: '1',
+        chainId: 5,
+        verifyingContract: '0x0000000000000000000000000000000000000002',
+      });
+      // same fields as `VETO_TYPEHASH`, in the same order
+      expect(typedData.types.Veto.map((field) => field.name)).toEqual([
+        'proposalId',
+        'voter',
+        'nonce',
+        'deadline',
+      ]);
+      expect(typedData.value).toEqual({
+        proposalId: BigInt(3),
+        voter: '0x0000000000000000000000000000000000000001',
+        nonce: BigInt(4),
+        deadline: BigInt(1700000000),
+      });
+    });
+  });
+
+  describe('buildDelegationTypedData', () => {
+    it('Should build the typed data of a delegation in the domain of the token', () => {
+      const typedData = buildDelegationTypedData({
+        chainId: 5,
+        tokenAddress: '0x0000000000000000000000000000000000000002',
+        tokenName: 'Test Token',
+        delegatee: '0x0000000000000000000000000000000000000001',
+        nonce: BigInt(4),
+        expiry: new Date(1700000000 * 1000),
+      });
+      expect(typedData.domain).toEqual({
+        name: 'Test Token',
+        version: '1',
+        chainId: 5,
+        verifyingContract: '0x0000000000000000000000000000000000000002',
+      });
+      // same fields as the delegation type hash of `ERC20Votes`
+      expect(typedData.types.Delegation.map((field) => field.name)).toEqual([
+        'delegatee',
+        'nonce',
+        'expiry',
+      ]);
+      expect(typedData.value).toEqual({
+        delegatee: '0x0000000000000000000000000000000000000001',
+        nonce: BigInt(4),
+        expiry: BigInt(1700000000),
+      });
+    });
+  });
+
+  describe('hasUndelegatedBalance', () => {
+    it('Should flag a balance without votes', () => {
+      expect(
+        hasUndelegatedBalance({ balance: BigInt(10), votes: BigInt(0) })
+      ).toBe(true);
+    });
+
+    it('Should not flag a delegated balance or an empty one', () => {
+      expect(
+        hasUndelegatedBalance({ balance: BigInt(10), votes: BigInt(10) })
+      ).toBe(false);
+      expect(
+        hasUndelegatedBalance({ balance: BigInt(0), votes: BigInt(10) })
+      ).toBe(false);
+      expect(
+        hasUndelegatedBalance({ balance: BigInt(0), votes: BigInt(0) })
+      ).toBe(false);
+    });
+  });
+
+  describe('isTypedDataSigner', () => {
+    it('Should accept a signer able to sign typed data', () => {
+      expect(isTypedDataSigner(Wallet.createRandom())).toBe(true);
+    });
+
+    it('Should reject a signer unable to sign typed data', () => {
+      const signer = { getAddress: async () => AddressZero } as Signer;
+      expect(isTypedDataSigner(signer)).toBe(false);
+    });
+  });
+});
@@ -1,5 +1,6 @@
 import {
   Address,
+  BigInt,
   Bytes,
   ethereum,
   crypto,
@@ -70,3 +71,32 @@ export function getPluginVersionId(
     .concat('_')
     .concat(build.toString());
 }
+
+export function getProposalId(
+  plugin: Address,
+  pluginProposalId: BigInt
+): string {
+  return plugin
+    .toHexString()
+    .concat('_')
+    .concat(pluginProposalId.toHexString());
+}
+
+export function getPluginMemberId(plugin: Address, member: Address): string {
+  return plugin.toHexString().concat('_').concat(member.toHexString());
+}
+
+export function getVetoId(member: Address, proposalId: string): string {
+  return member.toHexString().concat('_').concat(proposalId);
+}
+
+export function getActionId(proposalId: string, index: i32): string {
+  return proposalId.concat('_').concat(index.toString());
+}
+
+export function getProposalMetadataUpdateId(
+  txHash: Bytes,
+  logIndex: BigInt
+): string {
+  return txHash.toHexString().concat('_').concat(logIndex.toString());
+}
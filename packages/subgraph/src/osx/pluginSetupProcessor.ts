@@ -12,7 +12,10 @@ import {
   UpdatePrepared,
 } from '../../generated/PluginSetupProcessor/PluginSetupProcessor';
 import {Dao, Plugin, PluginPreparation} from '../../generated/schema';
-import {Plugin as PluginTemplate} from '../../generated/templates';
+import {
+  Plugin as PluginTemplate,
+  PluginBuild1 as PluginBuild1Template,
+} from '../../generated/templates';
 import {PLUGIN_REPO_ADDRESS} from '../../utils/constants';
 import {
   updatePluginDataForInstallationApplied,
@@ -84,6 +87,10 @@ export function handleInstallationPrepared(event: InstallationPrepared): void {
     const context = new DataSourceContext();
     context.setString('daoAddress', daoId);
     PluginTemplate.createWithContext(plugin, context);
+    // Build 1 emits its governance settings with another signature
+    if (event.params.versionTag.build == 1) {
+      PluginBuild1Template.createWithContext(plugin, context);
+    }
 
     pluginEntity.save();
   } else {
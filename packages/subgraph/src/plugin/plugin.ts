@@ -1,24 +1,320 @@
-import {getPluginInstallationId} from '../../commons/ids';
-import {Plugin} from '../../generated/schema';
-import {NumberStored} from '../../generated/templates/Plugin/Plugin';
-import {Address, dataSource} from '@graphprotocol/graph-ts';
+import {
+  getActionId,
+  getPluginInstallationId,
+  getPluginMemberId,
+  getProposalId,
+  getProposalMetadataUpdateId,
+  getVetoId,
+} from '../../commons/ids';
+import {
+  Action,
+  OptimisticProposal,
+  Plugin,
+  PluginMember,
+  ProposalMetadataUpdate,
+  Veto,
+} from '../../generated/schema';
+import {
+  EmergencyVeto,
+  OptimisticGovernanceSettingsUpdated,
+  Plugin as PluginContract,
+  ProposalCancelled,
+  ProposalCreated,
+  ProposalDefeated,
+  ProposalExecuted,
+  ProposalMetadataUpdated,
+  VetoCast,
+  VetoReason,
+} from '../../generated/templates/Plugin/Plugin';
+import {PluginBuild1 as PluginBuild1Contract} from '../../generated/templates/Plugin/PluginBuild1';
+import {OptimisticGovernanceSettingsUpdated as OptimisticGovernanceSettingsUpdatedBuild1} from '../../generated/templates/PluginBuild1/PluginBuild1';
+import {Address, BigInt, Bytes, dataSource, log} from '@graphprotocol/graph-ts';
 
-export function handleNumberStored(event: NumberStored): void {
+// Build 1 proposals cannot expire, their expiration date is the largest `uint64`
+const BUILD_1_EXPIRATION_DATE = BigInt.fromString('18446744073709551615');
+
+function getInstallationId(pluginAddress: Address): Bytes | null {
+  const context = dataSource.context();
+  const daoId = context.getString('daoAddress');
+
+  return getPluginInstallationId(Address.fromString(daoId), pluginAddress);
+}
+
+// Follows the order of the `ClockMode` enum of the plugin
+function getClockMode(clockMode: i32): string {
+  return clockMode == 1 ? 'timestamp' : 'blocknumber';
+}
+
+export function handleProposalCreated(event: ProposalCreated): void {
   const pluginAddress = event.address;
+  const installationId = getInstallationId(pluginAddress);
+  if (!installationId) {
+    log.error('Failed to get installationId for plugin {}', [
+      pluginAddress.toHexString(),
+    ]);
+    return;
+  }
 
   const context = dataSource.context();
   const daoId = context.getString('daoAddress');
 
-  const installationId = getPluginInstallationId(
-    Address.fromString(daoId),
-    pluginAddress
-  );
+  const pluginProposalId = event.params.proposalId;
+  const proposalId = getProposalId(pluginAddress, pluginProposalId);
+
+  const proposalEntity = new OptimisticProposal(proposalId);
+  proposalEntity.dao = daoId;
+  proposalEntity.plugin = installationId.toHexString();
+  proposalEntity.pluginProposalId = pluginProposalId;
+  proposalEntity.creator = event.params.creator;
+  proposalEntity.metadata = event.params.metadata.toString();
+  proposalEntity.createdAt = event.block.timestamp;
+  proposalEntity.creationBlockNumber = event.block.number;
+  proposalEntity.startDate = event.params.startDate;
+  proposalEntity.endDate = event.params.endDate;
+  proposalEntity.allowFailureMap = event.params.allowFailureMap;
+  proposalEntity.vetoTally = BigInt.zero();
+  proposalEntity.executed = false;
+  proposalEntity.cancelled = false;
+  proposalEntity.emergencyVetoed = false;
 
-  if (installationId) {
-    const pluginEntity = Plugin.load(installationId.toHexString());
-    if (pluginEntity) {
-      pluginEntity.number = event.params.number;
-      pluginEntity.save();
+  // The snapshot timepoint, the expiration date and the minimum veto voting
+  // power are not part of the event. Build 1 plugins return a shorter
+  // `getProposal` tuple, which the build 2 ABI fails to decode.
+  const proposal =
+    PluginContract.bind(pluginAddress).try_getProposal(pluginProposalId);
+  if (!proposal.reverted) {
+    const parameters = proposal.value.getParameters();
+    proposalEntity.snapshotTimepoint = parameters.snapshotTimepoint;
+    proposalEntity.clockMode = getClockMode(parameters.clockMode);
+    proposalEntity.expirationDate = parameters.expirationDate;
+    proposalEntity.minVetoVotingPower = parameters.minVetoVotingPower;
+  } else {
+    // Build 1 snapshots the block before the creation and has no execution window
+    proposalEntity.snapshotTimepoint = event.block.number.minus(
+      BigInt.fromI32(1)
+    );
+    proposalEntity.clockMode = getClockMode(0);
+    proposalEntity.expirationDate = BUILD_1_EXPIRATION_DATE;
+    proposalEntity.minVetoVotingPower = BigInt.zero();
+
+    const build1Proposal =
+      PluginBuild1Contract.bind(pluginAddress).try_getProposal(
+        pluginProposalId
+      );
+    if (!build1Proposal.reverted) {
+      const parameters = build1Proposal.value.getParameters();
+      proposalEntity.snapshotTimepoint = parameters.snapshotBlock;
+      proposalEntity.minVetoVotingPower = parameters.minVetoVotingPower;
+    } else {
+      log.error('Failed to get proposal {} of plugin {}', [
+        pluginProposalId.toString(),
+        pluginAddress.toHexString(),
+      ]);
     }
   }
+  proposalEntity.minVetoRatioReached = proposalEntity.vetoTally.ge(
+    proposalEntity.minVetoVotingPower
+  );
+  proposalEntity.defeated = proposalEntity.minVetoRatioReached;
+
+  // Actions
+  const actions = event.params.actions;
+  for (let index = 0; index < actions.length; index++) {
+    const action = actions[index];
+
+    const actionEntity = new Action(getActionId(proposalId, index));
+    actionEntity.to = action.to;
+    actionEntity.value = action.value;
+    actionEntity.data = action.data;
+    actionEntity.dao = daoId;
+    actionEntity.proposal = proposalId;
+    actionEntity.save();
+  }
+
+  proposalEntity.save();
+}
+
+export function handleVetoCast(event: VetoCast): void {
+  const pluginAddress = event.address;
+  const installationId = getInstallationId(pluginAddress);
+  if (!installationId) {
+    log.error('Failed to get installationId for plugin {}', [
+      pluginAddress.toHexString(),
+    ]);
+    return;
+  }
+
+  const proposalId = getProposalId(pluginAddress, event.params.proposalId);
+  const proposalEntity = OptimisticProposal.load(proposalId);
+  if (!proposalEntity) {
+    log.error('Failed to load proposal {}', [proposalId]);
+    return;
+  }
+
+  const voter = event.params.voter;
+  const memberId = getPluginMemberId(pluginAddress, voter);
+  let memberEntity = PluginMember.load(memberId);
+  if (!memberEntity) {
+    memberEntity = new PluginMember(memberId);
+    memberEntity.address = voter.toHexString();
+    memberEntity.plugin = installationId.toHexString();
+    memberEntity.save();
+  }
+
+  const vetoEntity = new Veto(getVetoId(voter, proposalId));
+  vetoEntity.voter = memberId;
+  vetoEntity.proposal = proposalId;
+  vetoEntity.votingPower = event.params.votingPower;
+  vetoEntity.createdAt = event.block.timestamp;
+  vetoEntity.save();
+
+  proposalEntity.vetoTally = proposalEntity.vetoTally.plus(
+    event.params.votingPower
+  );
+  proposalEntity.minVetoRatioReached = proposalEntity.vetoTally.ge(
+    proposalEntity.minVetoVotingPower
+  );
+  proposalEntity.defeated =
+    proposalEntity.defeated || proposalEntity.minVetoRatioReached;
+  proposalEntity.save();
+}
+
+export function handleVetoReason(event: VetoReason): void {
+  const proposalId = getProposalId(event.address, event.params.proposalId);
+  const vetoId = getVetoId(event.params.voter, proposalId);
+  const vetoEntity = Veto.load(vetoId);
+  if (!vetoEntity) {
+    log.error('Failed to load veto {}', [vetoId]);
+    return;
+  }
+
+  vetoEntity.reason = event.params.reason;
+  vetoEntity.save();
+}
+
+export function handleProposalExecuted(event: ProposalExecuted): void {
+  const proposalId = getProposalId(event.address, event.params.proposalId);
+  const proposalEntity = OptimisticProposal.load(proposalId);
+  if (!proposalEntity) {
+    log.error('Failed to load proposal {}', [proposalId]);
+    return;
+  }
+
+  proposalEntity.executed = true;
+  proposalEntity.executionDate = event.block.timestamp;
+  proposalEntity.executionBlockNumber = event.block.number;
+  proposalEntity.executionTxHash = event.transaction.hash;
+  proposalEntity.save();
+}
+
+export function handleProposalCancelled(event: ProposalCancelled): void {
+  const proposalId = getProposalId(event.address, event.params.proposalId);
+  const proposalEntity = OptimisticProposal.load(proposalId);
+  if (!proposalEntity) {
+    log.error('Failed to load proposal {}', [proposalId]);
+    return;
+  }
+
+  proposalEntity.cancelled = true;
+  proposalEntity.cancellationDate = event.block.timestamp;
+  proposalEntity.cancellationBlockNumber = event.block.number;
+  proposalEntity.cancellationTxHash = event.transaction.hash;
+  proposalEntity.save();
+}
+
+export function handleProposalDefeated(event: ProposalDefeated): void {
+  const proposalId = getProposalId(event.address, event.params.proposalId);
+  const proposalEntity = OptimisticProposal.load(proposalId);
+  if (!proposalEntity) {
+    log.error('Failed to load proposal {}', [proposalId]);
+    return;
+  }
+
+  // Emitted right after the `VetoCast` that reached the min veto voting power
+  proposalEntity.minVetoRatioReached = true;
+  proposalEntity.defeated = true;
+  proposalEntity.defeatDate = event.block.timestamp;
+  proposalEntity.defeatBlockNumber = event.block.number;
+  proposalEntity.defeatTxHash = event.transaction.hash;
+  proposalEntity.save();
+}
+
+export function handleEmergencyVeto(event: EmergencyVeto): void {
+  const proposalId = getProposalId(event.address, event.params.proposalId);
+  const proposalEntity = OptimisticProposal.load(proposalId);
+  if (!proposalEntity) {
+    log.error('Failed to load proposal {}', [proposalId]);
+    return;
+  }
+
+  // The veto tally is left as it is, it did not reach the min veto voting power
+  proposalEntity.emergencyVetoed = true;
+  proposalEntity.emergencyVetoGuardian = event.params.guardian;
+  proposalEntity.defeated = true;
+  proposalEntity.defeatDate = event.block.timestamp;
+  proposalEntity.defeatBlockNumber = event.block.number;
+  proposalEntity.defeatTxHash = event.transaction.hash;
+  proposalEntity.save();
+}
+
+export function handleProposalMetadataUpdated(
+  event: ProposalMetadataUpdated
+): void {
+  const proposalId = getProposalId(event.address, event.params.proposalId);
+  const proposalEntity = OptimisticProposal.load(proposalId);
+  if (!proposalEntity) {
+    log.error('Failed to load proposal {}', [proposalId]);
+    return;
+  }
+
+  // Keep the history of the metadata, the proposal holds the latest one
+  const updateEntity = new ProposalMetadataUpdate(
+    getProposalMetadataUpdateId(event.transaction.hash, event.logIndex)
+  );
+  updateEntity.proposal = proposalId;
+  updateEntity.previousMetadata = proposalEntity.metadata;
+  updateEntity.metadata = event.params.metadata.toString();
+  updateEntity.updatedAt = event.block.timestamp;
+  updateEntity.updateBlockNumber = event.block.number;
+  updateEntity.updateTxHash = event.transaction.hash;
+  updateEntity.save();
+
+  proposalEntity.metadata = updateEntity.metadata;
+  proposalEntity.save();
+}
+
+export function handleOptimisticGovernanceSettingsUpdated(
+  event: OptimisticGovernanceSettingsUpdated
+): void {
+  const installationId = getInstallationId(event.address);
+  if (!installationId) {
+    return;
+  }
+
+  const pluginEntity = Plugin.load(installationId.toHexString());
+  if (pluginEntity) {
+    pluginEntity.minVetoRatio = event.params.minVetoRatio.toI32();
+    pluginEntity.minDuration = event.params.minDuration;
+    pluginEntity.executionWindow = event.params.executionWindow;
+    pluginEntity.minProposerVotingPower = event.params.minProposerVotingPower;
+    pluginEntity.save();
+  }
+}
+
+// Build 1 plugins emit the governance settings without an execution window
+export function handleOptimisticGovernanceSettingsUpdatedBuild1(
+  event: OptimisticGovernanceSettingsUpdatedBuild1
+): void {
+  const installationId = getInstallationId(event.address);
+  if (!installationId) {
+    return;
+  }
+
+  const pluginEntity = Plugin.load(installationId.toHexString());
+  if (pluginEntity) {
+    pluginEntity.minVetoRatio = event.params.minVetoRatio.toI32();
+    pluginEntity.minDuration = event.params.minDuration;
+    pluginEntity.minProposerVotingPower = event.params.minProposerVotingPower;
+    pluginEntity.save();
+  }
 }
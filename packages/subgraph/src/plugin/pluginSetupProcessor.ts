@@ -1,3 +1,4 @@
+import {getPluginPreparationId} from '../../commons/ids';
 import {
   InstallationApplied,
   InstallationPrepared,
@@ -6,7 +7,13 @@ import {
   UpdateApplied,
   UpdatePrepared,
 } from '../../generated/PluginSetupProcessor/PluginSetupProcessor';
+import {Plugin as PluginContract} from '../../generated/PluginSetupProcessor/Plugin';
 import {Plugin, PluginPreparation} from '../../generated/schema';
+import {Address, Bytes, ethereum} from '@graphprotocol/graph-ts';
+
+// The parameters of `prepareInstallation` since build 2, the guardians are the fifth one
+const INSTALLATION_PARAMS =
+  '((uint32,uint64,uint64,uint256),(address,string,string),(address[],uint256[]),address[],address[],(address,uint256,address))';
 
 /////////////////
 // InstallationPrepared
@@ -27,12 +34,59 @@ export function updatePluginDataForInstallationPrepared(
   event: InstallationPrepared
 ): void {
   // Add `Plugin` specific data for this plugin
-  //   pluginEntity.onlyListed = false;
-  //   pluginEntity.proposalCount = BigInt.zero();
+  pluginEntity.pluginAddress = event.params.plugin;
+  pluginEntity.helpers = changetype<Bytes[]>(
+    event.params.preparedSetupData.helpers
+  );
+  // Build 1 had no guardians
+  if (event.params.versionTag.build >= 2) {
+    const guardians = decodeGuardians(event.params.data);
+    if (guardians) {
+      pluginEntity.guardians = guardians;
+    }
+  }
+
+  // `initialize` emits the first `OptimisticGovernanceSettingsUpdated` before
+  // the plugin template is created, so the settings are read from the plugin
+  updatePluginSettings(pluginEntity, event.params.plugin);
+}
 
-  // Remove: the following code is used to silence the linter
-  pluginEntity;
-  event;
+function decodeGuardians(data: Bytes): Bytes[] | null {
+  // `abi.encode` of several parameters is the encoding of their tuple without
+  // the offset that precedes a tuple with dynamic types
+  const offset = Bytes.fromHexString(
+    '0x0000000000000000000000000000000000000000000000000000000000000020'
+  );
+  const params = ethereum.decode(
+    INSTALLATION_PARAMS,
+    changetype<Bytes>(offset.concat(data))
+  );
+  if (!params) {
+    return null;
+  }
+  return changetype<Bytes[]>(params.toTuple()[4].toAddressArray());
+}
+
+function updatePluginSettings(pluginEntity: Plugin, plugin: Address): void {
+  const contract = PluginContract.bind(plugin);
+
+  const minVetoRatio = contract.try_minVetoRatio();
+  if (!minVetoRatio.reverted) {
+    pluginEntity.minVetoRatio = minVetoRatio.value.toI32();
+  }
+  const minDuration = contract.try_minDuration();
+  if (!minDuration.reverted) {
+    pluginEntity.minDuration = minDuration.value;
+  }
+  // Build 1 plugins have no execution window
+  const executionWindow = contract.try_executionWindow();
+  if (!executionWindow.reverted) {
+    pluginEntity.executionWindow = executionWindow.value;
+  }
+  const minProposerVotingPower = contract.try_minProposerVotingPower();
+  if (!minProposerVotingPower.reverted) {
+    pluginEntity.minProposerVotingPower = minProposerVotingPower.value;
+  }
 }
 
 /////////////////
@@ -57,10 +111,9 @@ export function updatePreparationDataForUpdatePrepared(
   event: UpdatePrepared
 ): void {
   // Add `PluginPreparation` specific data for this plugin
-
-  // Remove: the following code is used to silence the linter
-  pluginPreparationEntity;
-  event;
+  pluginPreparationEntity.helpers = changetype<Bytes[]>(
+    event.params.preparedSetupData.helpers
+  );
 }
 
 export function updatePluginDataForUpdatePrepared(
@@ -83,9 +136,19 @@ export function updatePluginDataForUpdateApplied(
 ): void {
   // Add `Plugin` specific data for this plugin
 
-  // Remove: the following code is used to silence the linter
-  pluginEntity;
-  event;
+  // The helpers of a prepared update only replace the installed ones once the
+  // update is applied, the preparation may as well never be applied
+  const preparationId = getPluginPreparationId(
+    event.params.dao,
+    event.params.plugin,
+    event.params.preparedSetupId
+  );
+  if (preparationId) {
+    const preparationEntity = PluginPreparation.load(preparationId);
+    if (preparationEntity) {
+      pluginEntity.helpers = preparationEntity.helpers;
+    }
+  }
 }
 
 /////////////////
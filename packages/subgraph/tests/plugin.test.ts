@@ -0,0 +1,519 @@
+import {
+  getPluginInstallationId,
+  getPluginMemberId,
+  getProposalId,
+  getProposalMetadataUpdateId,
+  getVetoId,
+} from '../commons/ids';
+import {Plugin} from '../generated/schema';
+import {
+  EmergencyVeto,
+  OptimisticGovernanceSettingsUpdated,
+  ProposalCancelled,
+  ProposalCreated,
+  ProposalDefeated,
+  ProposalExecuted,
+  ProposalMetadataUpdated,
+  VetoCast,
+  VetoReason,
+} from '../generated/templates/Plugin/Plugin';
+import {OptimisticGovernanceSettingsUpdated as OptimisticGovernanceSettingsUpdatedBuild1} from '../generated/templates/PluginBuild1/PluginBuild1';
+import {
+  handleEmergencyVeto,
+  handleOptimisticGovernanceSettingsUpdated,
+  handleOptimisticGovernanceSettingsUpdatedBuild1,
+  handleProposalCancelled,
+  handleProposalCreated,
+  handleProposalDefeated,
+  handleProposalExecuted,
+  handleProposalMetadataUpdated,
+  handleVetoCast,
+  handleVetoReason,
+} from '../src/plugin/plugin';
+import {
+  Address,
+  BigInt,
+  Bytes,
+  DataSourceContext,
+  ethereum,
+} from '@graphprotocol/graph-ts';
+import {
+  assert,
+  beforeEach,
+  clearStore,
+  createMockedFunction,
+  dataSourceMock,
+  describe,
+  newMockEvent,
+  test,
+} from 'matchstick-as/assembly/index';
+
+const DAO_ADDRESS = Address.fromString(
+  '0x00000000000000000000000000000000000000da'
+);
+const PLUGIN_ADDRESS = Address.fromString(
+  '0x00000000000000000000000000000000000000aa'
+);
+const CREATOR_ADDRESS = Address.fromString(
+  '0x0000000000000000000000000000000000000001'
+);
+const VOTER_ADDRESS = Address.fromString(
+  '0x0000000000000000000000000000000000000002'
+);
+const GUARDIAN_ADDRESS = Address.fromString(
+  '0x0000000000000000000000000000000000000003'
+);
+
+const PLUGIN_PROPOSAL_ID = BigInt.fromI32(0);
+const START_DATE = BigInt.fromI32(1700000000);
+const END_DATE = BigInt.fromI32(1700345600);
+const EXPIRATION_DATE = BigInt.fromI32(1700950400);
+const SNAPSHOT_TIMEPOINT = BigInt.fromI32(1699999999);
+const MIN_VETO_VOTING_POWER = BigInt.fromI32(100);
+const METADATA = 'ipfs://QmXhJawTJ3PkoKMyF3a4D89zybAHjpcGivkb7F1NkHAjpo';
+
+const PROPOSAL_ID = getProposalId(PLUGIN_ADDRESS, PLUGIN_PROPOSAL_ID);
+
+function getInstallationId(): string {
+  return getPluginInstallationId(DAO_ADDRESS, PLUGIN_ADDRESS)!.toHexString();
+}
+
+function uint(value: BigInt): ethereum.Value {
+  return ethereum.Value.fromUnsignedBigInt(value);
+}
+
+function createPluginEvent(params: ethereum.EventParam[]): ethereum.Event {
+  const event = newMockEvent();
+  event.address = PLUGIN_ADDRESS;
+  event.parameters = params;
+  return event;
+}
+
+function mockGetProposal(): void {
+  const parameters = new ethereum.Tuple();
+  parameters.push(uint(START_DATE));
+  parameters.push(uint(END_DATE));
+  parameters.push(uint(SNAPSHOT_TIMEPOINT));
+  // `ClockMode.Timestamp`
+  parameters.push(ethereum.Value.fromI32(1));
+  parameters.push(uint(EXPIRATION_DATE));
+  parameters.push(uint(MIN_VETO_VOTING_POWER));
+
+  createMockedFunction(
+    PLUGIN_ADDRESS,
+    'getProposal',
+    'getProposal(uint256):(bool,bool,bool,bool,(uint64,uint64,uint56,uint8,uint64,uint256),uint256,(address,uint256,bytes)[],uint256)'
+  )
+    .withArgs([uint(PLUGIN_PROPOSAL_ID)])
+    .returns([
+      ethereum.Value.fromBoolean(false),
+      ethereum.Value.fromBoolean(false),
+      ethereum.Value.fromBoolean(false),
+      ethereum.Value.fromBoolean(false),
+      ethereum.Value.fromTuple(parameters),
+      uint(BigInt.zero()),
+      ethereum.Value.fromTupleArray([]),
+      uint(BigInt.zero()),
+    ]);
+}
+
+function mockGetProposalBuild1(): void {
+  // The build 2 ABI fails to decode the shorter tuple of build 1
+  createMockedFunction(
+    PLUGIN_ADDRESS,
+    'getProposal',
+    'getProposal(uint256):(bool,bool,bool,bool,(uint64,uint64,uint56,uint8,uint64,uint256),uint256,(address,uint256,bytes)[],uint256)'
+  )
+    .withArgs([uint(PLUGIN_PROPOSAL_ID)])
+    .reverts();
+
+  const parameters = new ethereum.Tuple();
+  parameters.push(uint(START_DATE));
+  parameters.push(uint(END_DATE));
+  parameters.push(uint(SNAPSHOT_TIMEPOINT));
+  parameters.push(uint(MIN_VETO_VOTING_POWER));
+
+  createMockedFunction(
+    PLUGIN_ADDRESS,
+    'getProposal',
+    'getProposal(uint256):(bool,bool,(uint64,uint64,uint64,uint256),uint256,(address,uint256,bytes)[],uint256)'
+  )
+    .withArgs([uint(PLUGIN_PROPOSAL_ID)])
+    .returns([
+      ethereum.Value.fromBoolean(false),
+      ethereum.Value.fromBoolean(false),
+      ethereum.Value.fromTuple(parameters),
+      uint(BigInt.zero()),
+      ethereum.Value.fromTupleArray([]),
+      uint(BigInt.zero()),
+    ]);
+}
+
+function createProposal(): void {
+  const action = new ethereum.Tuple();
+  action.push(ethereum.Value.fromAddress(DAO_ADDRESS));
+  action.push(uint(BigInt.zero()));
+  action.push(ethereum.Value.fromBytes(Bytes.fromHexString('0x00000000')));
+
+  const event = changetype<ProposalCreated>(
+    createPluginEvent([
+      new ethereum.EventParam('proposalId', uint(PLUGIN_PROPOSAL_ID)),
+      new ethereum.EventParam(
+        'creator',
+        ethereum.Value.fromAddress(CREATOR_ADDRESS)
+      ),
+      new ethereum.EventParam('startDate', uint(START_DATE)),
+      new ethereum.EventParam('endDate', uint(END_DATE)),
+      new ethereum.EventParam(
+        'metadata',
+        ethereum.Value.fromBytes(Bytes.fromUTF8(METADATA))
+      ),
+      new ethereum.EventParam(
+        'actions',
+        ethereum.Value.fromTupleArray([action])
+      ),
+      new ethereum.EventParam('allowFailureMap', uint(BigInt.zero())),
+    ])
+  );
+  handleProposalCreated(event);
+}
+
+function castVeto(votingPower: BigInt): void {
+  const event = changetype<VetoCast>(
+    createPluginEvent([
+      new ethereum.EventParam('proposalId', uint(PLUGIN_PROPOSAL_ID)),
+      new ethereum.EventParam(
+        'voter',
+        ethereum.Value.fromAddress(VOTER_ADDRESS)
+      ),
+      new ethereum.EventParam('votingPower', uint(votingPower)),
+    ])
+  );
+  handleVetoCast(event);
+}
+
+function createProposalEvent(): ethereum.Event {
+  return createPluginEvent([
+    new ethereum.EventParam('proposalId', uint(PLUGIN_PROPOSAL_ID)),
+  ]);
+}
+
+describe('Plugin', () => {
+  beforeEach(() => {
+    clearStore();
+
+    const context = new DataSourceContext();
+    context.setString('daoAddress', DAO_ADDRESS.toHexString());
+    dataSourceMock.setContext(context);
+
+    const pluginEntity = new Plugin(getInstallationId());
+    pluginEntity.dao = DAO_ADDRESS.toHexString();
+    pluginEntity.pluginAddress = PLUGIN_ADDRESS;
+    pluginEntity.save();
+
+    mockGetProposal();
+    createProposal();
+  });
+
+  test('creates the proposal with the parameters read from the plugin', () => {
+    assert.fieldEquals(
+      'OptimisticProposal',
+      PROPOSAL_ID,
+      'creator',
+      CREATOR_ADDRESS.toHexString()
+    );
+    assert.fieldEquals('OptimisticProposal', PROPOSAL_ID, 'metadata', METADATA);
+    assert.fieldEquals(
+      'OptimisticProposal',
+      PROPOSAL_ID,
+      'plugin',
+      getInstallationId()
+    );
+    assert.fieldEquals(
+      'OptimisticProposal',
+      PROPOSAL_ID,
+      'snapshotTimepoint',
+      SNAPSHOT_TIMEPOINT.toString()
+    );
+    assert.fieldEquals(
+      'OptimisticProposal',
+      PROPOSAL_ID,
+      'clockMode',
+      'timestamp'
+    );
+    assert.fieldEquals(
+      'OptimisticProposal',
+      PROPOSAL_ID,
+      'expirationDate',
+      EXPIRATION_DATE.toString()
+    );
+    assert.fieldEquals(
+      'OptimisticProposal',
+      PROPOSAL_ID,
+      'minVetoVotingPower',
+      MIN_VETO_VOTING_POWER.toString()
+    );
+    assert.fieldEquals('OptimisticProposal', PROPOSAL_ID, 'defeated', 'false');
+    assert.entityCount('Action', 1);
+  });
+
+  test('counts the vetoes and defeats the proposal at the min veto voting power', () => {
+    castVeto(BigInt.fromI32(40));
+
+    assert.fieldEquals(
+      'PluginMember',
+      getPluginMemberId(PLUGIN_ADDRESS, VOTER_ADDRESS),
+      'address',
+      VOTER_ADDRESS.toHexString()
+    );
+    assert.fieldEquals(
+      'Veto',
+      getVetoId(VOTER_ADDRESS, PROPOSAL_ID),
+      'votingPower',
+      '40'
+    );
+    assert.fieldEquals('OptimisticProposal', PROPOSAL_ID, 'vetoTally', '40');
+    assert.fieldEquals('OptimisticProposal', PROPOSAL_ID, 'defeated', 'false');
+
+    castVeto(BigInt.fromI32(60));
+
+    assert.fieldEquals('OptimisticProposal', PROPOSAL_ID, 'vetoTally', '100');
+    assert.fieldEquals(
+      'OptimisticProposal',
+      PROPOSAL_ID,
+      'minVetoRatioReached',
+      'true'
+    );
+    assert.fieldEquals('OptimisticProposal', PROPOSAL_ID, 'defeated', 'true');
+  });
+
+  test('stores the reason of a veto', () => {
+    castVeto(BigInt.fromI32(40));
+    const event = changetype<VetoReason>(
+      createPluginEvent([
+        new ethereum.EventParam('proposalId', uint(PLUGIN_PROPOSAL_ID)),
+        new ethereum.EventParam(
+          'voter',
+          ethereum.Value.fromAddress(VOTER_ADDRESS)
+        ),
+        new ethereum.EventParam('reason', ethereum.Value.fromString('Spam')),
+      ])
+    );
+    handleVetoReason(event);
+
+    assert.fieldEquals(
+      'Veto',
+      getVetoId(VOTER_ADDRESS, PROPOSAL_ID),
+      'reason',
+      'Spam'
+    );
+  });
+
+  test('marks the proposal as defeated', () => {
+    handleProposalDefeated(changetype<ProposalDefeated>(createProposalEvent()));
+
+    assert.fieldEquals('OptimisticProposal', PROPOSAL_ID, 'defeated', 'true');
+    assert.fieldEquals(
+      'OptimisticProposal',
+      PROPOSAL_ID,
+      'minVetoRatioReached',
+      'true'
+    );
+  });
+
+  test('marks the proposal as defeated by an emergency veto', () => {
+    const event = changetype<EmergencyVeto>(
+      createPluginEvent([
+        new ethereum.EventParam('proposalId', uint(PLUGIN_PROPOSAL_ID)),
+        new ethereum.EventParam(
+          'guardian',
+          ethereum.Value.fromAddress(GUARDIAN_ADDRESS)
+        ),
+      ])
+    );
+    handleEmergencyVeto(event);
+
+    assert.fieldEquals(
+      'OptimisticProposal',
+      PROPOSAL_ID,
+      'emergencyVetoed',
+      'true'
+    );
+    assert.fieldEquals(
+      'OptimisticProposal',
+      PROPOSAL_ID,
+      'emergencyVetoGuardian',
+      GUARDIAN_ADDRESS.toHexString()
+    );
+    assert.fieldEquals('OptimisticProposal', PROPOSAL_ID, 'defeated', 'true');
+    assert.fieldEquals(
+      'OptimisticProposal',
+      PROPOSAL_ID,
+      'minVetoRatioReached',
+      'false'
+    );
+  });
+
+  test('marks the proposal as executed', () => {
+    handleProposalExecuted(changetype<ProposalExecuted>(createProposalEvent()));
+
+    assert.fieldEquals('OptimisticProposal', PROPOSAL_ID, 'executed', 'true');
+  });
+
+  test('marks the proposal as cancelled', () => {
+    handleProposalCancelled(
+      changetype<ProposalCancelled>(createProposalEvent())
+    );
+
+    assert.fieldEquals('OptimisticProposal', PROPOSAL_ID, 'cancelled', 'true');
+  });
+
+  test('keeps the previous metadata when it is updated', () => {
+    const newMetadata = 'ipfs://QmNewMetadata';
+    const event = changetype<ProposalMetadataUpdated>(
+      createPluginEvent([
+        new ethereum.EventParam('proposalId', uint(PLUGIN_PROPOSAL_ID)),
+        new ethereum.EventParam(
+          'metadata',
+          ethereum.Value.fromBytes(Bytes.fromUTF8(newMetadata))
+        ),
+      ])
+    );
+    handleProposalMetadataUpdated(event);
+
+    const updateId = getProposalMetadataUpdateId(
+      event.transaction.hash,
+      event.logIndex
+    );
+    assert.fieldEquals(
+      'ProposalMetadataUpdate',
+      updateId,
+      'previousMetadata',
+      METADATA
+    );
+    assert.fieldEquals(
+      'ProposalMetadataUpdate',
+      updateId,
+      'metadata',
+      newMetadata
+    );
+    assert.fieldEquals(
+      'OptimisticProposal',
+      PROPOSAL_ID,
+      'metadata',
+      newMetadata
+    );
+  });
+
+  test('updates the governance settings of the plugin', () => {
+    const event = changetype<OptimisticGovernanceSettingsUpdated>(
+      createPluginEvent([
+        new ethereum.EventParam('minVetoRatio', uint(BigInt.fromI32(200000))),
+        new ethereum.EventParam('minDuration', uint(BigInt.fromI32(345600))),
+        new ethereum.EventParam(
+          'executionWindow',
+          uint(BigInt.fromI32(604800))
+        ),
+        new ethereum.EventParam(
+          'minProposerVotingPower',
+          uint(BigInt.fromI32(1))
+        ),
+      ])
+    );
+    handleOptimisticGovernanceSettingsUpdated(event);
+
+    assert.fieldEquals('Plugin', getInstallationId(), 'minVetoRatio', '200000');
+    assert.fieldEquals('Plugin', getInstallationId(), 'minDuration', '345600');
+    assert.fieldEquals(
+      'Plugin',
+      getInstallationId(),
+      'executionWindow',
+      '604800'
+    );
+    assert.fieldEquals(
+      'Plugin',
+      getInstallationId(),
+      'minProposerVotingPower',
+      '1'
+    );
+  });
+});
+
+describe('Plugin build 1', () => {
+  beforeEach(() => {
+    clearStore();
+
+    const context = new DataSourceContext();
+    context.setString('daoAddress', DAO_ADDRESS.toHexString());
+    dataSourceMock.setContext(context);
+
+    const pluginEntity = new Plugin(getInstallationId());
+    pluginEntity.dao = DAO_ADDRESS.toHexString();
+    pluginEntity.pluginAddress = PLUGIN_ADDRESS;
+    pluginEntity.save();
+
+    mockGetProposalBuild1();
+    createProposal();
+  });
+
+  test('creates the proposal with the parameters of build 1', () => {
+    assert.fieldEquals('OptimisticProposal', PROPOSAL_ID, 'metadata', METADATA);
+    assert.fieldEquals(
+      'OptimisticProposal',
+      PROPOSAL_ID,
+      'snapshotTimepoint',
+      SNAPSHOT_TIMEPOINT.toString()
+    );
+    assert.fieldEquals(
+      'OptimisticProposal',
+      PROPOSAL_ID,
+      'clockMode',
+      'blocknumber'
+    );
+    assert.fieldEquals(
+      'OptimisticProposal',
+      PROPOSAL_ID,
+      'expirationDate',
+      '18446744073709551615'
+    );
+    assert.fieldEquals(
+      'OptimisticProposal',
+      PROPOSAL_ID,
+      'minVetoVotingPower',
+      MIN_VETO_VOTING_POWER.toString()
+    );
+    assert.fieldEquals('OptimisticProposal', PROPOSAL_ID, 'defeated', 'false');
+    assert.entityCount('Action', 1);
+  });
+
+  test('counts the vetoes and marks the proposal as executed', () => {
+    castVeto(BigInt.fromI32(40));
+    handleProposalExecuted(changetype<ProposalExecuted>(createProposalEvent()));
+
+    assert.fieldEquals('OptimisticProposal', PROPOSAL_ID, 'vetoTally', '40');
+    assert.fieldEquals('OptimisticProposal', PROPOSAL_ID, 'executed', 'true');
+  });
+
+  test('updates the governance settings of the plugin', () => {
+    const event = changetype<OptimisticGovernanceSettingsUpdatedBuild1>(
+      createPluginEvent([
+        new ethereum.EventParam('minVetoRatio', uint(BigInt.fromI32(200000))),
+        new ethereum.EventParam('minDuration', uint(BigInt.fromI32(345600))),
+        new ethereum.EventParam(
+          'minProposerVotingPower',
+          uint(BigInt.fromI32(1))
+        ),
+      ])
+    );
+    handleOptimisticGovernanceSettingsUpdatedBuild1(event);
+
+    assert.fieldEquals('Plugin', getInstallationId(), 'minVetoRatio', '200000');
+    assert.fieldEquals('Plugin', getInstallationId(), 'minDuration', '345600');
+    assert.fieldEquals(
+      'Plugin',
+      getInstallationId(),
+      'minProposerVotingPower',
+      '1'
+    );
+  });
+});
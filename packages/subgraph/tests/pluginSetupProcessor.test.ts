@@ -0,0 +1,320 @@
+import {getPluginInstallationId} from '../commons/ids';
+import {
+  InstallationPrepared,
+  UpdateApplied,
+  UpdatePrepared,
+} from '../generated/PluginSetupProcessor/PluginSetupProcessor';
+import {Plugin} from '../generated/schema';
+import {
+  handleUpdateApplied,
+  handleUpdatePrepared,
+} from '../src/osx/pluginSetupProcessor';
+import {updatePluginDataForInstallationPrepared} from '../src/plugin/pluginSetupProcessor';
+import {Address, BigInt, Bytes, ethereum} from '@graphprotocol/graph-ts';
+import {
+  assert,
+  beforeEach,
+  clearStore,
+  createMockedFunction,
+  describe,
+  newMockEvent,
+  test,
+} from 'matchstick-as/assembly/index';
+
+const DAO_ADDRESS = Address.fromString(
+  '0x00000000000000000000000000000000000000da'
+);
+const PLUGIN_ADDRESS = Address.fromString(
+  '0x00000000000000000000000000000000000000aa'
+);
+const TOKEN_ADDRESS = Address.fromString(
+  '0x00000000000000000000000000000000000000bb'
+);
+const PLUGIN_REPO_ADDRESS = Address.fromString(
+  '0x00000000000000000000000000000000000000cc'
+);
+const NEW_HELPER_ADDRESS = Address.fromString(
+  '0x00000000000000000000000000000000000000dd'
+);
+const GUARDIAN_ADDRESS = Address.fromString(
+  '0x00000000000000000000000000000000000000ee'
+);
+const UPDATE_SETUP_ID = Bytes.fromHexString(
+  '0x0000000000000000000000000000000000000000000000000000000000000002'
+);
+
+function getInstallationId(): string {
+  return getPluginInstallationId(DAO_ADDRESS, PLUGIN_ADDRESS)!.toHexString();
+}
+
+function uint(value: i32): ethereum.Value {
+  return ethereum.Value.fromUnsignedBigInt(BigInt.fromI32(value));
+}
+
+// The parameters of `prepareInstallation` as `abi.encode` gives them
+function encodeInstallationParams(guardians: Address[]): Bytes {
+  const settings = new ethereum.Tuple();
+  settings.push(uint(100000));
+  settings.push(uint(432000));
+  settings.push(uint(604800));
+  settings.push(uint(1));
+
+  const tokenSettings = new ethereum.Tuple();
+  tokenSettings.push(ethereum.Value.fromAddress(TOKEN_ADDRESS));
+  tokenSettings.push(ethereum.Value.fromString(''));
+  tokenSettings.push(ethereum.Value.fromString(''));
+
+  const mintSettings = new ethereum.Tuple();
+  mintSettings.push(ethereum.Value.fromAddressArray([]));
+  mintSettings.push(ethereum.Value.fromUnsignedBigIntArray([]));
+
+  const bondSettings = new ethereum.Tuple();
+  bondSettings.push(ethereum.Value.fromAddress(Address.zero()));
+  bondSettings.push(uint(0));
+  bondSettings.push(ethereum.Value.fromAddress(Address.zero()));
+
+  const params = new ethereum.Tuple();
+  params.push(ethereum.Value.fromTuple(settings));
+  params.push(ethereum.Value.fromTuple(tokenSettings));
+  params.push(ethereum.Value.fromTuple(mintSettings));
+  params.push(ethereum.Value.fromAddressArray([]));
+  params.push(ethereum.Value.fromAddressArray(guardians));
+  params.push(ethereum.Value.fromTuple(bondSettings));
+
+  // Without the offset of the tuple
+  const encoded = ethereum.encode(ethereum.Value.fromTuple(params))!;
+  return Bytes.fromUint8Array(encoded.subarray(32));
+}
+
+function createInstallationPreparedEvent(
+  data: Bytes = Bytes.empty()
+): InstallationPrepared {
+  const versionTag = new ethereum.Tuple();
+  versionTag.push(uint(1));
+  versionTag.push(uint(2));
+
+  const preparedSetupData = new ethereum.Tuple();
+  preparedSetupData.push(ethereum.Value.fromAddressArray([TOKEN_ADDRESS]));
+  preparedSetupData.push(ethereum.Value.fromTupleArray([]));
+
+  const event = changetype<InstallationPrepared>(newMockEvent());
+  event.parameters = [
+    new ethereum.EventParam('sender', ethereum.Value.fromAddress(DAO_ADDRESS)),
+    new ethereum.EventParam('dao', ethereum.Value.fromAddress(DAO_ADDRESS)),
+    new ethereum.EventParam(
+      'preparedSetupId',
+      ethereum.Value.fromFixedBytes(Bytes.fromI32(1))
+    ),
+    new ethereum.EventParam(
+      'pluginSetupRepo',
+      ethereum.Value.fromAddress(PLUGIN_REPO_ADDRESS)
+    ),
+    new ethereum.EventParam('versionTag', ethereum.Value.fromTuple(versionTag)),
+    new ethereum.EventParam('data', ethereum.Value.fromBytes(data)),
+    new ethereum.EventParam(
+      'plugin',
+      ethereum.Value.fromAddress(PLUGIN_ADDRESS)
+    ),
+    new ethereum.EventParam(
+      'preparedSetupData',
+      ethereum.Value.fromTuple(preparedSetupData)
+    ),
+  ];
+  return event;
+}
+
+function createUpdatePreparedEvent(): UpdatePrepared {
+  const versionTag = new ethereum.Tuple();
+  versionTag.push(uint(1));
+  versionTag.push(uint(2));
+
+  const setupPayload = new ethereum.Tuple();
+  setupPayload.push(ethereum.Value.fromAddress(PLUGIN_ADDRESS));
+  setupPayload.push(ethereum.Value.fromAddressArray([TOKEN_ADDRESS]));
+  setupPayload.push(ethereum.Value.fromBytes(Bytes.empty()));
+
+  const preparedSetupData = new ethereum.Tuple();
+  preparedSetupData.push(ethereum.Value.fromAddressArray([NEW_HELPER_ADDRESS]));
+  preparedSetupData.push(ethereum.Value.fromTupleArray([]));
+
+  const event = changetype<UpdatePrepared>(newMockEvent());
+  event.parameters = [
+    new ethereum.EventParam('sender', ethereum.Value.fromAddress(DAO_ADDRESS)),
+    new ethereum.EventParam('dao', ethereum.Value.fromAddress(DAO_ADDRESS)),
+    new ethereum.EventParam(
+      'preparedSetupId',
+      ethereum.Value.fromFixedBytes(UPDATE_SETUP_ID)
+    ),
+    new ethereum.EventParam(
+      'pluginSetupRepo',
+      ethereum.Value.fromAddress(PLUGIN_REPO_ADDRESS)
+    ),
+    new ethereum.EventParam('versionTag', ethereum.Value.fromTuple(versionTag)),
+    new ethereum.EventParam(
+      'setupPayload',
+      ethereum.Value.fromTuple(setupPayload)
+    ),
+    new ethereum.EventParam(
+      'preparedSetupData',
+      ethereum.Value.fromTuple(preparedSetupData)
+    ),
+    new ethereum.EventParam(
+      'initData',
+      ethereum.Value.fromBytes(Bytes.empty())
+    ),
+  ];
+  return event;
+}
+
+function createUpdateAppliedEvent(): UpdateApplied {
+  const event = changetype<UpdateApplied>(newMockEvent());
+  event.parameters = [
+    new ethereum.EventParam('dao', ethereum.Value.fromAddress(DAO_ADDRESS)),
+    new ethereum.EventParam(
+      'plugin',
+      ethereum.Value.fromAddress(PLUGIN_ADDRESS)
+    ),
+    new ethereum.EventParam(
+      'preparedSetupId',
+      ethereum.Value.fromFixedBytes(UPDATE_SETUP_ID)
+    ),
+    new ethereum.EventParam(
+      'appliedSetupId',
+      ethereum.Value.fromFixedBytes(UPDATE_SETUP_ID)
+    ),
+  ];
+  return event;
+}
+
+function mockSettings(executionWindow: boolean): void {
+  createMockedFunction(
+    PLUGIN_ADDRESS,
+    'minVetoRatio',
+    'minVetoRatio():(uint32)'
+  ).returns([uint(100000)]);
+  createMockedFunction(
+    PLUGIN_ADDRESS,
+    'minDuration',
+    'minDuration():(uint64)'
+  ).returns([uint(432000)]);
+  createMockedFunction(
+    PLUGIN_ADDRESS,
+    'minProposerVotingPower',
+    'minProposerVotingPower():(uint256)'
+  ).returns([uint(1)]);
+
+  const mockedExecutionWindow = createMockedFunction(
+    PLUGIN_ADDRESS,
+    'executionWindow',
+    'executionWindow():(uint64)'
+  );
+  if (executionWindow) {
+    mockedExecutionWindow.returns([uint(604800)]);
+  } else {
+    mockedExecutionWindow.reverts();
+  }
+}
+
+describe('PluginSetupProcessor', () => {
+  beforeEach(() => {
+    clearStore();
+  });
+
+  test('reads the initial governance settings from the prepared plugin', () => {
+    mockSettings(true);
+    const pluginEntity = new Plugin(getInstallationId());
+    pluginEntity.dao = DAO_ADDRESS.toHexString();
+    updatePluginDataForInstallationPrepared(
+      pluginEntity,
+      createInstallationPreparedEvent()
+    );
+    pluginEntity.save();
+
+    assert.fieldEquals(
+      'Plugin',
+      getInstallationId(),
+      'pluginAddress',
+      PLUGIN_ADDRESS.toHexString()
+    );
+    assert.fieldEquals(
+      'Plugin',
+      getInstallationId(),
+      'helpers',
+      '[' + TOKEN_ADDRESS.toHexString() + ']'
+    );
+    assert.fieldEquals('Plugin', getInstallationId(), 'minVetoRatio', '100000');
+    assert.fieldEquals('Plugin', getInstallationId(), 'minDuration', '432000');
+    assert.fieldEquals(
+      'Plugin',
+      getInstallationId(),
+      'executionWindow',
+      '604800'
+    );
+    assert.fieldEquals(
+      'Plugin',
+      getInstallationId(),
+      'minProposerVotingPower',
+      '1'
+    );
+  });
+
+  test('leaves the execution window unset for build 1 plugins', () => {
+    mockSettings(false);
+    const pluginEntity = new Plugin(getInstallationId());
+    pluginEntity.dao = DAO_ADDRESS.toHexString();
+    updatePluginDataForInstallationPrepared(
+      pluginEntity,
+      createInstallationPreparedEvent()
+    );
+    pluginEntity.save();
+
+    assert.fieldEquals('Plugin', getInstallationId(), 'minDuration', '432000');
+    assert.assertTrue(pluginEntity.executionWindow === null);
+  });
+
+  test('keeps the guardians given to the installation', () => {
+    mockSettings(true);
+    const pluginEntity = new Plugin(getInstallationId());
+    pluginEntity.dao = DAO_ADDRESS.toHexString();
+    updatePluginDataForInstallationPrepared(
+      pluginEntity,
+      createInstallationPreparedEvent(
+        encodeInstallationParams([GUARDIAN_ADDRESS])
+      )
+    );
+    pluginEntity.save();
+
+    assert.fieldEquals(
+      'Plugin',
+      getInstallationId(),
+      'guardians',
+      '[' + GUARDIAN_ADDRESS.toHexString() + ']'
+    );
+  });
+
+  test('keeps the installed helpers until the prepared update is applied', () => {
+    const pluginEntity = new Plugin(getInstallationId());
+    pluginEntity.dao = DAO_ADDRESS.toHexString();
+    pluginEntity.pluginAddress = PLUGIN_ADDRESS;
+    pluginEntity.helpers = [changetype<Bytes>(TOKEN_ADDRESS)];
+    pluginEntity.save();
+
+    handleUpdatePrepared(createUpdatePreparedEvent());
+
+    assert.fieldEquals(
+      'Plugin',
+      getInstallationId(),
+      'helpers',
+      '[' + TOKEN_ADDRESS.toHexString() + ']'
+    );
+
+    handleUpdateApplied(createUpdateAppliedEvent());
+
+    assert.fieldEquals(
+      'Plugin',
+      getInstallationId(),
+      'helpers',
+      '[' + NEW_HELPER_ADDRESS.toHexString() + ']'
+    );
+  });
+});